@@ -1,119 +1,137 @@
-import React, { useEffect, useState, useMemo } from "react";
-import { QuizAttempt } from "@shared/schema";
+import React, { useState } from "react";
+import { useInfiniteQuery, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ATTEMPT_SORTS, AttemptSort, LeaderboardEntry } from "@shared/schema";
 import { formatPercentage } from "@/lib/utils";
-import { Loader2 } from "lucide-react";
+import { ATTEMPT_SORT_LABELS, fetchAttemptRank, fetchLeaderboardPage, formatDuration } from "@/lib/quizUtils";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChevronDown, ChevronRight, Loader2 } from "lucide-react";
 
 interface LeaderboardProps {
-  attempts: QuizAttempt[];
-  currentUserName?: string;
-  currentUserScore?: number;
-  currentUserTotalQuestions?: number;
+  quizId: number;
+  // Attempt of the person viewing; their row is highlighted and their rank shown
+  currentAttemptId?: number;
 }
 
-const Leaderboard: React.FC<LeaderboardProps> = ({ 
-  attempts, 
-  currentUserName,
-  currentUserScore = 0,
-  currentUserTotalQuestions = 1
-}) => {
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [refreshKey, setRefreshKey] = useState(0);
+/**
+ * Public leaderboard of a quiz
+ * Loads one page at a time in the chosen order; further rows are fetched on demand.
+ * New attempts arrive over the quiz's live stream, which refetches the loaded pages and the viewer's rank.
+ */
+const Leaderboard: React.FC<LeaderboardProps> = ({ quizId, currentAttemptId }) => {
+  const queryClient = useQueryClient();
+  const [sort, setSort] = useState<AttemptSort>("score");
+  // Rows whose attempt history is unfolded, by entry id
+  const [expandedIds, setExpandedIds] = useState<Set<number>>(new Set());
 
-  // Force refresh the leaderboard data when attempts or current user data changes
-  useEffect(() => {
-    console.log("Leaderboard received new data:", { 
-      attemptsCount: attempts?.length, 
-      attempt_ids: attempts?.map(a => a.id),
-      currentUserName,
-      currentUserScore
-    });
-    
-    // Show loading state briefly for visual feedback
-    setIsRefreshing(true);
-    const timer = setTimeout(() => {
-      setRefreshKey(prev => prev + 1); // Increment key to force re-render
-      setIsRefreshing(false);
-    }, 300);
-    
-    return () => clearTimeout(timer);
-  }, [
-    attempts, 
-    attempts?.length, 
-    currentUserName, 
-    currentUserScore, 
-    currentUserTotalQuestions
-  ]);
-  
-  // Memoize the processed leaderboard data to avoid recalculations
-  const sortedLeaderboardData = useMemo(() => {
-    // Start with sorted attempts array
-    let sortedData = [...(attempts || [])].map(attempt => ({
-      ...attempt,
-      // Ensure score can't exceed total questions
-      score: Math.min(attempt.score, attempt.totalQuestions)
-    })).sort((a, b) => {
-      const scoreA = (a.score / (a.totalQuestions || 1)) * 100;
-      const scoreB = (b.score / (b.totalQuestions || 1)) * 100;
-      return scoreB - scoreA;
+  const {
+    data,
+    isLoading,
+    isError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: [`/api/quizzes/${quizId}/leaderboard`, sort],
+    queryFn: ({ pageParam }) => fetchLeaderboardPage(quizId, sort, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  // The viewer's own standing, wherever they are on the leaderboard
+  const { data: myRank } = useQuery({
+    queryKey: [`/api/quiz-attempts/${currentAttemptId}/rank`, sort],
+    queryFn: () => fetchAttemptRank(currentAttemptId!, sort),
+    enabled: currentAttemptId !== undefined,
+  });
+
+  // Ranks shift with every new attempt, so the rows are fetched again rather than patched in
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/quizzes/${quizId}/leaderboard`] });
+    if (currentAttemptId !== undefined) {
+      queryClient.invalidateQueries({ queryKey: [`/api/quiz-attempts/${currentAttemptId}/rank`] });
+    }
+  };
+  const liveStatus = useLiveUpdates(`/api/quizzes/${quizId}/leaderboard/stream`, {
+    onEvent: (event) => {
+      if (event.type !== "closed") refresh();
+    },
+    onReconnected: refresh,
+  });
+
+  const toggleHistory = (entryId: number) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(entryId)) {
+        next.delete(entryId);
+      } else {
+        next.add(entryId);
+      }
+      return next;
     });
+  };
+
+  const entries = data?.pages.flatMap(page => page.data) ?? [];
+  // Every page carries the total; it is read from the first one
+  const firstPage = data?.pages[0];
+  // A taker further down than the loaded rows sees their own neighbourhood below the list
+  const isMyRowLoaded = myRank !== undefined && entries.some(entry => entry.id === myRank.entry.id);
 
-    // Check if current user exists in the attempts data
-    const userExists = currentUserName && sortedData.some(a => 
-      a.userName?.toLowerCase() === currentUserName?.toLowerCase()
+  const sortTabs = (
+    <Tabs value={sort} onValueChange={(value) => setSort(value as AttemptSort)} className="mb-3">
+      <TabsList>
+        {ATTEMPT_SORTS.map(option => (
+          <TabsTrigger key={option} value={option}>
+            {ATTEMPT_SORT_LABELS[option]}
+          </TabsTrigger>
+        ))}
+      </TabsList>
+    </Tabs>
+  );
+
+  if (isLoading) {
+    return (
+      <>
+        {sortTabs}
+        <div className="overflow-hidden rounded-lg border border-gray-200 p-8 text-center">
+          <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2 text-primary" />
+          <p className="text-muted-foreground text-sm">Loading leaderboard...</p>
+        </div>
+      </>
     );
-    
-    // If user doesn't exist in the attempts but we have their name and score, add them
-    if (currentUserName && !userExists && currentUserScore !== undefined) {
-      // Create a virtual attempt for the current user
-      const userAttempt = {
-        id: -1, // Virtual entry marker
-        quizId: 0,
-        userAnswerId: 0,
-        userName: currentUserName,
-        score: Math.min(currentUserScore, currentUserTotalQuestions || 1),
-        totalQuestions: currentUserTotalQuestions || 1,
-        answers: [],
-        completedAt: new Date()
-      };
-      
-      // Add to sorted array and resort
-      sortedData.push(userAttempt);
-      sortedData = sortedData.sort((a, b) => {
-        const scoreA = (a.score / (a.totalQuestions || 1)) * 100;
-        const scoreB = (b.score / (b.totalQuestions || 1)) * 100;
-        return scoreB - scoreA;
-      });
-    }
-    
-    return sortedData;
-  }, [attempts, currentUserName, currentUserScore, currentUserTotalQuestions, refreshKey]);
-  
-  // If refreshing, show loading state
-  if (isRefreshing) {
+  }
+
+  if (isError) {
     return (
-      <div className="overflow-hidden rounded-lg border border-gray-200 p-8 text-center">
-        <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2 text-primary" />
-        <p className="text-muted-foreground text-sm">Refreshing leaderboard...</p>
-      </div>
+      <>
+        {sortTabs}
+        <div className="overflow-hidden rounded-lg border border-gray-200 p-4 text-center text-gray-500">
+          The leaderboard could not be loaded. Please try again later.
+        </div>
+      </>
     );
   }
-  
+
   // If there's no data at all, show empty state
-  if (sortedLeaderboardData.length === 0) {
+  if (entries.length === 0) {
     return (
-      <div className="overflow-hidden rounded-lg border border-gray-200 p-4 text-center text-gray-500">
-        No attempts yet
-      </div>
+      <>
+        {sortTabs}
+        <div className="overflow-hidden rounded-lg border border-gray-200 p-4 text-center text-gray-500">
+          {sort === "fastest" ? "No timed attempts yet" : "No attempts yet"}
+        </div>
+      </>
     );
   }
 
-  return (
+  const renderTable = (rows: LeaderboardEntry[]) => (
     <div className="overflow-hidden rounded-lg border border-gray-200">
       <table className="min-w-full divide-y divide-gray-200">
         <thead className="bg-gray-50">
           <tr>
             <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-              Rank
+              {sort === "newest" ? "#" : "Rank"}
             </th>
             <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
               Name
@@ -121,39 +139,126 @@ const Leaderboard: React.FC<LeaderboardProps> = ({
             <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
               Score
             </th>
+            {sort === "fastest" && (
+              <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Time
+              </th>
+            )}
           </tr>
         </thead>
         <tbody className="bg-white divide-y divide-gray-200">
-          {sortedLeaderboardData.map((attempt, index) => {
-            const isCurrentUser = currentUserName && attempt.userName === currentUserName;
-            
+          {rows.map((attempt) => {
+            const isCurrentUser = currentAttemptId !== undefined &&
+              attempt.history.some(pastAttempt => pastAttempt.id === currentAttemptId);
+            // Repeat takers share one row; their other attempts fold out underneath
+            const hasHistory = attempt.history.length > 1;
+            const isExpanded = hasHistory && expandedIds.has(attempt.id);
+
             return (
-              <tr 
-                key={`${attempt.id}-${index}`}
-                className={isCurrentUser ? "bg-orange-50 border-l-4 border-orange-400" : ""}
-              >
-                <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
-                  {index + 1}
-                </td>
-                <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700">
-                  {isCurrentUser ? (
-                    <span className="font-medium text-orange-600">You ({attempt.userName})</span>
-                  ) : (
-                    attempt.userName || "Anonymous"
+              <React.Fragment key={attempt.id}>
+                <tr
+                  className={isCurrentUser ? "bg-orange-50 border-l-4 border-orange-400" : ""}
+                >
+                  <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {attempt.rank}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700">
+                    {isCurrentUser ? (
+                      <span className="font-medium text-orange-600">You ({attempt.userName})</span>
+                    ) : (
+                      attempt.userName || "Anonymous"
+                    )}
+                    {hasHistory && (
+                      <button
+                        type="button"
+                        className="ml-2 inline-flex items-center text-xs text-muted-foreground hover:text-primary"
+                        onClick={() => toggleHistory(attempt.id)}
+                        aria-expanded={isExpanded}
+                      >
+                        {isExpanded ? <ChevronDown className="h-3 w-3 mr-0.5" /> : <ChevronRight className="h-3 w-3 mr-0.5" />}
+                        {attempt.history.length} attempts
+                      </button>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right font-medium">
+                    <span className={isCurrentUser ? "text-orange-600" : "text-primary"}>
+                      {formatPercentage(attempt.score, attempt.totalQuestions || 1)}
+                    </span>
+                  </td>
+                  {sort === "fastest" && (
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-500">
+                      {formatDuration(attempt.durationMs)}
+                    </td>
                   )}
-                </td>
-                <td className="px-4 py-3 whitespace-nowrap text-sm text-right font-medium">
-                  <span className={isCurrentUser ? "text-orange-600" : "text-primary"}>
-                    {formatPercentage(attempt.score, attempt.totalQuestions || 1)}
-                  </span>
-                </td>
-              </tr>
+                </tr>
+                {isExpanded && attempt.history.map((pastAttempt) => (
+                  <tr key={`history-${pastAttempt.id}`} className="bg-gray-50">
+                    <td className="px-4 py-2"></td>
+                    <td className="px-4 py-2 whitespace-nowrap text-xs text-gray-500">
+                      {new Date(pastAttempt.completedAt).toLocaleString()}
+                      {pastAttempt.id === attempt.id && (
+                        <span className="ml-2 font-medium text-primary">counted</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-xs text-right text-gray-500">
+                      {formatPercentage(pastAttempt.score, pastAttempt.totalQuestions || 1)}
+                    </td>
+                    {sort === "fastest" && (
+                      <td className="px-4 py-2 whitespace-nowrap text-xs text-right text-gray-500">
+                        {formatDuration(pastAttempt.durationMs)}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </React.Fragment>
             );
           })}
         </tbody>
       </table>
     </div>
   );
+
+  return (
+    <>
+      {sortTabs}
+      {myRank && (
+        <p className="text-sm text-muted-foreground mb-3">
+          You are <span className="font-medium text-orange-600">#{myRank.entry.rank}</span> of {myRank.total}
+          {myRank.tiedWith > 0 && ` (tied with ${myRank.tiedWith} other${myRank.tiedWith === 1 ? "" : "s"})`}
+          {myRank.total > 1 && `, ahead of ${myRank.percentile}% of players`}
+        </p>
+      )}
+      {renderTable(entries)}
+      <div className="mt-3 flex items-center justify-between text-sm text-muted-foreground">
+        <span>
+          Showing {entries.length} of {firstPage?.total ?? entries.length}
+          {liveStatus === "live" && (
+            <span className="ml-2 inline-flex items-center text-xs text-green-600">
+              <span className="mr-1 h-2 w-2 rounded-full bg-green-500" />
+              Live
+            </span>
+          )}
+        </span>
+        {hasNextPage && (
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+          >
+            {isFetchingNextPage ? "Loading..." : "Load more"}
+          </Button>
+        )}
+      </div>
+      {myRank && !isMyRowLoaded && (
+        <div className="mt-6">
+          <h4 className="font-medium text-sm mb-2">Your position</h4>
+          {renderTable([...myRank.above, myRank.entry, ...myRank.below])}
+        </div>
+      )}
+    </>
+  );
 };
 
 export default Leaderboard;
@@ -0,0 +1,289 @@
+import React from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  MAX_WEBHOOKS,
+  WEBHOOK_EVENTS,
+  WebhookDeliveryStatus,
+  WebhookDeliveryView,
+  WebhookEvent,
+  WebhookView,
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { formatDistanceToNow } from "date-fns";
+import { Copy, Loader2, Trash2, Webhook as WebhookIcon } from "lucide-react";
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  "quiz.created": "Quiz created",
+  "attempt.completed": "Attempt completed",
+  "quiz.expired": "Quiz expired",
+};
+
+const DELIVERY_STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+  succeeded: "bg-green-100 text-green-800 hover:bg-green-100",
+  failed: "bg-red-100 text-red-800 hover:bg-red-100",
+};
+
+// Turns an apiRequest error ("<status>: <body>") into the server's message
+function getApiErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+}
+
+interface WebhooksPanelProps {
+  // Path of the owner's webhook routes, e.g. `/api/quizzes/1/webhooks`
+  basePath: string;
+  // Headers that authorize the owner, e.g. the dashboard token
+  headers?: Record<string, string>;
+  description: string;
+  // Events the owner can subscribe to; a quiz's own webhooks are registered after quiz.created has happened
+  events?: readonly WebhookEvent[];
+}
+
+/**
+ * Registers and removes webhooks, and shows the log of recent deliveries
+ * Used on the creator dashboard (one quiz) and on the admin page (every quiz).
+ */
+const WebhooksPanel: React.FC<WebhooksPanelProps> = ({ basePath, headers = {}, description, events = WEBHOOK_EVENTS }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [url, setUrl] = React.useState("");
+  const [selectedEvents, setSelectedEvents] = React.useState<WebhookEvent[]>([...events]);
+
+  const { data: webhooks = [], isLoading } = useQuery<WebhookView[]>({
+    queryKey: [basePath],
+    queryFn: async () => {
+      const response = await apiRequest("GET", basePath, undefined, headers);
+      return response.json();
+    },
+  });
+
+  // Retries happen in the background, so the log keeps itself up to date
+  const { data: deliveries = [] } = useQuery<WebhookDeliveryView[]>({
+    queryKey: [basePath, "deliveries"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `${basePath}/deliveries`, undefined, headers);
+      return response.json();
+    },
+    refetchInterval: 15000, // Every 15 seconds
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", basePath, { url, events: selectedEvents }, headers);
+      return response.json() as Promise<WebhookView>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [basePath] });
+      setUrl("");
+      toast({
+        title: "Webhook added",
+        description: "Copy its signing secret to check that deliveries come from QzonMe.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not add webhook",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (webhookId: number) => apiRequest("DELETE", `${basePath}/${webhookId}`, undefined, headers),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [basePath] });
+      toast({ title: "Webhook removed" });
+    },
+    onError: () => {
+      toast({
+        title: "Could not remove webhook",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setSelectedEvents((current) => checked ? [...current, event] : current.filter((e) => e !== event));
+  };
+
+  const copySecret = async (secret: string) => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      toast({ title: "Secret copied" });
+    } catch {
+      toast({ title: "Could not copy the secret", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <WebhookIcon className="h-5 w-5" />
+          Webhooks
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : webhooks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No webhooks yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {webhooks.map((webhook) => (
+              <div key={webhook.id} className="border rounded-md p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="font-mono text-sm break-all">{webhook.url}</div>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700 shrink-0">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Remove this webhook?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          No new events will be sent to {webhook.url}. Deliveries already queued are still attempted.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => deleteMutation.mutate(webhook.id)}>
+                          Remove
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {webhook.events.map((event) => (
+                    <Badge key={event} variant="secondary">{EVENT_LABELS[event]}</Badge>
+                  ))}
+                </div>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span>Signing secret:</span>
+                  <code className="bg-muted px-1 rounded">{webhook.secret.slice(0, 12)}…</code>
+                  <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => copySecret(webhook.secret)}>
+                    <Copy className="h-3 w-3 mr-1" />
+                    Copy
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {webhooks.length < MAX_WEBHOOKS && (
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate();
+            }}
+          >
+            <Input
+              type="url"
+              placeholder="https://example.com/qzonme-webhook"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              required
+            />
+            <div className="flex flex-wrap gap-4">
+              {events.map((event) => (
+                <label key={event} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={selectedEvents.includes(event)}
+                    onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                  />
+                  {EVENT_LABELS[event]}
+                </label>
+              ))}
+            </div>
+            <Button type="submit" size="sm" disabled={createMutation.isPending || !url || selectedEvents.length === 0}>
+              {createMutation.isPending ? "Adding..." : "Add Webhook"}
+            </Button>
+          </form>
+        )}
+
+        <div>
+          <h3 className="text-sm font-semibold mb-2">Recent deliveries</h3>
+          {deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing has been sent yet.</p>
+          ) : (
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Last result</TableHead>
+                    <TableHead>Sent</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveries.map((delivery) => (
+                    <TableRow key={delivery.id}>
+                      <TableCell>
+                        <div>{EVENT_LABELS[delivery.event]}</div>
+                        <div className="text-xs text-muted-foreground break-all">
+                          {delivery.url}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={DELIVERY_STATUS_STYLES[delivery.status]}>{delivery.status}</Badge>
+                      </TableCell>
+                      <TableCell>{delivery.attempts}</TableCell>
+                      <TableCell className="text-xs">
+                        {delivery.error ?? (delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : "—")}
+                        {delivery.status === "pending" && delivery.nextAttemptAt && delivery.attempts > 0 && (
+                          <div className="text-muted-foreground">
+                            Retrying {formatDistanceToNow(new Date(delivery.nextAttemptAt), { addSuffix: true })}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs whitespace-nowrap">
+                        {formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WebhooksPanel;
@@ -0,0 +1,140 @@
+import React from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { ATTEMPT_SORTS, AttemptSort } from "@shared/schema";
+import { formatPercentage } from "@/lib/utils";
+import { ATTEMPT_SORT_LABELS, fetchAttemptsPage, formatDuration } from "@/lib/quizUtils";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2 } from "lucide-react";
+
+interface AttemptsTableProps {
+  quizId: number;
+  dashboardToken: string;
+}
+
+/**
+ * Every attempt of a quiz, repeat attempts included, as listed on the creator dashboard
+ * Loads one page at a time in the chosen order; further rows are fetched on demand.
+ * The dashboard refetches the loaded pages whenever its live stream reports a new attempt.
+ */
+const AttemptsTable: React.FC<AttemptsTableProps> = ({ quizId, dashboardToken }) => {
+  const [sort, setSort] = React.useState<AttemptSort>("score");
+
+  const {
+    data,
+    isLoading,
+    isError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: [`/api/quizzes/${quizId}/attempts`, "page", sort],
+    queryFn: ({ pageParam }) => fetchAttemptsPage(quizId, dashboardToken, sort, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const attempts = data?.pages.flatMap(page => page.data) ?? [];
+  const total = data?.pages[0]?.total ?? 0;
+  const columnCount = sort === "fastest" ? 5 : 4;
+
+  return (
+    <>
+      <Tabs value={sort} onValueChange={(value) => setSort(value as AttemptSort)} className="mb-3">
+        <TabsList>
+          {ATTEMPT_SORTS.map(option => (
+            <TabsTrigger key={option} value={option}>
+              {ATTEMPT_SORT_LABELS[option]}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+      <div className="overflow-hidden rounded-lg border border-gray-200">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {sort === "newest" ? "#" : "Rank"}
+              </th>
+              <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Name
+              </th>
+              <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Score
+              </th>
+              {sort === "fastest" && (
+                <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Time
+                </th>
+              )}
+              <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Date
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {isLoading ? (
+              <tr>
+                <td colSpan={columnCount} className="px-4 py-6 text-center">
+                  <Loader2 className="h-5 w-5 animate-spin mx-auto text-primary" />
+                </td>
+              </tr>
+            ) : isError ? (
+              <tr>
+                <td colSpan={columnCount} className="px-4 py-3 text-center text-sm text-gray-500">
+                  Attempts could not be loaded. Please refresh.
+                </td>
+              </tr>
+            ) : attempts.length > 0 ? (
+              attempts.map((attempt, index) => (
+                <tr key={attempt.id}>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {index + 1}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700">
+                    {attempt.userName}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-primary font-medium">
+                    {formatPercentage(attempt.score, attempt.totalQuestions)}
+                  </td>
+                  {sort === "fastest" && (
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-500">
+                      {formatDuration(attempt.durationMs)}
+                    </td>
+                  )}
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-500">
+                    {new Date(attempt.completedAt).toLocaleDateString()}
+                  </td>
+                </tr>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={columnCount} className="px-4 py-3 text-center text-sm text-gray-500">
+                  {sort === "fastest" ? "No timed attempts yet" : "No attempts yet"}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {attempts.length > 0 && (
+        <div className="mt-3 flex items-center justify-between text-sm text-muted-foreground">
+          <span>Showing {attempts.length} of {total}</span>
+          {hasNextPage && (
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+            >
+              {isFetchingNextPage ? "Loading..." : "Load more"}
+            </Button>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default AttemptsTable;
@@ -1,145 +1,143 @@
 import React from "react";
 import { useLocation } from "wouter";
-import { useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Question, QuizAttempt } from "@shared/schema";
-import { formatPercentage } from "@/lib/utils";
+import { AttemptExportFormat, CreatorQuestion, QuizAttemptStats } from "@shared/schema";
+import { apiRequest, dashboardAuthHeaders, downloadApiFile } from "@/lib/queryClient";
 import Layout from "../common/Layout";
-import { Share, RefreshCw } from "lucide-react";
+import AttemptsTable from "./AttemptsTable";
+import { LiveUpdateStatus } from "@/lib/liveUpdates";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Share, Pencil, Trash2, Download, Check } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
 interface DashboardProps {
   quizId: number;
   accessCode: string;
-  questions: Question[];
-  attempts: QuizAttempt[];
+  dashboardToken: string;
+  questions: CreatorQuestion[];
+  stats: QuizAttemptStats;
+  // State of the dashboard's live stream of attempts
+  liveStatus: LiveUpdateStatus;
+  onEditQuiz: () => void;
 }
 
 const Dashboard: React.FC<DashboardProps> = ({ 
   quizId, 
   accessCode, 
+  dashboardToken,
   questions, 
-  attempts 
+  stats,
+  liveStatus,
+  onEditQuiz
 }) => {
   const [, navigate] = useLocation();
   const queryClient = useQueryClient();
   const { toast } = useToast();
-  const [isRefreshing, setIsRefreshing] = React.useState(false);
+  const { totalAttempts, averagePercentage: averageScore, topPercentage: topScore } = stats;
   
-  const handleRefresh = async () => {
-    setIsRefreshing(true);
-    try {
-      // A more gentle approach - fetch fresh data without page reload
-      console.log("Dashboard: User clicked manual refresh");
-      
+  const handleShare = () => {
+    navigate(`/share/${quizId}`);
+  };
+  
+  // Spreadsheet of the leaderboard with every taker's answers
+  const exportAttemptsMutation = useMutation({
+    mutationFn: (format: AttemptExportFormat) =>
+      downloadApiFile(`/api/quizzes/${quizId}/attempts/export?format=${format}`, `qzonme-attempts-${quizId}.${format}`, dashboardAuthHeaders(dashboardToken)),
+    onError: () => {
       toast({
-        title: "Refreshing data",
-        description: "Loading the latest attempts from server...",
-        variant: "default"
+        title: "Could not export attempts",
+        description: "Please try again.",
+        variant: "destructive",
       });
-      
-      // Add cache busting to fetch call
-      const timestamp = Date.now();
-      
-      // Fetch fresh data directly
-      try {
-        const response = await fetch(`/api/quizzes/${quizId}/attempts?nocache=${timestamp}`, {
-          method: 'GET',
-          headers: {
-            'Cache-Control': 'no-cache, no-store, must-revalidate',
-            'Pragma': 'no-cache',
-            'Expires': '0'
-          }
-        });
-        
-        if (!response.ok) throw new Error('Failed to fetch attempts');
-        
-        // Parse the response
-        const data = await response.json();
-        const freshAttempts = data.data || data;
-        
-        console.log(`Manual refresh fetched ${freshAttempts.length} attempts`);
-        
-        // Update the data locally
-        queryClient.setQueryData([`/api/quizzes/${quizId}/attempts`], freshAttempts);
-        
-        toast({
-          title: "Dashboard refreshed",
-          description: `Latest data loaded: ${freshAttempts.length} attempts`,
-          variant: "default"
-        });
-        
-      } catch (error) {
-        console.error("Error refreshing data:", error);
-        throw error;  // Re-throw to be caught by outer handler
+    },
+  });
+  
+  // Accepting a near miss adds it to the question's accepted answers; the server re-grades the attempts
+  const acceptAnswerMutation = useMutation({
+    mutationFn: async ({ questionId, answer }: { questionId: number; answer: string }) => {
+      const response = await apiRequest("POST", `/api/quizzes/${quizId}/questions/${questionId}/accepted-answers`, { answer }, dashboardAuthHeaders(dashboardToken));
+      return response.json() as Promise<{ regradedAttempts: number }>;
+    },
+    onSuccess: async ({ regradedAttempts }, { answer }) => {
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: [`/api/quizzes/${quizId}/questions/full`] }),
+        queryClient.invalidateQueries({ queryKey: [`/api/quizzes/${quizId}/attempts`] }),
+      ]);
+      toast({
+        title: "Answer accepted",
+        description: regradedAttempts > 0
+          ? `"${answer}" now counts as correct. ${regradedAttempts} ${regradedAttempts === 1 ? "attempt was" : "attempts were"} re-graded.`
+          : `"${answer}" now counts as correct.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Could not accept the answer",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Deleting removes the quiz, its questions, attempts and images for good
+  const deleteQuizMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/quizzes/${quizId}`, undefined, dashboardAuthHeaders(dashboardToken));
+    },
+    onSuccess: () => {
+      // Forget the deleted quiz so the share page no longer offers it
+      if (sessionStorage.getItem("currentQuizId") === String(quizId)) {
+        sessionStorage.removeItem("currentQuizId");
+        sessionStorage.removeItem("currentQuizAccessCode");
+        sessionStorage.removeItem("currentQuizUrlSlug");
+        sessionStorage.removeItem("currentQuizDashboardToken");
       }
+      queryClient.removeQueries({ queryKey: [`/api/quizzes/${quizId}/attempts`] });
       
-    } catch (error) {
-      console.error("Dashboard refresh error:", error);
       toast({
-        title: "Refresh failed",
-        description: "Could not load the latest data. Please try again.",
+        title: "Quiz deleted",
+        description: "Your quiz and all of its answers have been removed.",
+      });
+      navigate("/");
+    },
+    onError: (error) => {
+      console.error("Error deleting quiz:", error);
+      toast({
+        title: "Delete failed",
+        description: "Could not delete your quiz. Please try again.",
         variant: "destructive"
       });
-    } finally {
-      setIsRefreshing(false);
     }
-  };
-  
-  const totalAttempts = attempts.length;
-  const averageScore = attempts.length > 0
-    ? Math.round(attempts.reduce((sum, attempt) => 
-        sum + (attempt.score / attempt.totalQuestions) * 100, 0
-      ) / attempts.length)
-    : 0;
-  
-  const topScore = attempts.length > 0
-    ? Math.round(Math.max(...attempts.map(a => (a.score / a.totalQuestions) * 100)))
-    : 0;
-  
-  const handleShare = () => {
-    navigate(`/share/${quizId}`);
-  };
+  });
   
-  // Calculate question performance
+  // Match the per-question results to the questions they belong to
   const questionPerformance = questions.map(question => {
-    // Use type assertion to handle the answers property
-    const allAnswersForQuestion = attempts.flatMap(attempt => {
-      const answers = attempt.answers as { questionId: number; isCorrect: boolean; userAnswer: any }[];
-      return answers.filter(a => a.questionId === question.id);
-    });
-    
-    const correctAnswersCount = allAnswersForQuestion.filter(a => a.isCorrect).length;
-    const correctPercentage = allAnswersForQuestion.length > 0
-      ? Math.round((correctAnswersCount / allAnswersForQuestion.length) * 100)
+    const questionStats = stats.questions.find(q => q.questionId === question.id);
+    const answerCount = questionStats?.answerCount ?? 0;
+    const correctPercentage = answerCount > 0
+      ? Math.round(((questionStats?.correctCount ?? 0) / answerCount) * 100)
       : 0;
-    
-    // Find most common answer
-    const answerCounts = new Map<string, number>();
-    allAnswersForQuestion.forEach(a => {
-      const answerStr = String(a.userAnswer);
-      answerCounts.set(answerStr, (answerCounts.get(answerStr) || 0) + 1);
-    });
-    
-    let mostCommonAnswer = "";
-    let maxCount = 0;
-    
-    answerCounts.forEach((count, answer) => {
-      if (count > maxCount) {
-        mostCommonAnswer = answer;
-        maxCount = count;
-      }
-    });
-    
-    const isCommonAnswerCorrect = 
-      (question.correctAnswers as string[]).includes(mostCommonAnswer);
+    const mostCommonAnswer = questionStats?.mostCommonAnswer ?? "";
+    const isCommonAnswerCorrect = questionStats?.isMostCommonAnswerCorrect ?? false;
     
     return {
       question,
       correctPercentage,
       mostCommonAnswer,
-      isCommonAnswerCorrect
+      isCommonAnswerCorrect,
+      nearMisses: questionStats?.nearMisses ?? []
     };
   });
   
@@ -154,7 +152,16 @@ const Dashboard: React.FC<DashboardProps> = ({
                 See how your friends are doing
               </p>
             </div>
-            <div className="mt-4 md:mt-0">
+            <div className="mt-4 md:mt-0 flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                className="flex items-center"
+                onClick={onEditQuiz}
+              >
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit Quiz
+              </Button>
               <Button 
                 type="button" 
                 className="btn-primary flex items-center"
@@ -182,79 +189,52 @@ const Dashboard: React.FC<DashboardProps> = ({
             </div>
           </div>
           
-          {/* Full Leaderboard */}
+          {/* Every attempt, repeat attempts included */}
           <div className="mb-6">
             <div className="flex justify-between items-center mb-3">
-              <h3 className="font-poppins font-semibold text-lg">Leaderboard</h3>
-              <Button 
-                type="button" 
-                size="sm"
-                variant="outline" 
-                className="flex items-center h-8" 
-                onClick={handleRefresh}
-                disabled={isRefreshing}
-              >
-                <RefreshCw className={`mr-2 h-3.5 w-3.5 ${isRefreshing ? 'animate-spin' : ''}`} />
-                {isRefreshing ? 'Refreshing...' : 'Refresh Data'}
-              </Button>
-            </div>
-            <div className="overflow-hidden rounded-lg border border-gray-200">
-              <table className="min-w-full divide-y divide-gray-200">
-                <thead className="bg-gray-50">
-                  <tr>
-                    <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Rank
-                    </th>
-                    <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Name
-                    </th>
-                    <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Score
-                    </th>
-                    <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Date
-                    </th>
-                  </tr>
-                </thead>
-                <tbody className="bg-white divide-y divide-gray-200">
-                  {attempts.length > 0 ? (
-                    attempts
-                      .sort((a, b) => 
-                        (b.score / b.totalQuestions) - (a.score / a.totalQuestions)
-                      )
-                      .map((attempt, index) => (
-                        <tr key={attempt.id}>
-                          <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
-                            {index + 1}
-                          </td>
-                          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700">
-                            {attempt.userName}
-                          </td>
-                          <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-primary font-medium">
-                            {formatPercentage(attempt.score, attempt.totalQuestions)}
-                          </td>
-                          <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-500">
-                            {new Date(attempt.completedAt).toLocaleDateString()}
-                          </td>
-                        </tr>
-                      ))
-                  ) : (
-                    <tr>
-                      <td colSpan={4} className="px-4 py-3 text-center text-sm text-gray-500">
-                        No attempts yet
-                      </td>
-                    </tr>
-                  )}
-                </tbody>
-              </table>
+              <h3 className="font-poppins font-semibold text-lg">All Attempts</h3>
+              {liveStatus === "live" ? (
+                <span className="flex items-center text-xs text-green-600">
+                  <span className="mr-1.5 h-2 w-2 rounded-full bg-green-500" />
+                  Live
+                </span>
+              ) : (
+                <span className="text-xs text-muted-foreground">
+                  {liveStatus === "closed" ? "Live updates off" : "Connecting..."}
+                </span>
+              )}
             </div>
+            <AttemptsTable quizId={quizId} dashboardToken={dashboardToken} />
+            {totalAttempts > 0 && (
+              <div className="flex flex-wrap items-center gap-2 mt-3">
+                <span className="text-sm text-muted-foreground">One row per person, with each answer:</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => exportAttemptsMutation.mutate("csv")}
+                  disabled={exportAttemptsMutation.isPending}
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  Export CSV
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => exportAttemptsMutation.mutate("xlsx")}
+                  disabled={exportAttemptsMutation.isPending}
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  Export Excel
+                </Button>
+              </div>
+            )}
           </div>
           
           {/* Question Performance */}
           <div>
             <h3 className="font-poppins font-semibold text-lg mb-3">Question Performance</h3>
             <div className="space-y-4">
-              {questionPerformance.map(({ question, correctPercentage, mostCommonAnswer, isCommonAnswerCorrect }) => (
+              {questionPerformance.map(({ question, correctPercentage, mostCommonAnswer, isCommonAnswerCorrect, nearMisses }) => (
                 <div key={question.id} className="p-4 rounded-lg border border-gray-200">
                   <div className="flex justify-between items-center mb-2">
                     <span className="font-medium">{question.text}</span>
@@ -268,10 +248,75 @@ const Dashboard: React.FC<DashboardProps> = ({
                     Most common answer: {mostCommonAnswer} 
                     {mostCommonAnswer && !isCommonAnswerCorrect && " (incorrect)"}
                   </div>
+                  {nearMisses.length > 0 && (
+                    <div className="mt-3">
+                      <div className="text-sm font-medium text-gray-700 mb-1">Near misses</div>
+                      <ul className="space-y-1">
+                        {nearMisses.map((nearMiss) => (
+                          <li key={nearMiss.answer} className="flex justify-between items-center gap-2 text-sm text-gray-600">
+                            <span>
+                              "{nearMiss.answer}" ({nearMiss.count}) - close to "{nearMiss.closestAnswer}"
+                            </span>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => acceptAnswerMutation.mutate({ questionId: question.id, answer: nearMiss.answer })}
+                              disabled={acceptAnswerMutation.isPending}
+                            >
+                              <Check className="h-4 w-4 mr-1" />
+                              Accept
+                            </Button>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
           </div>
+          
+          {/* Delete Quiz */}
+          <div className="mt-8 pt-6 border-t border-gray-200 flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+            <div>
+              <h3 className="font-poppins font-semibold text-lg">Delete Quiz</h3>
+              <p className="text-sm text-muted-foreground">
+                Take your quiz down now instead of waiting for it to expire
+              </p>
+            </div>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  type="button"
+                  variant="destructive"
+                  className="flex items-center"
+                  disabled={deleteQuizMutation.isPending}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  {deleteQuizMutation.isPending ? "Deleting..." : "Delete Quiz"}
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete this quiz?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This permanently removes the quiz, all of its questions and images, and every answer
+                    your friends submitted. The quiz link and this dashboard will stop working. This cannot be undone.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Keep Quiz</AlertDialogCancel>
+                  <AlertDialogAction
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    onClick={() => deleteQuizMutation.mutate()}
+                  >
+                    Delete Quiz
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
         </CardContent>
       </Card>
     </Layout>
@@ -2,20 +2,27 @@ import React from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 
 interface MultipleChoiceEditorProps {
   options: string[];
   setOptions: React.Dispatch<React.SetStateAction<string[]>>;
-  correctOption: number;
-  setCorrectOption: React.Dispatch<React.SetStateAction<number>>;
+  // Indexes of the correct options; a single one unless `selectAll` is set
+  correctOptions: number[];
+  setCorrectOptions: React.Dispatch<React.SetStateAction<number[]>>;
+  // Select all that apply: any number of options can be marked correct, with checkboxes
+  selectAll?: boolean;
 }
 
+const optionInputClassName = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50";
+
 const MultipleChoiceEditor: React.FC<MultipleChoiceEditorProps> = ({
   options,
   setOptions,
-  correctOption,
-  setCorrectOption,
+  correctOptions,
+  setCorrectOptions,
+  selectAll = false,
 }) => {
   // Simplified direct handler to avoid any focus issues
   const handleOptionChange = (index: number, value: string) => {
@@ -30,30 +37,58 @@ const MultipleChoiceEditor: React.FC<MultipleChoiceEditorProps> = ({
     setOptions([...options, ""]);
   };
 
+  const handleCorrectToggle = (index: number, checked: boolean) => {
+    setCorrectOptions(current => checked
+      ? [...current.filter(i => i !== index), index].sort((a, b) => a - b)
+      : current.filter(i => i !== index));
+  };
+
+  const renderOptionInput = (option: string, index: number) => (
+    <input
+      type="text"
+      className={optionInputClassName}
+      placeholder={`Option ${index + 1}`}
+      value={option}
+      onChange={(e) => handleOptionChange(index, e.target.value)}
+    />
+  );
+
   return (
     <div id="multiple-choice-options">
       <div className="mb-4">
-        <Label className="block text-sm font-medium mb-1">Options</Label>
-        <RadioGroup
-          value={correctOption.toString()}
-          onValueChange={(val) => setCorrectOption(parseInt(val))}
-          className="space-y-2"
-        >
-          {options.map((option, index) => (
-            <div key={index} className="flex items-center space-x-2">
-              <RadioGroupItem value={index.toString()} id={`option-${index}`} />
-              <input
-                type="text"
-                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                placeholder={`Option ${index + 1}`}
-                value={option}
-                onChange={(e) => handleOptionChange(index, e.target.value)}
-              />
-            </div>
-          ))}
-        </RadioGroup>
+        <Label className="block text-sm font-medium mb-1">
+          {selectAll ? "Options (tick every correct one)" : "Options"}
+        </Label>
+        {selectAll ? (
+          <div className="space-y-2">
+            {options.map((option, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`option-${index}`}
+                  checked={correctOptions.includes(index)}
+                  onCheckedChange={(checked) => handleCorrectToggle(index, checked === true)}
+                  aria-label={`Option ${index + 1} is correct`}
+                />
+                {renderOptionInput(option, index)}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <RadioGroup
+            value={String(correctOptions[0] ?? -1)}
+            onValueChange={(val) => setCorrectOptions([parseInt(val)])}
+            className="space-y-2"
+          >
+            {options.map((option, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <RadioGroupItem value={index.toString()} id={`option-${index}`} />
+                {renderOptionInput(option, index)}
+              </div>
+            ))}
+          </RadioGroup>
+        )}
       </div>
-      
+
       {options.length < 8 && (
         <Button
           type="button"
@@ -1,19 +1,31 @@
 import React from "react";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { AnswerStrictness } from "@shared/schema";
 
 interface OpenEndedEditorProps {
   acceptedAnswers: string;
   setAcceptedAnswers: React.Dispatch<React.SetStateAction<string>>;
   hint: string;
   setHint: React.Dispatch<React.SetStateAction<string>>;
+  strictness: AnswerStrictness;
+  setStrictness: React.Dispatch<React.SetStateAction<AnswerStrictness>>;
 }
 
+const STRICTNESS_DESCRIPTIONS: Record<AnswerStrictness, string> = {
+  exact: "Only capitals, punctuation, accents and words like \"the\" are ignored.",
+  normal: "Also forgives a typo or two in longer answers.",
+  lenient: "Forgives most misspellings. Numbers still have to be right.",
+};
+
 const OpenEndedEditor: React.FC<OpenEndedEditorProps> = ({
   acceptedAnswers,
   setAcceptedAnswers,
   hint,
   setHint,
+  strictness,
+  setStrictness,
 }) => {
   return (
     <div id="open-ended-options">
@@ -42,6 +54,23 @@ const OpenEndedEditor: React.FC<OpenEndedEditorProps> = ({
           onChange={(e) => setHint(e.target.value)}
         />
       </div>
+
+      <div className="mb-4">
+        <Label className="block text-sm font-medium mb-1">
+          Answer Matching
+        </Label>
+        <Select value={strictness} onValueChange={(val) => setStrictness(val as AnswerStrictness)}>
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="exact">Exact</SelectItem>
+            <SelectItem value="normal">Allow small typos</SelectItem>
+            <SelectItem value="lenient">Lenient</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground mt-1">{STRICTNESS_DESCRIPTIONS[strictness]}</p>
+      </div>
     </div>
   );
 };
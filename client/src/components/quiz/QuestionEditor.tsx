@@ -0,0 +1,376 @@
+import React, { useState, useRef } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { X, Image, Loader2 } from 'lucide-react';
+import axios from 'axios';
+
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DEFAULT_ANSWER_STRICTNESS,
+  DEFAULT_SELECT_ALL_SCORING,
+  type AnswerStrictness,
+  type QuestionType,
+  type SelectAllScoring,
+} from '@shared/schema';
+
+import MultipleChoiceEditor from './MultipleChoiceEditor';
+import OpenEndedEditor from './OpenEndedEditor';
+import { formatOpenEndedAnswers } from '@/lib/quizUtils';
+import { dashboardAuthHeaders } from '@/lib/queryClient';
+
+// A question as edited in the browser, before it is sent to the server
+export interface QuestionDraft {
+  text: string;
+  imageUrl?: string;
+  // Clue shown to takers of an open-ended question; other types keep it as is
+  hint?: string;
+  type: QuestionType;
+  // How a select-all question is scored; ignored for the other types
+  scoring?: SelectAllScoring;
+  // How closely typed answers must match; only for open-ended questions
+  strictness?: AnswerStrictness;
+  // Empty for an open-ended question, which is answered by its accepted answers instead
+  options: Array<{
+    text: string;
+    isCorrect: boolean;
+  }>;
+  acceptedAnswers?: string[];
+}
+
+interface QuestionEditorProps {
+  // Quiz the uploaded images belong to, once the quiz exists, and its creator's dashboard token
+  quiz?: { id: number; dashboardToken: string };
+  // Question to pre-fill the form with; the form starts empty when omitted
+  initialQuestion?: QuestionDraft | null;
+  submitLabel: string;
+  isSubmitting?: boolean;
+  // Called with the validated question; the form is cleared once it resolves
+  onSubmit: (question: QuestionDraft) => void | Promise<void>;
+  onCancel?: () => void;
+}
+
+/**
+ * Question form shared by quiz creation and the dashboard edit mode
+ * Handles the question text, the optional image upload, the question type and the answer options.
+ */
+const QuestionEditor: React.FC<QuestionEditorProps> = ({
+  quiz,
+  initialQuestion,
+  submitLabel,
+  isSubmitting = false,
+  onSubmit,
+  onCancel,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const initialOptions = initialQuestion?.options.map(opt => opt.text) ?? [];
+  const initialCorrectOptions = initialQuestion?.options.flatMap((opt, index) => opt.isCorrect ? [index] : []) ?? [];
+
+  const [questionText, setQuestionText] = useState(initialQuestion?.text ?? '');
+  const [questionImage, setQuestionImage] = useState<File | null>(null);
+  const [questionImagePreview, setQuestionImagePreview] = useState<string | null>(initialQuestion?.imageUrl || null);
+  const [options, setOptions] = useState(initialOptions.length >= 2 ? initialOptions : [...initialOptions, '', ''].slice(0, 2));
+  const [correctOptions, setCorrectOptions] = useState<number[]>(initialCorrectOptions);
+  const [questionType, setQuestionType] = useState<QuestionType>(initialQuestion?.type ?? 'multiple-choice');
+  const [scoring, setScoring] = useState<SelectAllScoring>(initialQuestion?.scoring ?? DEFAULT_SELECT_ALL_SCORING);
+  const [acceptedAnswers, setAcceptedAnswers] = useState((initialQuestion?.acceptedAnswers ?? []).join(', '));
+  const [hint, setHint] = useState(initialQuestion?.hint ?? '');
+  const [strictness, setStrictness] = useState<AnswerStrictness>(initialQuestion?.strictness ?? DEFAULT_ANSWER_STRICTNESS);
+
+  // Image upload mutation
+  const uploadImageMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('image', file);
+      if (quiz) {
+        formData.append('quizId', String(quiz.id));
+      }
+
+      const response = await axios.post('/api/upload', formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+          ...(quiz ? dashboardAuthHeaders(quiz.dashboardToken) : {}),
+        }
+      });
+
+      return response.data.imageUrl as string;
+    }
+  });
+
+  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    // Validate file size (10MB max)
+    if (file.size > 10 * 1024 * 1024) {
+      toast.error('Image size must be less than 10MB');
+      return;
+    }
+
+    setQuestionImage(file);
+
+    // Create preview
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      setQuestionImagePreview(reader.result as string);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleRemoveImage = () => {
+    setQuestionImage(null);
+    setQuestionImagePreview(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const validateQuestion = (): boolean => {
+    // Validate question text
+    if (!questionText.trim()) {
+      toast.error('Please enter a question');
+      return false;
+    }
+
+    if (questionType === 'open-ended') {
+      if (formatOpenEndedAnswers(acceptedAnswers).length === 0) {
+        toast.error('Please add at least one accepted answer');
+        return false;
+      }
+      return true;
+    }
+
+    // Validate options
+    const filledOptions = options.filter(opt => opt.trim() !== '');
+    if (filledOptions.length < 2) {
+      toast.error('Please add at least 2 options');
+      return false;
+    }
+
+    // Validate correct answer selection
+    const correctFilled = correctOptions.filter(index => options[index]?.trim());
+    if (correctFilled.length === 0) {
+      toast.error(questionType === 'select-all' ? 'Please tick at least one correct answer' : 'Please select a correct answer');
+      return false;
+    }
+
+    return true;
+  };
+
+  const resetForm = () => {
+    setQuestionText('');
+    setQuestionImage(null);
+    setQuestionImagePreview(null);
+    setOptions(['', '']);
+    setCorrectOptions([]);
+    setQuestionType('multiple-choice');
+    setScoring(DEFAULT_SELECT_ALL_SCORING);
+    setAcceptedAnswers('');
+    setHint('');
+    setStrictness(DEFAULT_ANSWER_STRICTNESS);
+  };
+
+  const handleTypeChange = (type: QuestionType) => {
+    setQuestionType(type);
+    // A single-answer question keeps only the first of the ticked options
+    if (type === 'multiple-choice') {
+      setCorrectOptions(current => current.slice(0, 1));
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!validateQuestion()) return;
+
+    // Keep the image the question already had unless it was replaced or removed
+    let imageUrl = questionImagePreview ? initialQuestion?.imageUrl || '' : '';
+
+    // Upload image if present
+    if (questionImage) {
+      try {
+        imageUrl = await uploadImageMutation.mutateAsync(questionImage);
+      } catch (error) {
+        toast.error('Failed to upload image. Please try again.');
+        return;
+      }
+    }
+
+    const isOpenEnded = questionType === 'open-ended';
+
+    try {
+      await onSubmit({
+        text: questionText,
+        imageUrl: imageUrl || undefined,
+        hint: isOpenEnded ? hint.trim() || undefined : initialQuestion?.hint,
+        type: questionType,
+        scoring: questionType === 'select-all' ? scoring : undefined,
+        strictness: isOpenEnded ? strictness : undefined,
+        options: isOpenEnded ? [] : options.map((text, index) => ({
+          text,
+          isCorrect: correctOptions.includes(index)
+        })).filter(opt => opt.text.trim() !== ''),
+        acceptedAnswers: isOpenEnded ? formatOpenEndedAnswers(acceptedAnswers) : undefined
+      });
+    } catch (error) {
+      // The caller reports the failure; keep the form so nothing is lost
+      return;
+    }
+
+    resetForm();
+  };
+
+  const isBusy = isSubmitting || uploadImageMutation.isPending;
+
+  return (
+    <>
+      <div className="question-container">
+        <div className="mb-4">
+          <Label htmlFor="question-text" className="block text-sm font-medium mb-1">
+            Question
+          </Label>
+          <input
+            type="text"
+            id="question-text"
+            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+            placeholder="Ask something about yourself..."
+            value={questionText}
+            onChange={(e) => setQuestionText(e.target.value)}
+          />
+        </div>
+
+        {/* Image upload area */}
+        <div className="mb-6">
+          <Label className="block text-sm font-medium mb-2">
+            Question Image (Optional)
+          </Label>
+
+          {questionImagePreview ? (
+            <div className="relative w-full h-40 bg-gray-100 rounded-md overflow-hidden mb-2">
+              <img
+                src={questionImagePreview}
+                alt="Question preview"
+                className="w-full h-full object-contain"
+              />
+              <button
+                type="button"
+                onClick={handleRemoveImage}
+                className="absolute top-2 right-2 bg-red-500 text-white p-1 rounded-full"
+                aria-label="Remove image"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          ) : (
+            <div
+              className="border-2 border-dashed border-gray-300 rounded-md p-6 text-center cursor-pointer hover:border-primary transition-colors mb-2"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <div className="flex flex-col items-center">
+                <Image className="h-8 w-8 text-gray-400 mb-2" />
+                <p className="text-sm font-medium text-gray-600 mb-1">Click to upload an image</p>
+                <p className="text-xs text-gray-500">PNG, JPG or GIF (max. 10MB)</p>
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={handleImageChange}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Question type */}
+        <div className="mb-4">
+          <Label className="block text-sm font-medium mb-2">Answer Type</Label>
+          <RadioGroup
+            value={questionType}
+            onValueChange={(val) => handleTypeChange(val as QuestionType)}
+            className="flex flex-wrap gap-4"
+          >
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="multiple-choice" id="question-type-multiple-choice" />
+              <Label htmlFor="question-type-multiple-choice" className="text-sm font-normal">Single answer</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="select-all" id="question-type-select-all" />
+              <Label htmlFor="question-type-select-all" className="text-sm font-normal">Select all that apply</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="open-ended" id="question-type-open-ended" />
+              <Label htmlFor="question-type-open-ended" className="text-sm font-normal">Typed answer</Label>
+            </div>
+          </RadioGroup>
+        </div>
+
+        {questionType === 'select-all' && (
+          <div className="mb-4">
+            <Label className="block text-sm font-medium mb-1">Scoring</Label>
+            <Select value={scoring} onValueChange={(val) => setScoring(val as SelectAllScoring)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all-or-nothing">All or nothing</SelectItem>
+                <SelectItem value="partial">Partial credit</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">
+              {scoring === 'partial'
+                ? 'Each correct pick earns a share of the point, and each wrong pick takes one away.'
+                : 'The point is only earned by picking exactly the correct options.'}
+            </p>
+          </div>
+        )}
+
+        {questionType === 'open-ended' ? (
+          <OpenEndedEditor
+            acceptedAnswers={acceptedAnswers}
+            setAcceptedAnswers={setAcceptedAnswers}
+            hint={hint}
+            setHint={setHint}
+            strictness={strictness}
+            setStrictness={setStrictness}
+          />
+        ) : (
+          /* Multiple choice editor */
+          <MultipleChoiceEditor
+            options={options}
+            setOptions={setOptions}
+            correctOptions={correctOptions}
+            setCorrectOptions={setCorrectOptions}
+            selectAll={questionType === 'select-all'}
+          />
+        )}
+      </div>
+
+      <div className="flex gap-2 mt-6">
+        {onCancel && (
+          <Button type="button" variant="outline" className="flex-1" onClick={onCancel} disabled={isBusy}>
+            Cancel
+          </Button>
+        )}
+        <Button
+          type="button"
+          className="flex-1"
+          onClick={handleSubmit}
+          disabled={isBusy}
+        >
+          {isBusy ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              {uploadImageMutation.isPending ? "Uploading..." : "Saving..."}
+            </>
+          ) : (
+            submitLabel
+          )}
+        </Button>
+      </div>
+    </>
+  );
+};
+
+export default QuestionEditor;
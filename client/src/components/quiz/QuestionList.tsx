@@ -1,19 +1,23 @@
 import React from "react";
-import { Question } from "@shared/schema";
-import { Edit, Trash2, Image as ImageIcon } from "lucide-react";
+import { Edit, Trash2, Image as ImageIcon, ArrowUp, ArrowDown } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 
 interface QuestionListProps {
-  questions: Question[];
+  questions: Array<{ text: string; imageUrl?: string | null }>;
   onEdit: (index: number) => void;
   onDelete: (index: number) => void;
+  // Reordering controls are only shown when a handler is passed
+  onMove?: (index: number, direction: -1 | 1) => void;
+  disabled?: boolean;
 }
 
 const QuestionList: React.FC<QuestionListProps> = ({ 
   questions, 
   onEdit, 
-  onDelete 
+  onDelete,
+  onMove,
+  disabled = false
 }) => {
   if (questions.length === 0) {
     return (
@@ -55,10 +59,35 @@ const QuestionList: React.FC<QuestionListProps> = ({
             {question.imageUrl && (
               <ImageIcon className="h-5 w-5 text-green-500 mr-1" />
             )}
+            {onMove && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onMove(index, -1)}
+                  disabled={disabled || index === 0}
+                  className="text-muted-foreground hover:text-primary"
+                  aria-label="Move question up"
+                >
+                  <ArrowUp className="h-5 w-5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onMove(index, 1)}
+                  disabled={disabled || index === questions.length - 1}
+                  className="text-muted-foreground hover:text-primary"
+                  aria-label="Move question down"
+                >
+                  <ArrowDown className="h-5 w-5" />
+                </Button>
+              </>
+            )}
             <Button
               variant="ghost"
               size="icon"
               onClick={() => onEdit(index)}
+              disabled={disabled}
               className="text-muted-foreground hover:text-primary"
             >
               <Edit className="h-5 w-5" />
@@ -67,6 +96,7 @@ const QuestionList: React.FC<QuestionListProps> = ({
               variant="ghost"
               size="icon"
               onClick={() => onDelete(index)}
+              disabled={disabled}
               className="text-muted-foreground hover:text-primary"
             >
               <Trash2 className="h-5 w-5" />
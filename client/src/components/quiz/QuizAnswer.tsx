@@ -1,177 +1,238 @@
-import React, { useState, useEffect } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import React, { useState, useEffect, useRef } from "react";
+import { useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { Question, QuestionAnswer } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { AttemptSessionView, LockSessionAnswer, MAX_TYPED_ANSWER_LENGTH, TakerQuestion } from "@shared/schema";
 import { createAvatarPlaceholder, showAdInterstitial } from "@/lib/utils";
-import { verifyAnswer } from "@/lib/quizUtils";
-import { apiRequest } from "@/lib/queryClient";
+import {
+  attemptSessionStorageKey,
+  fetchAttemptSession,
+  getBlockingAttemptId,
+  lockSessionAnswer,
+  startAttemptSession,
+  TAKER_TOKEN_STORAGE_KEY
+} from "@/lib/quizUtils";
 import AdPlaceholder from "../common/AdPlaceholder";
 
 interface QuizAnswerProps {
   quizId: number;
   quizCreator: string;
-  questions: Question[];
-  onComplete: (answers: QuestionAnswer[], score: number) => void;
+  questions: TakerQuestion[];
+  userName: string;
+  // Token from a "continue on another device" link
+  resumeToken?: string | null;
+  isSubmitting?: boolean;
+  // Called with the session token once every question has a locked-in answer
+  onComplete: (sessionToken: string) => void;
+  // Called when there is no session to resume and the taker has not entered their name yet
+  onIdentityRequired: () => void;
+  // Called when the quiz allows a single attempt and the taker already made it
+  onAlreadyTaken: (attemptId: number) => void;
 }
 
 const QuizAnswer: React.FC<QuizAnswerProps> = ({ 
   quizId, 
   quizCreator, 
   questions, 
-  onComplete 
+  userName,
+  resumeToken,
+  isSubmitting = false,
+  onComplete,
+  onIdentityRequired,
+  onAlreadyTaken
 }) => {
-  // Generate a unique storage key for this quiz session
-  const storageKeyPrefix = `qzonme_quiz_${quizId}_`;
-  
-  // Load from localStorage if available, otherwise start fresh
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(() => {
-    try {
-      const saved = localStorage.getItem(`${storageKeyPrefix}currentIndex`);
-      return saved ? parseInt(saved, 10) : 0;
-    } catch (e) {
-      return 0;
-    }
-  });
-  
-  const [userAnswers, setUserAnswers] = useState<QuestionAnswer[]>(() => {
-    try {
-      const saved = localStorage.getItem(`${storageKeyPrefix}answers`);
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        if (Array.isArray(parsed)) {
-          console.log("Restored saved answers from local storage:", parsed.length);
-          return parsed;
-        }
-      }
-    } catch (e) {
-      console.error("Error loading saved answers:", e);
-    }
-    return [];
-  });
+  // The session token is remembered per quiz so a reload picks up where the taker left off
+  const storageKey = attemptSessionStorageKey(quizId);
   
+  const [session, setSession] = useState<AttemptSessionView | null>(null);
   const [selectedOption, setSelectedOption] = useState<string>("");
+  // Options ticked on a select-all question
+  const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
+  // Answer typed into an open-ended question
+  const [typedAnswer, setTypedAnswer] = useState<string>("");
   const [adRefreshCounter, setAdRefreshCounter] = useState(0);
   const { toast } = useToast();
+  const sessionRequested = useRef(false);
   
-  // Save to localStorage whenever answers or current index changes
+  const startSessionMutation = useMutation({
+    mutationFn: () => startAttemptSession(quizId, {
+      userName,
+      takerToken: localStorage.getItem(TAKER_TOKEN_STORAGE_KEY) || undefined
+    })
+  });
+  
+  const lockAnswerMutation = useMutation({
+    mutationFn: (answer: LockSessionAnswer) =>
+      lockSessionAnswer(session!.token, answer)
+  });
+  
+  // Resume the saved (or linked) session, or start a new one
   useEffect(() => {
-    try {
-      if (userAnswers.length > 0) {
-        localStorage.setItem(`${storageKeyPrefix}answers`, JSON.stringify(userAnswers));
-        localStorage.setItem(`${storageKeyPrefix}currentIndex`, currentQuestionIndex.toString());
-        console.log("Saved quiz progress to local storage:", {
-          currentQuestionIndex,
-          answersCount: userAnswers.length
-        });
+    if (sessionRequested.current) return;
+    sessionRequested.current = true;
+    
+    const loadSession = async () => {
+      const savedToken = resumeToken || localStorage.getItem(storageKey);
+      if (savedToken) {
+        try {
+          const saved = await fetchAttemptSession(savedToken);
+          if (saved.quizId === quizId) {
+            localStorage.setItem(storageKey, saved.token);
+            // Resuming on another device: take over the identity the session was started with
+            if (!sessionStorage.getItem("userName")) {
+              sessionStorage.setItem("userName", saved.userName);
+            }
+            setSession(saved);
+            // Already submitted: submitting again returns the existing attempt
+            if (saved.completedAt) {
+              onComplete(saved.token);
+            }
+            return;
+          }
+        } catch (error) {
+          console.error("Error resuming attempt session:", error);
+        }
+        localStorage.removeItem(storageKey);
       }
-    } catch (e) {
-      console.error("Error saving quiz progress:", e);
-    }
-  }, [userAnswers, currentQuestionIndex, storageKeyPrefix]);
+      
+      if (!userName) {
+        onIdentityRequired();
+        return;
+      }
+      
+      try {
+        const started = await startSessionMutation.mutateAsync();
+        localStorage.setItem(TAKER_TOKEN_STORAGE_KEY, started.takerToken);
+        localStorage.setItem(storageKey, started.token);
+        setSession(started);
+      } catch (error) {
+        const blockingAttemptId = getBlockingAttemptId(error);
+        if (blockingAttemptId === null) throw error;
+        onAlreadyTaken(blockingAttemptId);
+      }
+    };
+    
+    loadSession().catch(() => {
+      toast({
+        title: "Error",
+        description: "Failed to start the quiz. Please reload the page.",
+        variant: "destructive"
+      });
+    });
+  }, [quizId, resumeToken, storageKey, userName]);
+  
+  // Questions are answered in order; the first one without a locked-in answer is the current one
+  const answeredIds = new Set(session?.answers.map(answer => answer.questionId) ?? []);
+  const firstUnansweredIndex = questions.findIndex(question => !answeredIds.has(question.id));
+  const allAnswered = !!session && questions.length > 0 && firstUnansweredIndex === -1;
+  const currentQuestionIndex = allAnswered ? questions.length - 1 : Math.max(firstUnansweredIndex, 0);
   
-  const currentQuestion = questions[currentQuestionIndex];
+  const currentQuestion = session ? questions[currentQuestionIndex] : undefined;
   const isLastQuestion = currentQuestionIndex === questions.length - 1;
+  const isSelectAll = currentQuestion?.type === "select-all";
+  const isOpenEnded = currentQuestion?.type === "open-ended";
   
   // Calculate progress percentage
   const progressPercentage = ((currentQuestionIndex + 1) / questions.length) * 100;
   
-  // Calculate progress dots (maximum 5 dots)
-  const progressDots = Array(Math.min(questions.length, 5))
-    .fill(null)
-    .map((_, i) => i <= currentQuestionIndex);
-  
   const handleOptionSelect = (option: string) => {
+    if (isSelectAll) {
+      setSelectedOptions(current => current.includes(option)
+        ? current.filter(selected => selected !== option)
+        : [...current, option]);
+      return;
+    }
     setSelectedOption(option);
   };
   
-  const verifyAnswerMutation = useMutation({
-    mutationFn: async (answer: string | string[]) => {
-      const result = await verifyAnswer(currentQuestion.id, answer);
-      return result;
+  const isOptionSelected = (option: string) =>
+    isSelectAll ? selectedOptions.includes(option) : selectedOption === option;
+  
+  const resetSelection = () => {
+    setSelectedOption("");
+    setSelectedOptions([]);
+    setTypedAnswer("");
+  };
+  
+  const handleCopyResumeLink = async () => {
+    if (!session) return;
+    const resumeUrl = `${window.location.origin}${window.location.pathname}?resume=${session.token}`;
+    try {
+      await navigator.clipboard.writeText(resumeUrl);
+      toast({
+        title: "Link copied",
+        description: "Open it on any device to continue this quiz where you left off."
+      });
+    } catch (error) {
+      toast({
+        title: "Could not copy the link",
+        description: resumeUrl
+      });
     }
-  });
+  };
   
   const handleNext = async () => {
+    if (!session || !currentQuestion) return;
+    
     // Check if an answer is selected
-    if (!selectedOption) {
+    if (isOpenEnded ? !typedAnswer.trim() : isSelectAll ? selectedOptions.length === 0 : !selectedOption) {
       toast({
-        title: "Please select an answer",
-        description: "You must select an option to continue",
+        title: isOpenEnded ? "Please type an answer" : "Please select an answer",
+        description: isOpenEnded ? "You must type an answer to continue" : "You must select an option to continue",
         variant: "destructive"
       });
       return;
     }
     
+    let updatedSession: AttemptSessionView;
     try {
-      // Verify if the answer is correct
-      const isCorrect = await verifyAnswerMutation.mutateAsync(selectedOption);
-      
-      // Save the answer
-      const questionAnswer: QuestionAnswer = {
+      // Lock the answer in on the server - it cannot be changed afterwards
+      updatedSession = await lockAnswerMutation.mutateAsync({
         questionId: currentQuestion.id,
-        userAnswer: selectedOption,
-        isCorrect
-      };
-      
-      const updatedAnswers = [...userAnswers, questionAnswer];
-      setUserAnswers(updatedAnswers);
-      
-      // Reset inputs for next question
-      setSelectedOption("");
-      
-      // Increment ad refresh counter to reload ads
-      setAdRefreshCounter(prev => prev + 1);
-      
-      // Show interstitial ad every 5 questions
-      if ((currentQuestionIndex + 1) % 5 === 0) {
-        showAdInterstitial();
-      }
-      
-      // If this was the last question, complete the quiz
-      if (isLastQuestion) {
-        // Calculate the score (correct answers count)
-        const correctAnswers = updatedAnswers.filter(a => a.isCorrect).length;
-        
-        // Ensure score cannot exceed total questions
-        const validScore = Math.min(correctAnswers, questions.length);
-        
-        console.log("Quiz completed - calculated score:", {
-          correctAnswers,
-          totalQuestions: questions.length,
-          finalScore: validScore
-        });
-        
-        // Clear saved answers from localStorage when quiz is completed
-        localStorage.removeItem(`${storageKeyPrefix}answers`);
-        localStorage.removeItem(`${storageKeyPrefix}currentIndex`);
-        console.log("Cleared quiz progress from local storage after completion");
-        
-        onComplete(updatedAnswers, validScore);
-      } else {
-        // Move to next question
-        setCurrentQuestionIndex(currentQuestionIndex + 1);
-      }
+        userAnswer: isOpenEnded ? typedAnswer.trim() : isSelectAll ? selectedOptions : selectedOption
+      });
     } catch (error) {
+      // 409: the question was already answered, e.g. on another device
+      if (error instanceof Error && error.message.startsWith("409")) {
+        try {
+          setSession(await fetchAttemptSession(session.token));
+          resetSelection();
+          toast({
+            title: "Already answered",
+            description: "This question was already answered in this attempt."
+          });
+        } catch (reloadError) {
+          console.error("Error reloading attempt session:", reloadError);
+        }
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to submit answer. Please try again.",
         variant: "destructive"
       });
+      return;
     }
-  };
-  
-  const handleBack = () => {
-    if (currentQuestionIndex > 0) {
-      // Remove the last answer
-      const updatedAnswers = [...userAnswers];
-      updatedAnswers.pop();
-      setUserAnswers(updatedAnswers);
-      
-      // Go back to previous question
-      setCurrentQuestionIndex(currentQuestionIndex - 1);
+    
+    setSession(updatedSession);
+    
+    // Reset inputs for next question
+    resetSelection();
+    
+    // Increment ad refresh counter to reload ads
+    setAdRefreshCounter(prev => prev + 1);
+    
+    // Show interstitial ad every 5 questions
+    if ((currentQuestionIndex + 1) % 5 === 0) {
+      showAdInterstitial();
+    }
+    
+    // If this was the last question, submit the attempt built from the session
+    if (isLastQuestion) {
+      onComplete(updatedSession.token);
     }
   };
   
@@ -222,6 +283,28 @@ const QuizAnswer: React.FC<QuizAnswerProps> = ({
     );
   }
   
+  // Every answer is locked in, but the attempt has not been submitted yet (e.g. the submit failed)
+  if (allAnswered && !lockAnswerMutation.isPending) {
+    return (
+      <Card>
+        <CardContent className="pt-6 text-center py-8">
+          <h3 className="text-xl font-semibold mb-2">All your answers are locked in</h3>
+          <p className="text-muted-foreground mb-6">
+            Submit them to see your score and where you rank.
+          </p>
+          <Button
+            type="button"
+            className="btn-primary"
+            onClick={() => onComplete(session!.token)}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? "Submitting..." : "Submit"}
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+  
   return (
     <>
       <Card>
@@ -289,19 +372,41 @@ const QuizAnswer: React.FC<QuizAnswerProps> = ({
               )}
             </div>
             
-            {/* Multiple choice options */}
+            {/* Typed answer, with the creator's clue if there is one */}
+            {isOpenEnded && (
+              <div className="space-y-2">
+                {currentQuestion.hint && (
+                  <p className="text-sm text-muted-foreground text-center">Hint: {currentQuestion.hint}</p>
+                )}
+                <Input
+                  type="text"
+                  placeholder="Type your answer..."
+                  value={typedAnswer}
+                  maxLength={MAX_TYPED_ANSWER_LENGTH}
+                  onChange={(e) => setTypedAnswer(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && !lockAnswerMutation.isPending && !isSubmitting) handleNext();
+                  }}
+                />
+              </div>
+            )}
+            
+            {/* Multiple choice options; select-all questions take any number of them */}
+            {isSelectAll && (
+              <p className="text-sm text-muted-foreground text-center mb-3">Select all that apply</p>
+            )}
             <div className="space-y-3">
-              {(currentQuestion.options as string[]).map((option, index) => (
+              {currentQuestion.options.map((option, index) => (
                 <label 
                   key={index}
                   className={`block p-3 bg-white border ${
-                    selectedOption === option ? 'border-primary' : 'border-gray-200'
+                    isOptionSelected(option) ? 'border-primary' : 'border-gray-200'
                   } rounded-lg hover:border-primary cursor-pointer transition-colors`}
                   onClick={() => handleOptionSelect(option)}
                 >
                   <div className="flex items-center">
-                    <div className={`w-5 h-5 rounded-full ${
-                      selectedOption === option ? 'bg-primary' : 'border-2 border-gray-300'
+                    <div className={`w-5 h-5 ${isSelectAll ? 'rounded' : 'rounded-full'} ${
+                      isOptionSelected(option) ? 'bg-primary' : 'border-2 border-gray-300'
                     } mr-3 flex-shrink-0`}></div>
                     <span>{option}</span>
                   </div>
@@ -310,20 +415,23 @@ const QuizAnswer: React.FC<QuizAnswerProps> = ({
             </div>
           </div>
           
-          <div className="flex justify-between mt-6">
+          <p className="text-xs text-muted-foreground text-center mt-4">
+            Answers are final once you move on to the next question
+          </p>
+          
+          <div className="flex justify-between mt-4">
             <Button 
               type="button" 
               className="btn-secondary" 
-              onClick={handleBack}
-              disabled={currentQuestionIndex === 0 || verifyAnswerMutation.isPending}
+              onClick={handleCopyResumeLink}
             >
-              Back
+              Continue on another device
             </Button>
             <Button 
               type="button" 
               className="btn-primary" 
               onClick={handleNext}
-              disabled={verifyAnswerMutation.isPending}
+              disabled={lockAnswerMutation.isPending || isSubmitting}
             >
               {isLastQuestion ? "Submit" : "Next Question"}
             </Button>
@@ -1,47 +1,45 @@
-import React, { useState, useRef } from 'react';
+import React, { useRef, useState } from 'react';
 import { useMutation } from '@tanstack/react-query';
-import { useNavigate } from 'react-router-dom';
+import { useLocation } from 'wouter';
 import { toast } from 'sonner';
-import { X, Image, Loader2 } from 'lucide-react';
-import axios from 'axios';
+import { apiRequest } from '@/lib/queryClient';
+import { DEFAULT_QUIZ_LIFETIME_DAYS, DEFAULT_RETAKE_POLICY, RETAKE_POLICIES, type QuizWithQuestions, type RetakePolicy } from '@shared/schema';
+import { RETAKE_POLICY_LABELS } from '@/lib/quizUtils';
+import { readQuizExportFile, toQuestionDrafts } from '@/lib/quizImport';
 
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { InfoCircledIcon } from '@radix-ui/react-icons';
+import { Loader2, Upload } from 'lucide-react';
 
-import MultipleChoiceEditor from './MultipleChoiceEditor';
+import QuestionEditor, { type QuestionDraft } from './QuestionEditor';
 import QuestionList from './QuestionList';
 import AdPlaceholder from '../ads/AdPlaceholder';
 
-// Types
-interface Question {
-  id?: string;
-  text: string;
-  imageUrl?: string;
-  type: 'multiple-choice';
-  options: Array<{
-    text: string;
-    isCorrect: boolean;
-  }>;
-}
-
 const QuizCreation: React.FC<{ username: string }> = ({ username }) => {
-  const navigate = useNavigate();
-  const fileInputRef = useRef<HTMLInputElement>(null);
-  
-  // State for current question being edited
-  const [questionText, setQuestionText] = useState('');
-  const [questionImage, setQuestionImage] = useState<File | null>(null);
-  const [questionImagePreview, setQuestionImagePreview] = useState<string | null>(null);
-  const [options, setOptions] = useState(['', '']);
-  const [correctOption, setCorrectOption] = useState<number | null>(null);
+  const [, navigate] = useLocation();
   
   // State for all questions
-  const [questions, setQuestions] = useState<Question[]>([]);
+  const [questions, setQuestions] = useState<QuestionDraft[]>([]);
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
   
+  // How many days the quiz stays available after it is published
+  const [lifetimeDays, setLifetimeDays] = useState(String(DEFAULT_QUIZ_LIFETIME_DAYS));
+  
+  // Whether the same person may take the quiz again, and which score counts
+  const [retakePolicy, setRetakePolicy] = useState<RetakePolicy>(DEFAULT_RETAKE_POLICY);
+  
+  // Optional address for an email when someone finishes the quiz and a day before it expires
+  const [creatorEmail, setCreatorEmail] = useState('');
+  
+  // Quiz export file being read and its images uploaded
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  
   // For ad refresh
   const [adRefreshCounter, setAdRefreshCounter] = useState(0);
   
@@ -49,36 +47,20 @@ const QuizCreation: React.FC<{ username: string }> = ({ username }) => {
   const requiredQuestionsCount = 5;
   const questionsNeeded = Math.max(0, requiredQuestionsCount - questions.length);
 
-  // Image upload mutation
-  const uploadImageMutation = useMutation({
-    mutationFn: async (file: File) => {
-      const formData = new FormData();
-      formData.append('image', file);
-      
-      const response = await axios.post('/api/upload-image', formData, {
-        headers: {
-          'Content-Type': 'multipart/form-data'
-        }
-      });
-      
-      return response.data.imageUrl;
-    }
-  });
-  
-  // Create quiz mutation
+  // Create quiz mutation - the server creates the quiz and its questions in one go
   const createQuizMutation = useMutation({
-    mutationFn: async (quizData: { creatorName: string, questions: Question[] }) => {
-      const response = await axios.post('/api/quizzes', quizData);
-      return response.data;
+    mutationFn: async (quizData: { creatorName: string, creatorId?: number, lifetimeDays: number, retakePolicy: RetakePolicy, creatorEmail?: string, questions: QuestionDraft[] }) => {
+      const response = await apiRequest('POST', '/api/quizzes', quizData);
+      return response.json() as Promise<QuizWithQuestions>;
     },
     onSuccess: (data) => {
       toast.success('Quiz created successfully!');
-      navigate(`/share/${data.urlSlug}`, { 
-        state: { 
-          accessCode: data.accessCode,
-          dashboardToken: data.dashboardToken
-        } 
-      });
+      // Keep the identifiers around so the share page can fall back to them
+      sessionStorage.setItem('currentQuizId', String(data.id));
+      sessionStorage.setItem('currentQuizAccessCode', data.accessCode);
+      sessionStorage.setItem('currentQuizUrlSlug', data.urlSlug);
+      sessionStorage.setItem('currentQuizDashboardToken', data.dashboardToken);
+      navigate(`/share/${data.id}`);
     },
     onError: (error) => {
       console.error('Error creating quiz:', error);
@@ -86,127 +68,59 @@ const QuizCreation: React.FC<{ username: string }> = ({ username }) => {
     }
   });
 
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    
-    // Validate file size (10MB max)
-    if (file.size > 10 * 1024 * 1024) {
-      toast.error('Image size must be less than 10MB');
-      return;
-    }
-    
-    setQuestionImage(file);
-    
-    // Create preview
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      setQuestionImagePreview(reader.result as string);
-    };
-    reader.readAsDataURL(file);
-  };
-  
-  const handleRemoveImage = () => {
-    setQuestionImage(null);
-    setQuestionImagePreview(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
-  };
-  
-  const validateQuestion = (): boolean => {
-    // Validate question text
-    if (!questionText.trim()) {
-      toast.error('Please enter a question');
-      return false;
-    }
-    
-    // Validate options
-    const filledOptions = options.filter(opt => opt.trim() !== '');
-    if (filledOptions.length < 2) {
-      toast.error('Please add at least 2 options');
-      return false;
-    }
-    
-    // Validate correct answer selection
-    if (correctOption === null) {
-      toast.error('Please select a correct answer');
-      return false;
-    }
-    
-    return true;
-  };
-  
-  const handleAddQuestion = async () => {
-    if (!validateQuestion()) return;
-    
-    let imageUrl = '';
-    
-    // Upload image if present
-    if (questionImage) {
-      try {
-        imageUrl = await uploadImageMutation.mutateAsync(questionImage);
-      } catch (error) {
-        toast.error('Failed to upload image. Please try again.');
-        return;
-      }
-    }
-    
-    // Create question object
-    const newQuestion: Question = {
-      text: questionText,
-      imageUrl: imageUrl || undefined,
-      type: 'multiple-choice',
-      options: options.map((text, index) => ({
-        text,
-        isCorrect: index === correctOption
-      })).filter(opt => opt.text.trim() !== '')
-    };
-    
+  const handleSaveQuestion = (question: QuestionDraft) => {
     // Add or update question
     if (editingIndex !== null) {
       const updatedQuestions = [...questions];
-      updatedQuestions[editingIndex] = newQuestion;
+      updatedQuestions[editingIndex] = question;
       setQuestions(updatedQuestions);
       setEditingIndex(null);
       toast.success('Question updated');
     } else {
-      setQuestions([...questions, newQuestion]);
-      toast({
-        title: 'Question added',
+      setQuestions([...questions, question]);
+      toast.success('Question added', {
         description: `${questions.length + 1} of ${requiredQuestionsCount} questions added`,
       });
     }
     
-    // Reset form
-    setQuestionText('');
-    setQuestionImage(null);
-    setQuestionImagePreview(null);
-    setOptions(['', '']);
-    setCorrectOption(null);
-    
     // Refresh ad
     setAdRefreshCounter(prev => prev + 1);
   };
   
-  const handleEditQuestion = (index: number) => {
-    const question = questions[index];
-    
-    setQuestionText(question.text);
-    setQuestionImagePreview(question.imageUrl || null);
-    
-    const questionOptions = question.options.map(opt => opt.text);
-    setOptions(questionOptions.length >= 2 ? questionOptions : [...questionOptions, '']);
-    
-    const correctIndex = question.options.findIndex(opt => opt.isCorrect);
-    setCorrectOption(correctIndex >= 0 ? correctIndex : null);
+  // Adds the questions of an exported quiz after the ones already written, and takes over its retake policy
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
     
+    setIsImporting(true);
+    try {
+      const quizExport = await readQuizExportFile(file);
+      const imported = await toQuestionDrafts(quizExport);
+      setQuestions(current => [...current, ...imported]);
+      setRetakePolicy(quizExport.quiz.retakePolicy);
+      setEditingIndex(null);
+      toast.success(`Imported ${imported.length} questions`, {
+        description: 'Review them below before you finish your quiz.',
+      });
+    } catch (error) {
+      console.error('Error importing quiz:', error);
+      toast.error('Could not import this file', {
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+  
+  const handleEditQuestion = (index: number) => {
     setEditingIndex(index);
   };
   
   const handleDeleteQuestion = (index: number) => {
     const updatedQuestions = questions.filter((_, i) => i !== index);
     setQuestions(updatedQuestions);
+    setEditingIndex(null);
     toast.success('Question deleted');
   };
   
@@ -216,8 +130,19 @@ const QuizCreation: React.FC<{ username: string }> = ({ username }) => {
       return;
     }
     
+    const email = creatorEmail.trim();
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      toast.error('Please enter a valid email address, or leave it empty');
+      return;
+    }
+    
+    const userId = parseInt(sessionStorage.getItem('userId') || '0');
     const quizData = {
       creatorName: username,
+      creatorId: userId || undefined,
+      lifetimeDays: parseInt(lifetimeDays),
+      retakePolicy,
+      creatorEmail: email || undefined,
       questions: questions
     };
     
@@ -241,96 +166,40 @@ const QuizCreation: React.FC<{ username: string }> = ({ username }) => {
       {/* Question Editor Card */}
       <Card className="mb-6">
         <CardContent className="pt-6">
-          {/* Question Editor */}
-          <div className="question-container">
-            <div className="mb-4">
-              <Label htmlFor="question-text" className="block text-sm font-medium mb-1">
-                Question
-              </Label>
-              <input
-                type="text"
-                id="question-text"
-                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                placeholder="Ask something about yourself..."
-                value={questionText}
-                onChange={(e) => setQuestionText(e.target.value)}
-              />
-            </div>
-            
-            {/* Image upload area */}
-            <div className="mb-6">
-              <Label className="block text-sm font-medium mb-2">
-                Question Image (Optional)
-              </Label>
-              
-              {questionImagePreview ? (
-                <div className="relative w-full h-40 bg-gray-100 rounded-md overflow-hidden mb-2">
-                  <img 
-                    src={questionImagePreview} 
-                    alt="Question preview" 
-                    className="w-full h-full object-contain"
-                  />
-                  <button
-                    type="button"
-                    onClick={handleRemoveImage}
-                    className="absolute top-2 right-2 bg-red-500 text-white p-1 rounded-full"
-                    aria-label="Remove image"
-                  >
-                    <X className="h-4 w-4" />
-                  </button>
-                </div>
-              ) : (
-                <div 
-                  className="border-2 border-dashed border-gray-300 rounded-md p-6 text-center cursor-pointer hover:border-primary transition-colors mb-2"
-                  onClick={() => fileInputRef.current?.click()}
-                >
-                  <div className="flex flex-col items-center">
-                    <Image className="h-8 w-8 text-gray-400 mb-2" />
-                    <p className="text-sm font-medium text-gray-600 mb-1">Click to upload an image</p>
-                    <p className="text-xs text-gray-500">PNG, JPG or GIF (max. 10MB)</p>
-                  </div>
-                  <input
-                    ref={fileInputRef}
-                    type="file"
-                    accept="image/*"
-                    className="hidden"
-                    onChange={handleImageChange}
-                  />
-                </div>
-              )}
-            </div>
-            
-            {/* Multiple choice editor */}
-            <MultipleChoiceEditor
-              options={options}
-              setOptions={setOptions}
-              correctOption={correctOption}
-              setCorrectOption={setCorrectOption}
-            />
-          </div>
-          
-          <Button 
-            type="button" 
-            className="w-full mt-6" 
-            onClick={handleAddQuestion}
-            disabled={uploadImageMutation.isPending}
-          >
-            {uploadImageMutation.isPending ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Uploading...
-              </>
-            ) : (
-              questions.length > 0 ? "Add Question" : "Add First Question"
-            )}
-          </Button>
+          {/* Question Editor - remounted whenever a different question is picked for editing */}
+          <QuestionEditor
+            key={editingIndex ?? 'new'}
+            initialQuestion={editingIndex !== null ? questions[editingIndex] : null}
+            submitLabel={editingIndex !== null ? "Update Question" : questions.length > 0 ? "Add Question" : "Add First Question"}
+            onSubmit={handleSaveQuestion}
+            onCancel={editingIndex !== null ? () => setEditingIndex(null) : undefined}
+          />
         </CardContent>
       </Card>
       
       {/* Questions List */}
       <Card>
         <CardContent className="pt-6">
-          <h3 className="font-semibold text-lg mb-3">Your Questions</h3>
+          <div className="flex justify-between items-center mb-3">
+            <h3 className="font-semibold text-lg">Your Questions</h3>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => importInputRef.current?.click()}
+              disabled={isImporting}
+            >
+              {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              {isImporting ? 'Importing...' : 'Import from File'}
+            </Button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImportFile}
+            />
+          </div>
           
           <QuestionList 
             questions={questions} 
@@ -340,6 +209,58 @@ const QuizCreation: React.FC<{ username: string }> = ({ username }) => {
           
           {/* Finalize and Share section */}
           <div className="mt-6 pt-4 border-t border-gray-200">
+            <div className="flex justify-between items-center mb-4">
+              <Label htmlFor="quiz-lifetime" className="text-sm font-medium">
+                Keep quiz open for
+              </Label>
+              <Select value={lifetimeDays} onValueChange={setLifetimeDays}>
+                <SelectTrigger id="quiz-lifetime" className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[1, 3, 7, 14, 30].map((days) => (
+                    <SelectItem key={days} value={String(days)}>
+                      {days === 1 ? '1 day' : `${days} days`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex justify-between items-center mb-4">
+              <Label htmlFor="quiz-retake-policy" className="text-sm font-medium">
+                Retakes
+              </Label>
+              <Select value={retakePolicy} onValueChange={(value) => setRetakePolicy(value as RetakePolicy)}>
+                <SelectTrigger id="quiz-retake-policy" className="w-[260px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RETAKE_POLICIES.map((policy) => (
+                    <SelectItem key={policy} value={policy}>
+                      {RETAKE_POLICY_LABELS[policy]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="mb-4">
+              <div className="flex justify-between items-center">
+                <Label htmlFor="quiz-creator-email" className="text-sm font-medium">
+                  Email me updates
+                </Label>
+                <Input
+                  id="quiz-creator-email"
+                  type="email"
+                  placeholder="you@example.com (optional)"
+                  className="w-[260px]"
+                  value={creatorEmail}
+                  onChange={(e) => setCreatorEmail(e.target.value)}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                We'll email you when someone finishes your quiz and a day before it expires.
+              </p>
+            </div>
             <div className="flex justify-between items-center">
               <span className="text-sm text-muted-foreground">
                 {questions.length} of {requiredQuestionsCount} questions added
@@ -0,0 +1,201 @@
+import React from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { CreatorQuestion, MIN_QUIZ_QUESTIONS } from "@shared/schema";
+import { apiRequest, dashboardAuthHeaders } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ArrowLeft, Info } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import Layout from "../common/Layout";
+import QuestionEditor, { type QuestionDraft } from "./QuestionEditor";
+import QuestionList from "./QuestionList";
+
+interface QuizEditorProps {
+  quizId: number;
+  dashboardToken: string;
+  questions: CreatorQuestion[];
+  // Called after every saved change so the dashboard can reload questions and re-graded attempts
+  onQuestionsChanged: () => void;
+  onClose: () => void;
+}
+
+// Turns a stored question back into the shape the question editor works with
+const toQuestionDraft = (question: CreatorQuestion): QuestionDraft => ({
+  text: question.text,
+  imageUrl: question.imageUrl || undefined,
+  hint: question.hint ?? undefined,
+  type: question.type,
+  scoring: question.scoring,
+  strictness: question.strictness,
+  options: question.options.map(text => ({
+    text,
+    isCorrect: question.correctAnswers.includes(text),
+  })),
+  acceptedAnswers: question.type === "open-ended" ? question.correctAnswers : undefined,
+});
+
+// Pulls the server's message out of an apiRequest error ("400: {"message": ...}")
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.slice(error.message.indexOf(":") + 1).trim();
+  try {
+    return JSON.parse(body).message || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * Edit mode of the quiz dashboard
+ * Lets the creator update, add, delete and reorder the questions of a published quiz.
+ */
+const QuizEditor: React.FC<QuizEditorProps> = ({
+  quizId,
+  dashboardToken,
+  questions,
+  onQuestionsChanged,
+  onClose,
+}) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editingId, setEditingId] = React.useState<number | null>(null);
+
+  const editingQuestion = questions.find(question => question.id === editingId) ?? null;
+  const authHeaders = dashboardAuthHeaders(dashboardToken);
+
+  const handleSaved = async () => {
+    await queryClient.invalidateQueries({ queryKey: [`/api/quizzes/${quizId}/questions/full`] });
+    onQuestionsChanged();
+  };
+
+  const saveQuestionMutation = useMutation({
+    mutationFn: async (question: QuestionDraft) => {
+      if (editingId !== null) {
+        await apiRequest("PUT", `/api/quizzes/${quizId}/questions/${editingId}`, question, authHeaders);
+      } else {
+        await apiRequest("POST", `/api/quizzes/${quizId}/questions`, question, authHeaders);
+      }
+    },
+    onSuccess: async () => {
+      toast({
+        title: editingId !== null ? "Question updated" : "Question added",
+        description: "Existing attempts have been re-graded against your changes.",
+      });
+      setEditingId(null);
+      await handleSaved();
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not save question",
+        description: getErrorMessage(error, "Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteQuestionMutation = useMutation({
+    mutationFn: async (questionId: number) => {
+      await apiRequest("DELETE", `/api/quizzes/${quizId}/questions/${questionId}`, undefined, authHeaders);
+    },
+    onSuccess: async (_, questionId) => {
+      toast({
+        title: "Question deleted",
+        description: "Answers to this question no longer count towards existing scores.",
+      });
+      if (editingId === questionId) setEditingId(null);
+      await handleSaved();
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not delete question",
+        description: getErrorMessage(error, "Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (questionIds: number[]) => {
+      await apiRequest("PUT", `/api/quizzes/${quizId}/questions/order`, { questionIds }, authHeaders);
+    },
+    onSuccess: handleSaved,
+    onError: (error) => {
+      toast({
+        title: "Could not reorder questions",
+        description: getErrorMessage(error, "Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const questionIds = questions.map(question => question.id);
+    const target = index + direction;
+    if (target < 0 || target >= questionIds.length) return;
+
+    [questionIds[index], questionIds[target]] = [questionIds[target], questionIds[index]];
+    reorderMutation.mutate(questionIds);
+  };
+
+  const isBusy = saveQuestionMutation.isPending || deleteQuestionMutation.isPending || reorderMutation.isPending;
+
+  return (
+    <Layout>
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <div className="flex justify-between items-center mb-4">
+            <div>
+              <h2 className="text-xl font-bold font-poppins">Edit Your Quiz</h2>
+              <p className="text-sm text-muted-foreground">
+                Changes are live as soon as you save them
+              </p>
+            </div>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isBusy}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Done
+            </Button>
+          </div>
+
+          <Alert className="mb-6">
+            <Info className="h-4 w-4" />
+            <AlertTitle>Scores follow your edits</AlertTitle>
+            <AlertDescription>
+              When you change a question's correct answer, add a question or delete one, everyone who already
+              took the quiz is re-graded with the answers they gave. A quiz needs at least {MIN_QUIZ_QUESTIONS} questions.
+            </AlertDescription>
+          </Alert>
+
+          <h3 className="font-semibold text-lg mb-3">
+            {editingQuestion ? "Edit Question" : "Add a Question"}
+          </h3>
+          {/* Remounted whenever a different question is picked for editing */}
+          <QuestionEditor
+            key={editingId ?? "new"}
+            quiz={{ id: quizId, dashboardToken }}
+            initialQuestion={editingQuestion ? toQuestionDraft(editingQuestion) : null}
+            submitLabel={editingQuestion ? "Save Changes" : "Add Question"}
+            isSubmitting={saveQuestionMutation.isPending}
+            onSubmit={(question) => saveQuestionMutation.mutateAsync(question)}
+            onCancel={editingQuestion ? () => setEditingId(null) : undefined}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          <h3 className="font-semibold text-lg mb-3">Your Questions</h3>
+          <QuestionList
+            questions={questions}
+            onEdit={(index) => setEditingId(questions[index].id)}
+            onDelete={(index) => deleteQuestionMutation.mutate(questions[index].id)}
+            onMove={handleMove}
+            disabled={isBusy}
+          />
+        </CardContent>
+      </Card>
+    </Layout>
+  );
+};
+
+export default QuizEditor;
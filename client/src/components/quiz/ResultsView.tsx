@@ -2,7 +2,7 @@ import React from "react";
 import { useLocation } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Question, QuestionAnswer, QuizAttempt } from "@shared/schema";
+import { QuestionAnswer, ReviewQuestion } from "@shared/schema";
 import { formatPercentage, getRemarkByScore } from "@/lib/utils";
 import Leaderboard from "../common/Leaderboard";
 import AdPlaceholder from "../common/AdPlaceholder";
@@ -11,26 +11,29 @@ import { Check, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
 interface ResultsViewProps {
+  quizId: number;
   userName: string;
   quizCreator: string;
-  questions: Question[];
+  // The questions the attempt answered, with their answer key
+  questions: ReviewQuestion[];
   answers: QuestionAnswer[];
-  attempts: QuizAttempt[];
   score: number;
+  totalQuestions: number;
   currentAttemptId: number;  // Add the current attempt ID
 }
 
 const ResultsView: React.FC<ResultsViewProps> = ({
+  quizId,
   userName,
   quizCreator,
   questions,
   answers,
-  attempts,
   score,
+  totalQuestions,
   currentAttemptId
 }) => {
   const [, navigate] = useLocation();
-  const percentage = formatPercentage(score, questions.length);
+  const percentage = formatPercentage(score, totalQuestions);
   
   const handleCreateOwnQuiz = () => {
     navigate("/create");
@@ -75,17 +78,13 @@ const ResultsView: React.FC<ResultsViewProps> = ({
 
   // Log attempt and user data for debugging
   console.log("ResultsView:", { 
-    attemptsCount: attempts.length, 
     userName,
     score,
-    attempts: attempts.map(a => ({ id: a.id, name: a.userName, score: a.score }))
+    currentAttemptId
   });
   
-  // We don't need to manually enhance the attempts array anymore
-  // The Leaderboard component will handle this directly
-  
   const [showAnswers, setShowAnswers] = React.useState(false);
-  const personalizedRemark = getRemarkByScore(score, questions.length);
+  const personalizedRemark = getRemarkByScore(score, totalQuestions);
   const { toast } = useToast();
   
   return (
@@ -100,7 +99,7 @@ const ResultsView: React.FC<ResultsViewProps> = ({
               {personalizedRemark}
             </h2>
             <p className="text-muted-foreground">
-              You scored {score} out of {questions.length} on {quizCreator}'s quiz
+              You scored {score} out of {totalQuestions} on {quizCreator}'s quiz
             </p>
           </div>
           
@@ -144,10 +143,15 @@ const ResultsView: React.FC<ResultsViewProps> = ({
                                 : "No answer provided"}
                         </span>
                       </div>
+                      {!answer?.isCorrect && !!answer?.points && (
+                        <div className="text-sm text-amber-600 mt-1">
+                          <strong>Partial credit:</strong> {answer.points} point
+                        </div>
+                      )}
                       {!answer?.isCorrect && (
                         <div className="text-sm text-red-600 mt-1">
-                          <strong>Correct answer:</strong> {Array.isArray(question.correctAnswers) 
-                            ? question.correctAnswers.join(" or ") 
+                          <strong>{question.type === "select-all" ? "Correct answers:" : "Correct answer:"}</strong> {Array.isArray(question.correctAnswers) 
+                            ? question.correctAnswers.join(question.type === "select-all" ? ", " : " or ") 
                             : String(question.correctAnswers || "")}
                         </div>
                       )}
@@ -164,10 +168,8 @@ const ResultsView: React.FC<ResultsViewProps> = ({
           <div className="mt-8">
             <h3 className="font-poppins font-semibold text-lg mb-3">Leaderboard</h3>
             <Leaderboard 
-              attempts={attempts} 
-              currentUserName={userName}
-              currentUserScore={score}
-              currentUserTotalQuestions={questions.length}
+              quizId={quizId}
+              currentAttemptId={currentAttemptId}
             />
           </div>
           
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
@@ -8,6 +8,7 @@ import { useToast } from "@/hooks/use-toast";
 import Layout from "../common/Layout";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Input } from "@/components/ui/input";
+import { Quiz } from "@shared/schema";
 
 interface ShareQuizProps {
   accessCode: string;
@@ -21,31 +22,19 @@ const ShareQuiz: React.FC<ShareQuizProps> = ({ accessCode, quizId, urlSlug }) =>
   const [copied, setCopied] = useState(false);
   const [copiedDashboard, setCopiedDashboard] = useState(false);
   
-  // Custom query to get the quiz with dashboard token
-  // Explicitly disable cache, set immediate as high priority
-  const { data: quiz, isLoading, error } = useQuery<any>({
-    queryKey: [`/api/quizzes/${quizId}`],
+  // The dashboard token is only ever handed out when the quiz is created,
+  // so it comes from this browser session and is confirmed through the authorized lookup
+  const storedDashboardToken = sessionStorage.getItem("currentQuizDashboardToken");
+  const { data: quiz, isLoading, error } = useQuery<Quiz>({
+    queryKey: [`/api/quizzes/dashboard/${storedDashboardToken}`],
+    enabled: !!storedDashboardToken,
     staleTime: 0, // Always consider data stale
-    refetchOnMount: "always", // Always refetch when component mounts
-    refetchOnWindowFocus: true, // Refetch when window regains focus
     retry: 3, // Retry failed requests 3 times
     retryDelay: 1000, // Wait 1 second between retries
-    refetchInterval: false, // Don't automatically refetch at intervals
-    networkMode: "always" // Always try to fetch, even if network may be down
   });
   
-  // Get the dashboard token from the API response or from sessionStorage as a fallback
-  const dashboardToken = quiz?.dashboardToken || sessionStorage.getItem("currentQuizDashboardToken");
-  console.log("Dashboard token from API:", quiz?.dashboardToken);
-  console.log("Dashboard token from sessionStorage:", sessionStorage.getItem("currentQuizDashboardToken"));
-  
-  // Save the dashboard token to sessionStorage whenever we get it from the API
-  useEffect(() => {
-    if (quiz?.dashboardToken) {
-      console.log("Saving dashboard token to sessionStorage:", quiz.dashboardToken);
-      sessionStorage.setItem("currentQuizDashboardToken", quiz.dashboardToken);
-    }
-  }, [quiz?.dashboardToken]);
+  // Only offer the dashboard link when the stored token belongs to this quiz
+  const dashboardToken = quiz && quiz.id === quizId ? quiz.dashboardToken : null;
   
   // Use the custom domain for sharing
   const customDomain = "https://qzonme.com";
@@ -54,14 +43,14 @@ const ShareQuiz: React.FC<ShareQuizProps> = ({ accessCode, quizId, urlSlug }) =>
   
   const dashboardLink = dashboardToken ? `${customDomain}/dashboard/${dashboardToken}` : null;
   
-  // Format expiration date (7 days from today)
-  const expirationDate = new Date();
-  expirationDate.setDate(expirationDate.getDate() + 7);
-  const formattedExpirationDate = expirationDate.toLocaleDateString('en-US', {
-    year: 'numeric', 
-    month: 'long', 
-    day: 'numeric'
-  });
+  // Format the expiration date the creator picked, once the quiz is loaded
+  const formattedExpirationDate = quiz && quiz.id === quizId
+    ? new Date(quiz.expiresAt).toLocaleDateString('en-US', {
+        year: 'numeric', 
+        month: 'long', 
+        day: 'numeric'
+      })
+    : null;
   
   const handleCopyLink = () => {
     navigator.clipboard.writeText(shareMessage);
@@ -126,9 +115,12 @@ const ShareQuiz: React.FC<ShareQuizProps> = ({ accessCode, quizId, urlSlug }) =>
           {/* Expiration Alert */}
           <Alert variant="destructive" className="mb-6 border-amber-500 bg-amber-50 text-amber-700">
             <AlertTriangle className="h-4 w-4 text-amber-600" />
-            <AlertTitle>Your quiz will expire in 7 days</AlertTitle>
+            <AlertTitle>
+              {formattedExpirationDate ? `Your quiz will expire on ${formattedExpirationDate}` : "Your quiz will expire"}
+            </AlertTitle>
             <AlertDescription>
-              🕒 <strong>Note:</strong> This quiz and its dashboard will remain active for 7 days from today (until {formattedExpirationDate}).
+              🕒 <strong>Note:</strong> This quiz and its dashboard will remain active until the expiry date you picked
+              {formattedExpirationDate ? ` (${formattedExpirationDate})` : ""}. You can extend it from your dashboard.
               After that, the links will expire and no longer be accessible.
             </AlertDescription>
           </Alert>
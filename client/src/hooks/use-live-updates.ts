@@ -0,0 +1,37 @@
+import * as React from "react";
+import { LiveUpdateEvent } from "@shared/schema";
+import { LiveUpdateStatus, subscribeToLiveUpdates } from "@/lib/liveUpdates";
+
+interface UseLiveUpdatesOptions {
+  headers?: Record<string, string>;
+  onEvent: (event: LiveUpdateEvent) => void;
+  // Called after a dropped connection is back, to fetch whatever was missed
+  onReconnected?: () => void;
+}
+
+/**
+ * Follows a live update stream for as long as the component is mounted
+ * @param url Stream to follow; nothing is opened while it is null
+ * @returns The state of the connection
+ */
+export function useLiveUpdates(url: string | null, { headers, onEvent, onReconnected }: UseLiveUpdatesOptions): LiveUpdateStatus {
+  const [status, setStatus] = React.useState<LiveUpdateStatus>("connecting");
+
+  // The latest callbacks are used without reopening the stream on every render
+  const handlers = React.useRef({ onEvent, onReconnected });
+  handlers.current = { onEvent, onReconnected };
+  const headersKey = JSON.stringify(headers ?? {});
+
+  React.useEffect(() => {
+    if (!url) return;
+
+    return subscribeToLiveUpdates(url, {
+      headers: JSON.parse(headersKey),
+      onEvent: (event) => handlers.current.onEvent(event),
+      onReconnected: () => handlers.current.onReconnected?.(),
+      onStatusChange: setStatus,
+    });
+  }, [url, headersKey]);
+
+  return status;
+}
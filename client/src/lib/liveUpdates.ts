@@ -0,0 +1,144 @@
+import { LIVE_UPDATE_HEARTBEAT_MS, LiveUpdateEvent } from "@shared/schema";
+import { API_BASE_URL } from "./queryClient";
+
+export type LiveUpdateStatus = "connecting" | "live" | "reconnecting" | "closed";
+
+export interface LiveUpdateOptions {
+  // Sent with every connection, e.g. the dashboard token (EventSource cannot send headers, hence fetch)
+  headers?: Record<string, string>;
+  onEvent: (event: LiveUpdateEvent) => void;
+  // Called after a dropped connection is back: events sent in between were missed
+  onReconnected?: () => void;
+  onStatusChange?: (status: LiveUpdateStatus) => void;
+}
+
+// Reconnects start after a second and back off to half a minute
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+// A connection that misses two heartbeats and a half is given up as dead
+const SILENCE_TIMEOUT_MS = LIVE_UPDATE_HEARTBEAT_MS * 2.5;
+
+// Reads the data of one Server-Sent Events message; comments (heartbeats) have none
+function parseEventData(block: string): LiveUpdateEvent | null {
+  const data = block
+    .split("\n")
+    .filter(line => line.startsWith("data:"))
+    .map(line => line.slice(5).trimStart())
+    .join("\n");
+  if (!data) return null;
+
+  try {
+    return JSON.parse(data) as LiveUpdateEvent;
+  } catch {
+    // A malformed message is skipped; the next refetch catches up on whatever it carried
+    return null;
+  }
+}
+
+/**
+ * Follows a live update stream of the API, reconnecting with backoff until unsubscribed
+ * Stops for good when the server ends the stream with `closed` or refuses it (e.g. wrong token, expired quiz).
+ * @returns Unsubscribe function
+ */
+export function subscribeToLiveUpdates(url: string, options: LiveUpdateOptions): () => void {
+  let stopped = false;
+  let hasConnected = false;
+  let reconnectDelay = MIN_RECONNECT_DELAY_MS;
+  let controller: AbortController | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let silenceTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const setStatus = (status: LiveUpdateStatus) => options.onStatusChange?.(status);
+
+  const stop = (status: LiveUpdateStatus) => {
+    stopped = true;
+    clearTimeout(reconnectTimer);
+    clearTimeout(silenceTimer);
+    controller?.abort();
+    setStatus(status);
+  };
+
+  const expectMoreWithin = (ms: number) => {
+    clearTimeout(silenceTimer);
+    silenceTimer = setTimeout(() => controller?.abort(), ms);
+  };
+
+  const connect = async () => {
+    reconnectTimer = undefined;
+    controller = new AbortController();
+    setStatus(hasConnected ? "reconnecting" : "connecting");
+
+    try {
+      const res = await fetch(`${API_BASE_URL}${url}`, {
+        headers: { Accept: "text/event-stream", ...options.headers },
+        credentials: "include",
+        signal: controller.signal,
+      });
+
+      // Refused streams are not retried; a rate limited one is, after backing off
+      if (res.status >= 400 && res.status < 500 && res.status !== 429) {
+        return stop("closed");
+      }
+      // Too many streams open: back off for about as long as the server asks
+      if (res.status === 429) {
+        const retryAfter = Number(res.headers.get("Retry-After"));
+        if (retryAfter > 0) reconnectDelay = Math.max(reconnectDelay, retryAfter * 1000);
+      }
+      if (!res.ok || !res.body) {
+        throw new Error(`HTTP ${res.status}`);
+      }
+
+      setStatus("live");
+      if (hasConnected) options.onReconnected?.();
+      hasConnected = true;
+      reconnectDelay = MIN_RECONNECT_DELAY_MS;
+      expectMoreWithin(SILENCE_TIMEOUT_MS);
+
+      const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        expectMoreWithin(SILENCE_TIMEOUT_MS);
+
+        buffer += value.replace(/\r\n?/g, "\n");
+        let boundary: number;
+        while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+          const event = parseEventData(buffer.slice(0, boundary));
+          buffer = buffer.slice(boundary + 2);
+          if (!event) continue;
+
+          options.onEvent(event);
+          if (event.type === "closed") return stop("closed");
+        }
+      }
+    } catch {
+      // Dropped or timed out: reconnected below, and the status tells the page it is not live
+      if (stopped) return;
+    } finally {
+      clearTimeout(silenceTimer);
+    }
+
+    if (stopped) return;
+    setStatus("reconnecting");
+    // Jitter keeps every open page from reconnecting at the same moment after a restart
+    reconnectTimer = setTimeout(connect, reconnectDelay * (0.5 + Math.random() / 2));
+    reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+  };
+
+  // Coming back online reconnects straight away instead of waiting out the backoff
+  const onOnline = () => {
+    if (stopped || reconnectTimer === undefined) return;
+    clearTimeout(reconnectTimer);
+    reconnectDelay = MIN_RECONNECT_DELAY_MS;
+    connect();
+  };
+  window.addEventListener("online", onOnline);
+
+  connect();
+
+  return () => {
+    window.removeEventListener("online", onOnline);
+    stop("closed");
+  };
+}
@@ -1,11 +1,32 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { toast } from "@/hooks/use-toast";
 
 // Determine the base API URL
 // Use VITE_API_URL from environment variables if available, otherwise use relative paths
-const API_BASE_URL = import.meta.env.VITE_API_URL || "";
+export const API_BASE_URL = import.meta.env.VITE_API_URL || "";
+
+// Tells the user they are being throttled, using the server's Retry-After when it sends one
+function showRateLimitToast(res: Response) {
+  const retryAfter = Number(res.headers.get("Retry-After"));
+  const wait = retryAfter > 0
+    ? retryAfter < 60
+      ? `${retryAfter} second${retryAfter === 1 ? "" : "s"}`
+      : `${Math.ceil(retryAfter / 60)} minute${Math.ceil(retryAfter / 60) === 1 ? "" : "s"}`
+    : "a moment";
+
+  toast({
+    title: "Slow down a little",
+    description: `You're doing that too often. Please try again in ${wait}.`,
+    variant: "destructive",
+  });
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
+    if (res.status === 429) {
+      showRateLimitToast(res);
+    }
+
     const text = (await res.text()) || res.statusText;
     console.error(`API Error (${res.status}):`, { 
       url: res.url,
@@ -17,10 +38,16 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Headers that authorize creator-only endpoints with the quiz's dashboard token
+export function dashboardAuthHeaders(dashboardToken: string): Record<string, string> {
+  return { Authorization: `Bearer ${dashboardToken}` };
+}
+
 export async function apiRequest(
   method: string,
   url: string, // url should be the path, e.g., "/api/users"
   data?: unknown | undefined,
+  headers: Record<string, string> = {},
 ): Promise<Response> {
   // Prepend the base URL to the path
   const fullUrl = `${API_BASE_URL}${url}`;
@@ -28,7 +55,7 @@ export async function apiRequest(
   
   const res = await fetch(fullUrl, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: data ? { "Content-Type": "application/json", ...headers } : headers,
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -37,6 +64,26 @@ export async function apiRequest(
   return res;
 }
 
+/**
+ * Downloads a file an API endpoint serves as an attachment, e.g. an export that needs the dashboard token
+ * The file is saved under the name the server gives it, or `fallbackName` when it gives none.
+ */
+export async function downloadApiFile(
+  url: string,
+  fallbackName: string,
+  headers: Record<string, string> = {},
+): Promise<void> {
+  const res = await apiRequest("GET", url, undefined, headers);
+  const fileName = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? fallbackName;
+
+  const objectUrl = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = objectUrl;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(objectUrl);
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -0,0 +1,66 @@
+import axios from "axios";
+import { quizExportSchema, type QuizExport, type QuizExportImage } from "@shared/schema";
+import type { QuestionDraft } from "@/components/quiz/QuestionEditor";
+
+/**
+ * Reads and validates a quiz export file
+ * @throws Error with a message that can be shown to the creator as is
+ */
+export async function readQuizExportFile(file: File): Promise<QuizExport> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error("This file is not valid JSON");
+  }
+
+  const result = quizExportSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const where = issue.path.length > 0 ? ` (at ${issue.path.join(".")})` : "";
+    throw new Error(`${issue.message}${where}`);
+  }
+  return result.data;
+}
+
+// Linked images are copied, so deleting the original quiz does not take the new quiz's images with it
+// An image that cannot be copied stays linked, so the import never fails over one image
+async function copyLinkedImage(url: string): Promise<string> {
+  try {
+    const response = await axios.post("/api/images/copy", { url });
+    return response.data.imageUrl as string;
+  } catch {
+    return url;
+  }
+}
+
+// Embedded images are uploaded like any other, so the quiz never stores image data itself
+async function toImageUrl(image: QuizExportImage | null): Promise<string | undefined> {
+  if (!image) return undefined;
+  if ("url" in image) return copyLinkedImage(image.url);
+
+  const blob = await (await fetch(image.dataUrl)).blob();
+  const formData = new FormData();
+  formData.append("image", blob, `imported.${blob.type.split("/")[1] || "png"}`);
+
+  const response = await axios.post("/api/upload", formData, {
+    headers: { "Content-Type": "multipart/form-data" },
+  });
+  return response.data.imageUrl as string;
+}
+
+/**
+ * Turns the questions of an export into drafts for the creation editor, storing copies of their images
+ */
+export async function toQuestionDrafts(quizExport: QuizExport): Promise<QuestionDraft[]> {
+  return Promise.all(quizExport.questions.map(async (question) => ({
+    text: question.text,
+    imageUrl: await toImageUrl(question.image),
+    hint: question.hint ?? undefined,
+    type: question.type,
+    scoring: question.scoring,
+    strictness: question.strictness,
+    options: question.options,
+    acceptedAnswers: question.acceptedAnswers,
+  })));
+}
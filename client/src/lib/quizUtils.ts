@@ -1,20 +1,145 @@
-import { Question, QuestionAnswer } from "@shared/schema";
-import { apiRequest } from "./queryClient";
+import {
+  AttemptPage,
+  AttemptRank,
+  AttemptReview,
+  AttemptSessionView,
+  AttemptSort,
+  LeaderboardPage,
+  LockSessionAnswer,
+  ParsedQuizAttempt,
+  Question,
+  QuestionAnswer,
+  RetakePolicy,
+  StartAttemptSession,
+  StartedAttemptSession
+} from "@shared/schema";
+import { apiRequest, dashboardAuthHeaders } from "./queryClient";
 
-// Verify a single answer against a question
-export async function verifyAnswer(
-  questionId: number,
-  answer: string | string[]
-): Promise<boolean> {
+// How each retake policy is described to creators
+export const RETAKE_POLICY_LABELS: Record<RetakePolicy, string> = {
+  single: "One attempt per person",
+  best: "Retakes allowed, best score counts",
+  latest: "Retakes allowed, latest score counts"
+};
+
+// How each order of the leaderboard and attempt lists is labelled
+export const ATTEMPT_SORT_LABELS: Record<AttemptSort, string> = {
+  score: "Top scores",
+  newest: "Newest",
+  fastest: "Fastest"
+};
+
+// Query string of one page of an attempt list; `cursor` is the previous page's `nextCursor`
+function attemptPageQuery(sort: AttemptSort, cursor?: string | null): string {
+  const query = new URLSearchParams({ sort });
+  if (cursor) query.set("cursor", cursor);
+  return query.toString();
+}
+
+// Load one page of a quiz's leaderboard
+export async function fetchLeaderboardPage(
+  quizId: number,
+  sort: AttemptSort,
+  cursor?: string | null
+): Promise<LeaderboardPage> {
+  const response = await apiRequest("GET", `/api/quizzes/${quizId}/leaderboard?${attemptPageQuery(sort, cursor)}`);
+  return response.json();
+}
+
+// Load where the taker of an attempt stands on the leaderboard, with `neighbours` rows on each side
+export async function fetchAttemptRank(
+  attemptId: number,
+  sort: AttemptSort,
+  neighbours = 3
+): Promise<AttemptRank> {
+  const query = new URLSearchParams({ sort, neighbours: String(neighbours) });
+  const response = await apiRequest("GET", `/api/quiz-attempts/${attemptId}/rank?${query}`);
+  return response.json();
+}
+
+// Load one page of a quiz's attempts with their answers (creator only)
+export async function fetchAttemptsPage(
+  quizId: number,
+  dashboardToken: string,
+  sort: AttemptSort,
+  cursor?: string | null
+): Promise<AttemptPage<ParsedQuizAttempt>> {
+  const response = await apiRequest(
+    "GET",
+    `/api/quizzes/${quizId}/attempts?${attemptPageQuery(sort, cursor)}`,
+    undefined,
+    dashboardAuthHeaders(dashboardToken)
+  );
+  return response.json();
+}
+
+// Time taken to finish an attempt, e.g. "42s" or "3m 05s"
+export function formatDuration(durationMs: number | null): string {
+  if (durationMs === null) return "-";
+  const totalSeconds = Math.round(durationMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${String(seconds).padStart(2, "0")}s` : `${seconds}s`;
+}
+
+// Key under which the browser remembers the attempt session of a quiz being taken
+export function attemptSessionStorageKey(quizId: number): string {
+  return `qzonme_quiz_${quizId}_session`;
+}
+
+// Key under which the browser remembers the taker token the server issued it
+export const TAKER_TOKEN_STORAGE_KEY = "qzonme_taker_token";
+
+// Start taking a quiz; the returned token is needed for every answer
+export async function startAttemptSession(
+  quizId: number,
+  taker: StartAttemptSession
+): Promise<StartedAttemptSession> {
+  const response = await apiRequest("POST", `/api/quizzes/${quizId}/attempt-sessions`, taker);
+  return response.json();
+}
+
+// Load an attempt session to resume it
+export async function fetchAttemptSession(token: string): Promise<AttemptSessionView> {
+  const response = await apiRequest("GET", `/api/attempt-sessions/${token}`);
+  return response.json();
+}
+
+// Lock in the answer to one question; the server rejects a second answer with 409
+export async function lockSessionAnswer(
+  token: string,
+  answer: LockSessionAnswer
+): Promise<AttemptSessionView> {
+  const response = await apiRequest("POST", `/api/attempt-sessions/${token}/answers`, answer);
+  return response.json();
+}
+
+// Key under which the browser remembers the session an attempt was submitted from; it unlocks the review
+export function attemptReviewStorageKey(attemptId: number): string {
+  return `qzonme_attempt_${attemptId}_session`;
+}
+
+// Load the review of a submitted attempt: the taker's answers and the answer key of the questions they answered
+// Only the browser that took the attempt holds the session token the server asks for
+export async function fetchAttemptReview(attemptId: number): Promise<AttemptReview> {
+  const sessionToken = localStorage.getItem(attemptReviewStorageKey(attemptId));
+  const response = await apiRequest(
+    "GET",
+    `/api/quiz-attempts/${attemptId}/review`,
+    undefined,
+    sessionToken ? { "X-Attempt-Session-Token": sessionToken } : {}
+  );
+  return response.json();
+}
+
+// The attempt that stops a retake on a single-attempt quiz, read from an apiRequest error ("409: {...}")
+export function getBlockingAttemptId(error: unknown): number | null {
+  if (!(error instanceof Error) || !error.message.startsWith("409")) return null;
   try {
-    const response = await apiRequest("POST", `/api/questions/${questionId}/verify`, {
-      answer
-    });
-    const result = await response.json();
-    return result.isCorrect;
-  } catch (error) {
-    console.error("Error verifying answer:", error);
-    return false;
+    const body = JSON.parse(error.message.slice(error.message.indexOf(":") + 1));
+    return typeof body.attemptId === "number" ? body.attemptId : null;
+  } catch {
+    return null;
   }
 }
 
@@ -1,15 +1,25 @@
 import React, { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  AdminSession,
+  CONTACT_MESSAGE_STATUSES,
+  ContactInbox,
+  ContactMessage,
+  ContactMessageStatus,
+  UpdateContactMessage,
+} from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
 import Layout from "@/components/common/Layout";
 import MetaTags from "@/components/common/MetaTags";
+import WebhooksPanel from "@/components/common/WebhooksPanel";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import {
   Tabs,
-  TabsContent,
   TabsList,
   TabsTrigger,
 } from "@/components/ui/tabs";
@@ -21,6 +31,21 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -33,110 +58,191 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { formatDistanceToNow } from "date-fns";
-import { Eye, Search } from "lucide-react";
+import { Eye, LogOut, Search, Trash2 } from "lucide-react";
+
+const STATUS_LABELS: Record<ContactMessageStatus, string> = {
+  new: "New",
+  read: "Read",
+  replied: "Replied",
+  archived: "Archived",
+  spam: "Spam",
+};
+
+type InboxFilter = ContactMessageStatus | "all";
 
-// Simple password check
-const ADMIN_PASSWORD = "qzonmeadmin123"; // You can change this password
+// Reads one listing of the inbox; null when the admin session has ended
+async function fetchInbox(status: InboxFilter, search: string): Promise<ContactInbox | null> {
+  const params = new URLSearchParams();
+  if (status !== "all") params.set("status", status);
+  if (search) params.set("search", search);
 
-interface ContactMessage {
-  id: string;
-  name: string;
-  email: string;
-  message: string;
-  timestamp: string;
-  read?: boolean;
+  try {
+    const response = await apiRequest("GET", `/api/contact/messages?${params.toString()}`);
+    return response.json();
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith("401")) return null;
+    throw error;
+  }
 }
 
 const Admin: React.FC = () => {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [searchTerm, setSearchTerm] = useState("");
+  const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState<InboxFilter>("new");
   const [selectedMessage, setSelectedMessage] = useState<ContactMessage | null>(null);
-  const [viewedMessages, setViewedMessages] = useState<Set<string>>(new Set());
+  const [noteDraft, setNoteDraft] = useState("");
   const { toast } = useToast();
 
-  // Load viewed messages from localStorage
+  // Search once typing pauses rather than on every key
   useEffect(() => {
-    const savedViewed = localStorage.getItem("viewedMessages");
-    if (savedViewed) {
-      setViewedMessages(new Set(JSON.parse(savedViewed)));
-    }
-  }, []);
+    const timeout = setTimeout(() => setSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
 
-  // Save viewed messages to localStorage
-  useEffect(() => {
-    if (viewedMessages.size > 0) {
-      localStorage.setItem("viewedMessages", JSON.stringify(Array.from(viewedMessages)));
-    }
-  }, [viewedMessages]);
+  // The server's session cookie decides who is logged in; null means nobody is
+  const { data: adminSession, isLoading: isCheckingSession } = useQuery<AdminSession | null>({
+    queryKey: ["/api/admin/session"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+  const isAuthenticated = !!adminSession;
 
-  const { data, isLoading, error } = useQuery<{success: boolean, messages: ContactMessage[]}>({
-    queryKey: ["/api/contact/messages"],
-    queryFn: async () => {
-      if (!isAuthenticated) return {success: true, messages: []};
-      const response = await fetch("/api/contact/messages");
-      if (!response.ok) {
-        throw new Error("Failed to fetch contact messages");
-      }
-      return response.json();
-    },
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["/api/contact/messages", statusFilter, search],
+    queryFn: () => fetchInbox(statusFilter, search),
     enabled: isAuthenticated,
+    placeholderData: (previous) => previous,
   });
-  
+
+  // The session ran out while the page was open
+  useEffect(() => {
+    if (isAuthenticated && data === null) {
+      queryClient.setQueryData(["/api/admin/session"], null);
+      toast({
+        title: "Session Expired",
+        description: "Please log in again.",
+        variant: "destructive",
+      });
+    }
+  }, [isAuthenticated, data, toast]);
+
   // Extract messages from the response
   const contactMessages = data?.messages || [];
+  const counts = data?.counts;
+  const totalCount = counts ? CONTACT_MESSAGE_STATUSES.reduce((sum, status) => sum + counts[status], 0) : 0;
 
-  const handleLogin = () => {
-    if (password === ADMIN_PASSWORD) {
-      setIsAuthenticated(true);
+  const loginMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/login", { username, password });
+      return response.json() as Promise<AdminSession>;
+    },
+    onSuccess: (session) => {
+      setPassword("");
+      queryClient.setQueryData(["/api/admin/session"], session);
+      queryClient.invalidateQueries({ queryKey: ["/api/contact/messages"] });
       toast({
         title: "Login Successful",
         description: "Welcome to the admin panel.",
       });
-    } else {
+    },
+    onError: (error: Error) => {
+      // Throttled logins already get the rate limit toast
+      if (error.message.startsWith("429")) return;
       toast({
         title: "Login Failed",
-        description: "Incorrect password. Please try again.",
+        description: error.message.startsWith("401")
+          ? "Incorrect username or password. Please try again."
+          : "Admin login is unavailable right now. Please try again later.",
         variant: "destructive",
       });
-    }
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/admin/logout"),
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/admin/session"], null);
+      queryClient.removeQueries({ queryKey: ["/api/contact/messages"] });
+    },
+    onError: () => {
+      toast({
+        title: "Logout Failed",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Triage is stored on the server, so every admin sees the same state
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, update }: { id: number; update: UpdateContactMessage }) => {
+      const response = await apiRequest("PATCH", `/api/contact/messages/${id}`, update);
+      const { contactMessage } = await response.json() as { contactMessage: ContactMessage };
+      return contactMessage;
+    },
+    onSuccess: (contactMessage) => {
+      setSelectedMessage(current => current?.id === contactMessage.id ? contactMessage : current);
+      queryClient.invalidateQueries({ queryKey: ["/api/contact/messages"] });
+    },
+    onError: () => {
+      toast({
+        title: "Update Failed",
+        description: "The message could not be updated. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/contact/messages/${id}`),
+    onSuccess: () => {
+      setSelectedMessage(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/contact/messages"] });
+      toast({
+        title: "Deleted",
+        description: "The message has been deleted.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Delete Failed",
+        description: "The message could not be deleted. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleLogin = () => {
+    if (!username.trim() || !password) return;
+    loginMutation.mutate();
   };
 
-  const markAsViewed = (id: string) => {
-    setViewedMessages(prev => {
-      const updated = new Set(prev);
-      updated.add(id);
-      return updated;
-    });
+  const updateMessage = (message: ContactMessage, update: UpdateContactMessage) => {
+    updateMutation.mutate({ id: message.id, update });
   };
 
   const handleViewMessage = (message: ContactMessage) => {
     setSelectedMessage(message);
-    markAsViewed(message.id);
+    setNoteDraft(message.note ?? "");
+    // Opening a new message reads it
+    if (message.status === "new") {
+      updateMessage(message, { status: "read" });
+    }
   };
 
-  const handleClearViewed = () => {
-    setViewedMessages(new Set());
-    localStorage.removeItem("viewedMessages");
-    toast({
-      title: "Cleared",
-      description: "All messages are now marked as unread",
-    });
+  const handleReply = (message: ContactMessage) => {
+    updateMessage(message, { status: "replied" });
+    window.location.href = `mailto:${message.email}?subject=Re: Your message to QzonMe&body=Hello ${message.name},%0A%0AThank you for contacting us regarding:%0A%0A"${message.message}"%0A%0A`;
   };
 
-  const filteredMessages = contactMessages?.filter(message => 
-    message.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    message.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    message.message.toLowerCase().includes(searchTerm.toLowerCase())
-  );
-
-  const unreadMessages = filteredMessages?.filter(
-    message => !viewedMessages.has(message.id)
-  );
-
-  const readMessages = filteredMessages?.filter(
-    message => viewedMessages.has(message.id)
-  );
+  if (isCheckingSession) {
+    return (
+      <Layout>
+        <div className="text-center p-8">Loading...</div>
+      </Layout>
+    );
+  }
 
   if (!isAuthenticated) {
     return (
@@ -154,8 +260,15 @@ const Admin: React.FC = () => {
             <CardContent>
               <div className="space-y-4">
                 <div className="space-y-2">
+                  <Input
+                    placeholder="Username"
+                    autoComplete="username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                  />
                   <Input
                     type="password"
+                    autoComplete="current-password"
                     placeholder="Enter admin password"
                     value={password}
                     onChange={(e) => setPassword(e.target.value)}
@@ -166,11 +279,12 @@ const Admin: React.FC = () => {
                     }}
                   />
                 </div>
-                <Button 
-                  className="w-full" 
+                <Button
+                  className="w-full"
                   onClick={handleLogin}
+                  disabled={loginMutation.isPending}
                 >
-                  Login
+                  {loginMutation.isPending ? "Logging in..." : "Login"}
                 </Button>
               </div>
             </CardContent>
@@ -187,120 +301,163 @@ const Admin: React.FC = () => {
         description="Admin panel for QzonMe website"
         type="website"
       />
-      <h1 className="text-3xl font-bold mb-6">Admin Panel</h1>
-      
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold">Admin Panel</h1>
+        <div className="flex items-center gap-3 text-sm text-muted-foreground">
+          <span>Logged in as {adminSession.username}</span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+          >
+            <LogOut className="h-4 w-4 mr-1" />
+            Log Out
+          </Button>
+        </div>
+      </div>
+
       <Card className="mb-6">
         <CardHeader>
           <CardTitle className="flex items-center justify-between">
             <span>Contact Messages</span>
-            <div className="flex items-center gap-3">
-              <div className="relative">
-                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-                <Input
-                  type="search"
-                  placeholder="Search messages..."
-                  className="pl-8 w-[250px]"
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                />
-              </div>
-              <Button 
-                variant="outline" 
-                onClick={handleClearViewed}
-                size="sm"
-              >
-                Mark All As Unread
-              </Button>
+            <div className="relative">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                type="search"
+                placeholder="Search messages..."
+                className="pl-8 w-[250px]"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+              />
             </div>
           </CardTitle>
         </CardHeader>
         <CardContent>
+          <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as InboxFilter)}>
+            <TabsList className="mb-4">
+              {CONTACT_MESSAGE_STATUSES.map(status => (
+                <TabsTrigger key={status} value={status}>
+                  {STATUS_LABELS[status]} {counts && counts[status] > 0 && `(${counts[status]})`}
+                </TabsTrigger>
+              ))}
+              <TabsTrigger value="all">
+                All {counts && `(${totalCount})`}
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+
           {isLoading ? (
             <div className="text-center p-4">Loading messages...</div>
           ) : error ? (
             <div className="text-center text-red-500 p-4">
               Error loading messages: {(error as Error).message}
             </div>
-          ) : contactMessages && contactMessages.length > 0 ? (
-            <Tabs defaultValue="unread">
-              <TabsList className="mb-4">
-                <TabsTrigger value="unread">
-                  Unread {unreadMessages && unreadMessages.length > 0 && `(${unreadMessages.length})`}
-                </TabsTrigger>
-                <TabsTrigger value="read">
-                  Read {readMessages && readMessages.length > 0 && `(${readMessages.length})`}
-                </TabsTrigger>
-                <TabsTrigger value="all">
-                  All ({contactMessages.length})
-                </TabsTrigger>
-              </TabsList>
-              
-              <TabsContent value="unread">
-                <MessageTable 
-                  messages={unreadMessages || []} 
-                  onViewMessage={handleViewMessage}
-                  viewedMessages={viewedMessages}
-                />
-              </TabsContent>
-              
-              <TabsContent value="read">
-                <MessageTable 
-                  messages={readMessages || []} 
-                  onViewMessage={handleViewMessage}
-                  viewedMessages={viewedMessages}
-                />
-              </TabsContent>
-              
-              <TabsContent value="all">
-                <MessageTable 
-                  messages={filteredMessages || []} 
-                  onViewMessage={handleViewMessage}
-                  viewedMessages={viewedMessages}
-                />
-              </TabsContent>
-            </Tabs>
           ) : (
-            <div className="text-center p-4">No contact messages found.</div>
+            <MessageTable
+              messages={contactMessages}
+              onViewMessage={handleViewMessage}
+            />
           )}
         </CardContent>
       </Card>
 
+      <WebhooksPanel
+        basePath="/api/admin/webhooks"
+        description="Receive a signed POST request for every quiz that is created, finished or expires."
+      />
+
       {/* Message View Dialog */}
       {selectedMessage && (
-        <AlertDialog open={!!selectedMessage} onOpenChange={() => setSelectedMessage(null)}>
-          <AlertDialogContent className="max-w-xl">
-            <AlertDialogHeader>
-              <AlertDialogTitle>Message from {selectedMessage.name}</AlertDialogTitle>
-              <AlertDialogDescription className="space-y-2">
-                <div>
-                  <span className="font-semibold">From:</span> {selectedMessage.name} ({selectedMessage.email})
-                </div>
-                <div>
-                  <span className="font-semibold">Sent:</span>{" "}
-                  {new Date(selectedMessage.timestamp).toLocaleString()} (
-                  {formatDistanceToNow(new Date(selectedMessage.timestamp), { addSuffix: true })})
-                </div>
-                <div className="mt-4 bg-muted p-4 rounded-md whitespace-pre-wrap">
-                  {selectedMessage.message}
+        <Dialog open={!!selectedMessage} onOpenChange={() => setSelectedMessage(null)}>
+          <DialogContent className="max-w-xl">
+            <DialogHeader>
+              <DialogTitle>Message from {selectedMessage.name}</DialogTitle>
+              <DialogDescription asChild>
+                <div className="space-y-2">
+                  <div>
+                    <span className="font-semibold">From:</span> {selectedMessage.name} ({selectedMessage.email})
+                  </div>
+                  <div>
+                    <span className="font-semibold">Sent:</span>{" "}
+                    {new Date(selectedMessage.createdAt).toLocaleString()} (
+                    {formatDistanceToNow(new Date(selectedMessage.createdAt), { addSuffix: true })})
+                  </div>
+                  <div className="mt-4 bg-muted p-4 rounded-md whitespace-pre-wrap text-foreground">
+                    {selectedMessage.message}
+                  </div>
                 </div>
-              </AlertDialogDescription>
-            </AlertDialogHeader>
-            <AlertDialogFooter>
-              <AlertDialogCancel>Close</AlertDialogCancel>
-              <AlertDialogAction asChild>
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-3">
+              <div className="flex items-center gap-3">
+                <span className="text-sm font-semibold">Status</span>
+                <Select
+                  value={selectedMessage.status}
+                  onValueChange={(value) => updateMessage(selectedMessage, { status: value as ContactMessageStatus })}
+                  disabled={updateMutation.isPending}
+                >
+                  <SelectTrigger className="w-[160px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONTACT_MESSAGE_STATUSES.map(status => (
+                      <SelectItem key={status} value={status}>
+                        {STATUS_LABELS[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <span className="text-sm font-semibold">Internal note</span>
+                <Textarea
+                  placeholder="Only admins can see this"
+                  value={noteDraft}
+                  onChange={(e) => setNoteDraft(e.target.value)}
+                  rows={3}
+                />
                 <Button
-                  onClick={() => {
-                    // This would be where you'd send a reply if we had email integration
-                    // but for now it just opens the mailto:
-                    window.location.href = `mailto:${selectedMessage.email}?subject=Re: Your message to QzonMe&body=Hello ${selectedMessage.name},%0A%0AThank you for contacting us regarding:%0A%0A"${selectedMessage.message}"%0A%0A`;
-                  }}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateMessage(selectedMessage, { note: noteDraft.trim() || null })}
+                  disabled={updateMutation.isPending || noteDraft.trim() === (selectedMessage.note ?? "")}
                 >
-                  Reply via Email
+                  Save Note
                 </Button>
-              </AlertDialogAction>
-            </AlertDialogFooter>
-          </AlertDialogContent>
-        </AlertDialog>
+              </div>
+            </div>
+
+            <DialogFooter className="gap-2 sm:justify-between">
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" className="text-red-600 hover:text-red-700">
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete this message?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The message and its note are removed for every admin. This cannot be undone.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => deleteMutation.mutate(selectedMessage.id)}>
+                      Delete
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+              <Button onClick={() => handleReply(selectedMessage)}>
+                Reply via Email
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       )}
     </Layout>
   );
@@ -309,13 +466,11 @@ const Admin: React.FC = () => {
 interface MessageTableProps {
   messages: ContactMessage[];
   onViewMessage: (message: ContactMessage) => void;
-  viewedMessages: Set<string>;
 }
 
-const MessageTable: React.FC<MessageTableProps> = ({ 
-  messages, 
+const MessageTable: React.FC<MessageTableProps> = ({
+  messages,
   onViewMessage,
-  viewedMessages
 }) => {
   if (messages.length === 0) {
     return <div className="text-center p-4">No messages found.</div>;
@@ -329,7 +484,7 @@ const MessageTable: React.FC<MessageTableProps> = ({
             <TableHead className="w-[180px]">From</TableHead>
             <TableHead>Message</TableHead>
             <TableHead className="w-[150px]">Date</TableHead>
-            <TableHead className="w-[80px]">Status</TableHead>
+            <TableHead className="w-[100px]">Status</TableHead>
             <TableHead className="w-[80px]">Action</TableHead>
           </TableRow>
         </TableHeader>
@@ -342,21 +497,24 @@ const MessageTable: React.FC<MessageTableProps> = ({
               </TableCell>
               <TableCell>
                 <div className="line-clamp-2">{message.message}</div>
+                {message.note && (
+                  <div className="text-xs text-muted-foreground mt-1 line-clamp-1">Note: {message.note}</div>
+                )}
               </TableCell>
               <TableCell>
-                {formatDistanceToNow(new Date(message.timestamp), { addSuffix: true })}
+                {formatDistanceToNow(new Date(message.createdAt), { addSuffix: true })}
               </TableCell>
               <TableCell>
-                {viewedMessages.has(message.id) ? (
-                  <Badge variant="outline">Read</Badge>
-                ) : (
+                {message.status === "new" ? (
                   <Badge>New</Badge>
+                ) : (
+                  <Badge variant="outline">{STATUS_LABELS[message.status]}</Badge>
                 )}
               </TableCell>
               <TableCell>
-                <Button 
-                  variant="ghost" 
-                  size="icon" 
+                <Button
+                  variant="ghost"
+                  size="icon"
                   onClick={() => onViewMessage(message)}
                 >
                   <Eye className="h-4 w-4" />
@@ -370,4 +528,4 @@ const MessageTable: React.FC<MessageTableProps> = ({
   );
 };
 
-export default Admin;
\ No newline at end of file
+export default Admin;
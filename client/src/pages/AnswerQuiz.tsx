@@ -3,9 +3,9 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { questionAnswerSchema, QuestionAnswer, Quiz, Question } from "@shared/schema";
+import { Quiz, QuizAttempt, TakerQuestion, isQuizExpired } from "@shared/schema";
 import QuizAnswer from "@/components/quiz/QuizAnswer";
-import { calculateScore } from "@/lib/quizUtils";
+import { attemptReviewStorageKey, attemptSessionStorageKey, getBlockingAttemptId } from "@/lib/quizUtils";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import Layout from "@/components/common/Layout";
@@ -25,45 +25,42 @@ const AnswerQuiz: React.FC<AnswerQuizProps> = ({ params }) => {
   
   // Try both possible keys to maintain compatibility
   const userName = sessionStorage.getItem("userName") || sessionStorage.getItem("username") || "";
-  const userId = parseInt(sessionStorage.getItem("userId") || "0");
 
-  // Check if user is logged in, if not, save the quiz info and redirect to home
+  // A "continue on another device" link carries the attempt session to resume
+  const resumeToken = new URLSearchParams(window.location.search).get("resume");
+
+  // Save the quiz info and send the taker home to enter their name
+  const redirectToHome = React.useCallback(() => {
+    // Save the quiz params to session storage
+    if (accessCode) {
+      sessionStorage.setItem("pendingQuizCode", accessCode);
+    } else if (creatorSlug) {
+      sessionStorage.setItem("pendingQuizSlug", creatorSlug);
+    }
+    
+    // Redirect to home page to enter name
+    navigate("/");
+  }, [accessCode, creatorSlug, navigate]);
+
+  // Check if user is logged in; a resumed session already knows who is taking the quiz
   React.useEffect(() => {
-    if (!userName || !userId) {
-      // Save the quiz params to session storage
-      if (accessCode) {
-        sessionStorage.setItem("pendingQuizCode", accessCode);
-      } else if (creatorSlug) {
-        sessionStorage.setItem("pendingQuizSlug", creatorSlug);
-      }
-      
-      // Redirect to home page to enter name
-      navigate("/");
-      return;
+    if (!userName && !resumeToken) {
+      redirectToHome();
     }
-  }, [accessCode, creatorSlug, navigate, userName, userId]);
+  }, [redirectToHome, userName, resumeToken]);
 
   // Determine if we're using access code or creator slug
   const isUsingAccessCode = !!accessCode && !creatorSlug;
   const identifier = isUsingAccessCode ? accessCode : creatorSlug;
   const endpoint = isUsingAccessCode ? `/api/quizzes/code/${identifier}` : `/api/quizzes/slug/${identifier}`;
 
-  // Helper function to check if a quiz has expired
-  const isQuizExpired = (createdAtString: string | Date) => {
-    const createdAt = new Date(createdAtString);
-    const expirationDate = new Date(createdAt);
-    expirationDate.setDate(expirationDate.getDate() + 30);
-    
-    return new Date() > expirationDate;
-  };
-
   // Generate unique cache key for this particular quiz attempt
   const cacheKey = React.useMemo(() => `quiz-${identifier}-${Date.now()}`, [identifier]);
 
   // Fetch quiz by access code or URL slug with aggressive cache invalidation
   const { data: quiz, isLoading: isLoadingQuiz, error: quizError } = useQuery<Quiz>({
     queryKey: [endpoint, cacheKey],
-    enabled: !!identifier && !!userName && !!userId,
+    enabled: !!identifier && (!!userName || !!resumeToken),
     retry: 3, // Retry failed requests up to 3 times
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 10000), // Exponential backoff
     staleTime: 0, // Don't use stale data
@@ -80,7 +77,7 @@ const AnswerQuiz: React.FC<AnswerQuizProps> = ({ params }) => {
   });
 
   // Fetch questions for the quiz with aggressive cache invalidation
-  const { data: questions = [], isLoading: isLoadingQuestions } = useQuery<Question[]>({
+  const { data: questions = [], isLoading: isLoadingQuestions } = useQuery<TakerQuestion[]>({
     queryKey: [`/api/quizzes/${quiz?.id}/questions`, cacheKey],
     enabled: !!quiz?.id,
     staleTime: 0, // Don't use stale data
@@ -92,24 +89,23 @@ const AnswerQuiz: React.FC<AnswerQuizProps> = ({ params }) => {
 
   // Submit quiz attempt
   const submitAttemptMutation = useMutation({
-    mutationFn: async (data: {
-      answers: QuestionAnswer[];
-      score: number;
-    }) => {
-      const response = await apiRequest("POST", "/api/quiz-attempts", {
-        quizId: quiz?.id,
-        userAnswerId: userId,
-        userName,
-        score: data.score,
-        totalQuestions: questions.length,
-        answers: data.answers
-      });
+    mutationFn: async (sessionToken: string): Promise<QuizAttempt> => {
+      // Only the session is sent - the server builds and grades the attempt from its locked-in answers
+      const response = await apiRequest("POST", "/api/quiz-attempts", { sessionToken });
       return response.json();
     },
-    onSuccess: (data) => {
-      navigate(`/results/${quiz?.id}/${data.id}`);
+    onSuccess: (data, sessionToken) => {
+      localStorage.removeItem(attemptSessionStorageKey(data.quizId));
+      // Keep the session token: it is what lets this browser review the attempt
+      localStorage.setItem(attemptReviewStorageKey(data.id), sessionToken);
+      navigate(`/results/${data.quizId}/${data.id}`);
     },
-    onError: () => {
+    onError: (error) => {
+      const blockingAttemptId = getBlockingAttemptId(error);
+      if (blockingAttemptId !== null) {
+        handleAlreadyTaken(blockingAttemptId);
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to submit quiz attempt",
@@ -118,8 +114,14 @@ const AnswerQuiz: React.FC<AnswerQuizProps> = ({ params }) => {
     }
   });
 
-  const handleQuizComplete = (answers: QuestionAnswer[], score: number) => {
-    submitAttemptMutation.mutate({ answers, score });
+  // Single-attempt quizzes send repeat takers to the result they already have
+  const handleAlreadyTaken = (attemptId: number) => {
+    if (quiz) localStorage.removeItem(attemptSessionStorageKey(quiz.id));
+    toast({
+      title: "You've already taken this quiz",
+      description: "This quiz allows one attempt per person. Here is your result."
+    });
+    navigate(`/results/${quiz?.id}/${attemptId}`);
   };
 
   if (isLoadingQuiz || isLoadingQuestions) {
@@ -158,14 +160,14 @@ const AnswerQuiz: React.FC<AnswerQuizProps> = ({ params }) => {
           <h3 className="text-lg font-semibold mb-2">How It Works</h3>
           <ul className="list-disc pl-5 mb-4 space-y-1">
             <li>Answer each question to the best of your knowledge</li>
-            <li>Get instant feedback on your answers</li>
+            <li>Lock in one answer per question - you can pause and continue on another device</li>
             <li>See your final score and how you compare to others</li>
             <li>Share your results on social media</li>
           </ul>
           
           <p className="text-muted-foreground">
-            All quizzes remain active for 7 days after creation, after which they're automatically deleted 
-            to maintain data privacy and keep content fresh.
+            Each quiz stays active until the expiry date its creator picked (up to 30 days), after which it's 
+            automatically deleted to maintain data privacy and keep content fresh.
           </p>
         </div>
       </Layout>
@@ -238,13 +240,13 @@ const AnswerQuiz: React.FC<AnswerQuizProps> = ({ params }) => {
     );
   }
   
-  // Check if the quiz has expired (7 days after creation)
-  if (isQuizExpired(quiz.createdAt)) {
+  // Check if the quiz has passed its expiry date
+  if (isQuizExpired(quiz)) {
     return (
       <Layout>
         <MetaTags 
           title="Quiz Expired | QzonMe"
-          description="This quiz has expired after the 7-day limit and is no longer accessible."
+          description="This quiz has expired and is no longer accessible."
         />
         
         <h1 className="text-3xl font-bold mb-6">Quiz Expired</h1>
@@ -256,10 +258,10 @@ const AnswerQuiz: React.FC<AnswerQuizProps> = ({ params }) => {
                 <img src="/favicon.png" alt="QzonMe Logo" className="h-16 w-16" />
               </div>
               <p className="mb-4">
-                This quiz has expired after the 7-day limit and is no longer accessible.
+                This quiz expired on {new Date(quiz.expiresAt).toLocaleDateString()} and is no longer accessible.
               </p>
               <p className="text-sm text-gray-600 mb-6">
-                All quizzes on QzonMe are automatically removed 7 days after creation.<br />
+                All quizzes on QzonMe are automatically removed once they expire.<br />
                 Would you like to find a different quiz?
               </p>
               
@@ -335,7 +337,12 @@ const AnswerQuiz: React.FC<AnswerQuizProps> = ({ params }) => {
         quizId={quiz.id}
         quizCreator={quiz.creatorName}
         questions={questions}
-        onComplete={handleQuizComplete}
+        userName={userName}
+        resumeToken={resumeToken}
+        isSubmitting={submitAttemptMutation.isPending}
+        onComplete={(sessionToken) => submitAttemptMutation.mutate(sessionToken)}
+        onIdentityRequired={redirectToHome}
+        onAlreadyTaken={handleAlreadyTaken}
       />
     </Layout>
   );
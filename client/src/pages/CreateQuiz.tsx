@@ -100,7 +100,7 @@ const CreateQuiz: React.FC = () => {
               <li>See who knows you best on your personalized leaderboard</li>
             </ol>
             <p className="text-muted-foreground">
-              Your quiz will remain active for 7 days, giving everyone plenty of time to participate. No account required!
+              Your quiz will remain active for as long as you choose (up to 30 days), giving everyone plenty of time to participate. No account required!
             </p>
           </CardContent>
         </Card>
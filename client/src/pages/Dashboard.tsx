@@ -1,12 +1,37 @@
 import React, { useEffect } from "react";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import DashboardView from "@/components/quiz/Dashboard";
 import ShareQuiz from "@/components/quiz/ShareQuiz";
-import { Question, QuizAttempt, Quiz } from "@shared/schema";
-import { Loader2, AlertTriangle, Clock } from "lucide-react";
+import QuizEditor from "@/components/quiz/QuizEditor";
+import WebhooksPanel from "@/components/common/WebhooksPanel";
+import {
+  CreatorQuestion,
+  Quiz,
+  QuizAttemptStats,
+  QuizExportImageMode,
+  DEFAULT_QUIZ_LIFETIME_DAYS,
+  RETAKE_POLICIES,
+  RetakePolicy,
+  isQuizExpired,
+} from "@shared/schema";
+import { RETAKE_POLICY_LABELS } from "@/lib/quizUtils";
+import { apiRequest, dashboardAuthHeaders, downloadApiFile } from "@/lib/queryClient";
+import { Loader2, AlertTriangle, Clock, Repeat, Download } from "lucide-react";
 import Layout from "@/components/common/Layout";
 import { Card, CardContent } from "@/components/ui/card"; 
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
+
+// Shown until the first stats arrive
+const EMPTY_STATS: QuizAttemptStats = {
+  totalAttempts: 0,
+  averagePercentage: 0,
+  topPercentage: 0,
+  questions: [],
+};
 
 interface DashboardProps {
   params: {
@@ -17,7 +42,9 @@ interface DashboardProps {
 const Dashboard: React.FC<DashboardProps> = ({ params }) => {
   const { token } = params;
   const queryClient = useQueryClient();
+  const { toast } = useToast();
   const [showShareView, setShowShareView] = React.useState(false);
+  const [isEditing, setIsEditing] = React.useState(false);
 
   // We no longer want to show the share view when coming to dashboard
   // The share view is only shown after quiz creation
@@ -37,127 +64,116 @@ const Dashboard: React.FC<DashboardProps> = ({ params }) => {
   // Use the quizId from the fetched quiz for subsequent queries
   const quizId = quiz?.id;
 
-  // Fetch questions once we have the quizId
-  const { data: questions = [], isLoading: isLoadingQuestions } = useQuery<Question[]>({
-    queryKey: [`/api/quizzes/${quizId}/questions`],
+  // Fetch questions with their answer key - only the dashboard token unlocks these
+  const { data: questions = [], isLoading: isLoadingQuestions } = useQuery<CreatorQuestion[]>({
+    queryKey: [`/api/quizzes/${quizId}/questions/full`],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/quizzes/${quizId}/questions/full`, undefined, dashboardAuthHeaders(token));
+      return response.json();
+    },
     enabled: !!quizId,
   });
 
-  // Track the number of refreshes to trigger complete cache clearing periodically
-  const [refreshCount, setRefreshCount] = React.useState(0);
-  const [lastRefreshTime, setLastRefreshTime] = React.useState(Date.now());
-
-  // Create a unique cache key that changes every time we want to force a complete refresh
-  const cacheKey = React.useMemo(() => 
-    `dashboard-${quizId}-${refreshCount}-${Date.now()}`, 
-    [quizId, refreshCount]
-  );
-  
-  // Use direct state management instead of React Query for attempts data
-  const [attempts, setAttempts] = React.useState<QuizAttempt[]>([]);
-  const [isLoadingAttempts, setIsLoadingAttempts] = React.useState(true);
+  // Dashboard figures are computed on the server; the attempts table pages through the attempts itself
+  const { data: stats, isLoading: isLoadingStats } = useQuery<QuizAttemptStats>({
+    queryKey: [`/api/quizzes/${quizId}/attempts`, "stats"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/quizzes/${quizId}/attempts/stats`, undefined, dashboardAuthHeaders(token));
+      return response.json();
+    },
+    enabled: !!quizId,
+  });
   
-  // Direct fetch function that bypasses all caching mechanisms
-  const fetchAttemptsDirectly = React.useCallback(async () => {
-    if (!quizId) return;
-    
-    try {
-      console.log("Dashboard: Direct fetch attempts");
-      setIsLoadingAttempts(true);
-      
-      // Clear React Query cache for this endpoint before fetching
-      queryClient.removeQueries({ queryKey: [`/api/quizzes/${quizId}/attempts`] });
-      
-      // Add cache busting parameters and headers
-      const cacheBuster = Date.now();
-      const response = await fetch(`/api/quizzes/${quizId}/attempts?t=${cacheBuster}`, {
-        headers: {
-          'Cache-Control': 'no-cache, no-store, must-revalidate',
-          'Pragma': 'no-cache',
-          'Expires': '0'
-        }
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch attempts');
-      }
-      
-      // Get data and handle the new response format
-      const attemptsData = await response.json();
-      
-      // Extract the attempts array from whatever format the server returns
-      const attemptsList = attemptsData.data || attemptsData;
-      const serverTime = attemptsData.serverTime || Date.now();
-      
-      console.log(`Directly fetched ${attemptsList.length} attempts at ${new Date(serverTime).toISOString()}`);
-      
-      // Update state with fresh data
-      setAttempts(attemptsList);
-      setIsLoadingAttempts(false);
-    } catch (error) {
-      console.error('Error directly fetching attempts:', error);
-      setIsLoadingAttempts(false);
-    }
+  // Reload the stats and the attempts table, e.g. after an edit re-graded the attempts
+  const refreshAttempts = React.useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: [`/api/quizzes/${quizId}/attempts`] });
   }, [quizId, queryClient]);
-  
-  // Set up regular direct fetching
-  React.useEffect(() => {
-    if (!quizId) return;
-    
-    // Fetch immediately
-    fetchAttemptsDirectly();
-    
-    // Set up interval for much less frequent refreshes
-    const refreshInterval = setInterval(fetchAttemptsDirectly, 30000); // Every 30 seconds
-    
-    // Return cleanup function
-    return () => {
-      clearInterval(refreshInterval);
-    };
-  }, [quizId, fetchAttemptsDirectly]);
-
-  // Set up a much less frequent hard reload effect (completely separate from the data fetching)
-  React.useEffect(() => {
-    if (!quizId) return;
-    
-    // Function for hard page reload - only used very occasionally
-    const forcePageReload = () => {
-      console.log("FORCE RELOAD: Dashboard page will refresh completely");
-      // Add cache busting parameter to reload fresh - this is the nuclear option
-      window.location.href = `${window.location.pathname}?t=${Date.now()}`;
-    };
-    
-    // Schedule a hard reload every 5 minutes - much less frequent
-    const reloadIntervalId = setInterval(forcePageReload, 300000); // 5 minutes
-    
-    return () => {
-      clearInterval(reloadIntervalId);
-    };
-  }, [quizId]);
+
+  // New attempts are pushed by the server as they are saved; the creator's stream carries their answers
+  const liveStatus = useLiveUpdates(quizId ? `/api/quizzes/${quizId}/attempts/stream` : null, {
+    headers: dashboardAuthHeaders(token),
+    onEvent: (event) => {
+      if (event.type === "closed") return;
+      refreshAttempts();
+      if (event.type === "attempt") {
+        toast({
+          title: "New attempt",
+          description: `${event.attempt.userName} just finished your quiz.`,
+        });
+      }
+    },
+    onReconnected: refreshAttempts,
+  });
+
+  // Extend how long the quiz stays available
+  const [extendDays, setExtendDays] = React.useState(String(DEFAULT_QUIZ_LIFETIME_DAYS));
+  const extendExpiryMutation = useMutation({
+    mutationFn: async (days: number) => {
+      const response = await apiRequest("PATCH", `/api/quizzes/${quizId}/expiry`, { days }, dashboardAuthHeaders(token));
+      return response.json() as Promise<Quiz>;
+    },
+    onSuccess: (updatedQuiz) => {
+      queryClient.setQueryData([`/api/quizzes/dashboard/${token}`], updatedQuiz);
+      toast({
+        title: "Expiry extended",
+        description: `Your quiz now expires on ${formatExpirationDate(updatedQuiz.expiresAt)}.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Could not extend expiry",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Change whether takers may retake the quiz and which score counts
+  const retakePolicyMutation = useMutation({
+    mutationFn: async (retakePolicy: RetakePolicy) => {
+      const response = await apiRequest("PATCH", `/api/quizzes/${quizId}/retake-policy`, { retakePolicy }, dashboardAuthHeaders(token));
+      return response.json() as Promise<Quiz>;
+    },
+    onSuccess: (updatedQuiz) => {
+      queryClient.setQueryData([`/api/quizzes/dashboard/${token}`], updatedQuiz);
+      toast({
+        title: "Retake policy updated",
+        description: `${RETAKE_POLICY_LABELS[updatedQuiz.retakePolicy]}.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Could not update retake policy",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Download the quiz as a JSON file that can be imported again when creating a quiz
+  const [exportImages, setExportImages] = React.useState<QuizExportImageMode>("embed");
+  const exportMutation = useMutation({
+    mutationFn: (images: QuizExportImageMode) =>
+      downloadApiFile(`/api/quizzes/${quizId}/export?images=${images}`, `qzonme-quiz-${quizId}.json`, dashboardAuthHeaders(token)),
+    onError: () => {
+      toast({
+        title: "Could not export quiz",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
 
   // Format expiration date if we have a quiz
-  const formatExpirationDate = (createdAtString: string | Date) => {
-    const createdAt = new Date(createdAtString);
-    const expirationDate = new Date(createdAt);
-    expirationDate.setDate(expirationDate.getDate() + 7);
-    
-    return expirationDate.toLocaleDateString('en-US', {
+  const formatExpirationDate = (expiresAtString: string) => {
+    return new Date(expiresAtString).toLocaleDateString('en-US', {
       year: 'numeric', 
       month: 'long', 
       day: 'numeric'
     });
   };
 
-  // Check if quiz has expired (7 days after creation)
-  const isQuizExpired = (createdAtString: string | Date) => {
-    const createdAt = new Date(createdAtString);
-    const expirationDate = new Date(createdAt);
-    expirationDate.setDate(expirationDate.getDate() + 7);
-    
-    return new Date() > expirationDate;
-  };
-
-  if (isLoadingQuiz || (quizId && (isLoadingQuestions || isLoadingAttempts))) {
+  if (isLoadingQuiz || (quizId && (isLoadingQuestions || isLoadingStats))) {
     return (
       <div className="container mx-auto px-4 py-8">
         <Card>
@@ -188,16 +204,16 @@ const Dashboard: React.FC<DashboardProps> = ({ params }) => {
   }
 
   // Check if the quiz has expired
-  if (isQuizExpired(quiz.createdAt)) {
+  if (isQuizExpired(quiz)) {
     return (
       <div className="container mx-auto px-4 py-8">
         <Card>
           <CardContent className="p-6">
             <div className="text-center">
               <h2 className="text-xl font-bold text-orange-500 mb-2">Quiz Expired</h2>
-              <p>This quiz has expired after the 7-day limit and is no longer accessible.</p>
+              <p>This quiz expired on {formatExpirationDate(quiz.expiresAt)} and is no longer accessible.</p>
               <p className="mt-4 text-sm text-muted-foreground">
-                Quizzes are automatically removed 7 days after creation to keep the platform fresh.
+                Quizzes are automatically removed once they expire to keep the platform fresh.
               </p>
             </div>
           </CardContent>
@@ -210,7 +226,19 @@ const Dashboard: React.FC<DashboardProps> = ({ params }) => {
     return <ShareQuiz accessCode={quiz.accessCode} quizId={quiz.id} urlSlug={quiz.urlSlug} />;
   }
 
-  console.log("Dashboard rendering with attempts:", attempts);
+  if (isEditing) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <QuizEditor
+          quizId={quiz.id}
+          dashboardToken={token}
+          questions={questions}
+          onQuestionsChanged={refreshAttempts}
+          onClose={() => setIsEditing(false)}
+        />
+      </div>
+    );
+  }
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -219,16 +247,109 @@ const Dashboard: React.FC<DashboardProps> = ({ params }) => {
         <Clock className="h-4 w-4 text-amber-600" />
         <AlertTitle>Quiz Expiration</AlertTitle>
         <AlertDescription>
-          This quiz will expire on {formatExpirationDate(quiz.createdAt)}. After this date, 
+          This quiz will expire on {formatExpirationDate(quiz.expiresAt)}. After this date, 
           the quiz and dashboard will no longer be accessible.
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <Select value={extendDays} onValueChange={setExtendDays}>
+              <SelectTrigger className="w-[140px] h-8 bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[1, 3, 7, 14, 30].map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    {days === 1 ? "1 more day" : `${days} more days`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              className="h-8"
+              onClick={() => extendExpiryMutation.mutate(parseInt(extendDays))}
+              disabled={extendExpiryMutation.isPending}
+            >
+              {extendExpiryMutation.isPending ? "Extending..." : "Extend Expiry"}
+            </Button>
+            <span className="text-xs">Quizzes can stay open for up to 30 days from today.</span>
+          </div>
+        </AlertDescription>
+      </Alert>
+      
+      {/* Retake policy */}
+      <Alert className="mb-6">
+        <Repeat className="h-4 w-4" />
+        <AlertTitle>Retakes</AlertTitle>
+        <AlertDescription>
+          Decide whether friends can take your quiz more than once. The leaderboard shows one row per person.
+          <div className="mt-3">
+            <Select
+              value={quiz.retakePolicy}
+              onValueChange={(value) => retakePolicyMutation.mutate(value as RetakePolicy)}
+              disabled={retakePolicyMutation.isPending}
+            >
+              <SelectTrigger className="w-[280px] h-8 bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RETAKE_POLICIES.map((policy) => (
+                  <SelectItem key={policy} value={policy}>
+                    {RETAKE_POLICY_LABELS[policy]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </AlertDescription>
+      </Alert>
+      
+      {/* Export */}
+      <Alert className="mb-6">
+        <Download className="h-4 w-4" />
+        <AlertTitle>Back Up Your Quiz</AlertTitle>
+        <AlertDescription>
+          Download your questions and answers as a file. You can import it when creating a new quiz, even after this one expires.
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <Select value={exportImages} onValueChange={(value) => setExportImages(value as QuizExportImageMode)}>
+              <SelectTrigger className="w-[200px] h-8 bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="embed">Include images in file</SelectItem>
+                <SelectItem value="reference">Link to images</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              className="h-8"
+              onClick={() => exportMutation.mutate(exportImages)}
+              disabled={exportMutation.isPending}
+            >
+              {exportMutation.isPending ? "Exporting..." : "Export Quiz"}
+            </Button>
+          </div>
         </AlertDescription>
       </Alert>
       
       <DashboardView
         quizId={quiz.id}
         accessCode={quiz.accessCode}
+        dashboardToken={token}
         questions={questions}
-        attempts={attempts}
+        stats={stats ?? EMPTY_STATS}
+        liveStatus={liveStatus}
+        onEditQuiz={() => setIsEditing(true)}
+      />
+
+      {/* quiz.created has already happened by the time a quiz can have webhooks */}
+      <WebhooksPanel
+        basePath={`/api/quizzes/${quiz.id}/webhooks`}
+        headers={dashboardAuthHeaders(token)}
+        description="Get a signed POST request on your own server whenever someone finishes your quiz, and when it expires."
+        events={["attempt.completed", "quiz.expired"]}
       />
     </div>
   );
@@ -94,7 +94,7 @@ const FAQ: React.FC = () => {
                         <li>See who has taken your quiz</li>
                         <li>Check scores and rankings on the leaderboard</li>
                         <li>View detailed results for each question</li>
-                        <li>Share your dashboard link to keep tracking results for 7 days</li>
+                        <li>Share your dashboard link to keep tracking results until your quiz expires</li>
                       </ul>
                     </div>
                   </div>
@@ -156,7 +156,7 @@ const FAQ: React.FC = () => {
                       </div>
                     </AccordionTrigger>
                     <AccordionContent>
-                      Quizzes remain active for 7 days from the creation date. After this period, they are automatically deleted along with all results and images. This keeps the platform fresh and ensures data privacy.
+                      When you create a quiz you choose how long it stays active, from 1 to 30 days (7 days by default), and you can extend it later from your dashboard. Once it expires, it is automatically deleted along with all results and images. This keeps the platform fresh and ensures data privacy.
                     </AccordionContent>
                   </AccordionItem>
                   
@@ -192,7 +192,7 @@ const FAQ: React.FC = () => {
                       </div>
                     </AccordionTrigger>
                     <AccordionContent>
-                      QzonMe respects your privacy. All quizzes, results, and uploaded images are automatically deleted after 7 days. We use secure image hosting, and we don't sell or share your personal data with third parties. For more details, please see our Privacy Policy.
+                      QzonMe respects your privacy. All quizzes, results, and uploaded images are automatically deleted once the quiz expires. We use secure image hosting, and we don't sell or share your personal data with third parties. For more details, please see our Privacy Policy.
                     </AccordionContent>
                   </AccordionItem>
                 </Accordion>
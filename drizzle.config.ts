@@ -1,14 +1,13 @@
 import { defineConfig } from "drizzle-kit";
 
-if (!process.env.DATABASE_URL) {
-  throw new Error("DATABASE_URL, ensure the database is provisioned");
-}
-
+// Migrations are generated from shared/schema.ts for SQLite (`npm run db:generate`).
+// The schema is declared with sqlite-core, so the Postgres migrations in ./migrations/postgres
+// are kept by hand as a mirror: every SQLite migration gets a Postgres file with the same tag.
 export default defineConfig({
-  out: "./migrations",
+  out: "./migrations/sqlite",
   schema: "./shared/schema.ts",
-  dialect: "postgresql",
+  dialect: "sqlite",
   dbCredentials: {
-    url: process.env.DATABASE_URL,
+    url: "./quiz_app.db",
   },
 });
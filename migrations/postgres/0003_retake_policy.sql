@@ -0,0 +1 @@
+ALTER TABLE "quizzes" ADD COLUMN "retake_policy" text DEFAULT 'best' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,19 @@
+ALTER TABLE "quiz_attempts" ADD COLUMN "duration_ms" integer;--> statement-breakpoint
+ALTER TABLE "quiz_attempts" ADD COLUMN "counted" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+CREATE INDEX "quiz_attempts_quiz_score_idx" ON "quiz_attempts" ("quiz_id","score","completed_at");--> statement-breakpoint
+CREATE INDEX "quiz_attempts_quiz_completed_idx" ON "quiz_attempts" ("quiz_id","completed_at");--> statement-breakpoint
+-- Only the attempt each taker's retake policy counts stays counted: the most recent one under "latest",
+-- otherwise the best one (the earliest on a tie)
+UPDATE "quiz_attempts" SET "counted" = 0 WHERE EXISTS (
+  SELECT 1 FROM "quiz_attempts" AS "other"
+  JOIN "quizzes" ON "quizzes"."id" = "other"."quiz_id"
+  WHERE "other"."quiz_id" = "quiz_attempts"."quiz_id"
+    AND "other"."user_answer_id" = "quiz_attempts"."user_answer_id"
+    AND CASE WHEN "quizzes"."retake_policy" = 'latest'
+      THEN "other"."completed_at" > "quiz_attempts"."completed_at"
+        OR ("other"."completed_at" = "quiz_attempts"."completed_at" AND "other"."id" > "quiz_attempts"."id")
+      ELSE "other"."score" > "quiz_attempts"."score"
+        OR ("other"."score" = "quiz_attempts"."score" AND "other"."completed_at" < "quiz_attempts"."completed_at")
+        OR ("other"."score" = "quiz_attempts"."score" AND "other"."completed_at" = "quiz_attempts"."completed_at" AND "other"."id" < "quiz_attempts"."id")
+    END
+);
\ No newline at end of file
@@ -0,0 +1,12 @@
+ALTER TABLE "quizzes" ADD COLUMN "url_slug_key" text;--> statement-breakpoint
+-- Backfill: the key is the lowercased slug. Should two old slugs differ only in casing, the older quiz
+-- keeps the plain key and the newer one gets its id appended; its exact slug still finds it.
+UPDATE "quizzes" SET "url_slug_key" = CASE WHEN EXISTS (
+    SELECT 1 FROM "quizzes" AS "other"
+    WHERE lower(trim("other"."url_slug")) = lower(trim("quizzes"."url_slug")) AND "other"."id" < "quizzes"."id"
+  )
+  THEN lower(trim("url_slug")) || '-' || "id"
+  ELSE lower(trim("url_slug"))
+END;--> statement-breakpoint
+ALTER TABLE "quizzes" ALTER COLUMN "url_slug_key" SET NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "quizzes_url_slug_key_unique" ON "quizzes" ("url_slug_key");
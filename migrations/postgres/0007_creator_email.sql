@@ -0,0 +1,2 @@
+ALTER TABLE "quizzes" ADD COLUMN "creator_email" text;--> statement-breakpoint
+ALTER TABLE "quizzes" ADD COLUMN "expiry_reminder_sent_at" text;
\ No newline at end of file
@@ -0,0 +1,29 @@
+CREATE TABLE "webhook_deliveries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"webhook_id" integer NOT NULL,
+	"quiz_id" integer,
+	"event" text NOT NULL,
+	"url" text NOT NULL,
+	"secret" text NOT NULL,
+	"payload" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"next_attempt_at" text,
+	"response_status" integer,
+	"error" text,
+	"created_at" text NOT NULL,
+	"completed_at" text
+);
+--> statement-breakpoint
+CREATE INDEX "webhook_deliveries_status_next_idx" ON "webhook_deliveries" ("status","next_attempt_at");--> statement-breakpoint
+CREATE INDEX "webhook_deliveries_quiz_created_idx" ON "webhook_deliveries" ("quiz_id","created_at");--> statement-breakpoint
+CREATE TABLE "webhooks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"quiz_id" integer,
+	"url" text NOT NULL,
+	"secret" text NOT NULL,
+	"events" text NOT NULL,
+	"created_at" text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "webhooks_quiz_idx" ON "webhooks" ("quiz_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "quiz_attempts" ALTER COLUMN "score" SET DATA TYPE double precision;--> statement-breakpoint
+ALTER TABLE "questions" ADD COLUMN "scoring" text DEFAULT 'all-or-nothing' NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "questions" ADD COLUMN "strictness" text DEFAULT 'normal' NOT NULL;
\ No newline at end of file
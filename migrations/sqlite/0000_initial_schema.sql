@@ -0,0 +1,41 @@
+CREATE TABLE `questions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`quiz_id` integer NOT NULL,
+	`text` text NOT NULL,
+	`type` text NOT NULL,
+	`options` text NOT NULL,
+	`correct_answers` text NOT NULL,
+	`hint` text,
+	`order` integer NOT NULL,
+	`image_url` text
+);
+--> statement-breakpoint
+CREATE TABLE `quiz_attempts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`quiz_id` integer NOT NULL,
+	`user_answer_id` integer NOT NULL,
+	`user_name` text NOT NULL,
+	`score` integer NOT NULL,
+	`total_questions` integer NOT NULL,
+	`answers` text NOT NULL,
+	`completed_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `quizzes` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`creator_id` integer NOT NULL,
+	`creator_name` text NOT NULL,
+	`access_code` text NOT NULL,
+	`url_slug` text NOT NULL,
+	`dashboard_token` text NOT NULL,
+	`created_at` text NOT NULL,
+	`expires_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `quizzes_access_code_unique` ON `quizzes` (`access_code`);--> statement-breakpoint
+CREATE UNIQUE INDEX `quizzes_url_slug_unique` ON `quizzes` (`url_slug`);--> statement-breakpoint
+CREATE UNIQUE INDEX `quizzes_dashboard_token_unique` ON `quizzes` (`dashboard_token`);--> statement-breakpoint
+CREATE TABLE `users` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`username` text NOT NULL
+);
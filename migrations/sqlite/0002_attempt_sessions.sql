@@ -0,0 +1,22 @@
+CREATE TABLE `attempt_session_answers` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`session_id` integer NOT NULL,
+	`question_id` integer NOT NULL,
+	`user_answer` text NOT NULL,
+	`answered_at` text NOT NULL,
+	`time_ms` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `attempt_session_answers_session_question_unique` ON `attempt_session_answers` (`session_id`,`question_id`);--> statement-breakpoint
+CREATE TABLE `attempt_sessions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`token` text NOT NULL,
+	`quiz_id` integer NOT NULL,
+	`user_answer_id` integer NOT NULL,
+	`user_name` text NOT NULL,
+	`started_at` text NOT NULL,
+	`completed_at` text,
+	`attempt_id` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `attempt_sessions_token_unique` ON `attempt_sessions` (`token`);
\ No newline at end of file
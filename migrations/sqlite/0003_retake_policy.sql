@@ -0,0 +1 @@
+ALTER TABLE `quizzes` ADD `retake_policy` text DEFAULT 'best' NOT NULL;
\ No newline at end of file
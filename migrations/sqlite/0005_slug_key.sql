@@ -0,0 +1,34 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_quizzes` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`creator_id` integer NOT NULL,
+	`creator_name` text NOT NULL,
+	`access_code` text NOT NULL,
+	`url_slug` text NOT NULL,
+	`url_slug_key` text NOT NULL,
+	`dashboard_token` text NOT NULL,
+	`created_at` text NOT NULL,
+	`expires_at` text NOT NULL,
+	`retake_policy` text DEFAULT 'best' NOT NULL
+);
+--> statement-breakpoint
+-- Backfill: the key is the lowercased slug. Should two old slugs differ only in casing, the older quiz
+-- keeps the plain key and the newer one gets its id appended; its exact slug still finds it.
+INSERT INTO `__new_quizzes`("id", "creator_id", "creator_name", "access_code", "url_slug", "url_slug_key", "dashboard_token", "created_at", "expires_at", "retake_policy")
+SELECT "id", "creator_id", "creator_name", "access_code", "url_slug",
+  CASE WHEN EXISTS (
+    SELECT 1 FROM `quizzes` AS `other`
+    WHERE lower(trim(`other`.`url_slug`)) = lower(trim(`quizzes`.`url_slug`)) AND `other`.`id` < `quizzes`.`id`
+  )
+    THEN lower(trim(`url_slug`)) || '-' || `id`
+    ELSE lower(trim(`url_slug`))
+  END,
+  "dashboard_token", "created_at", "expires_at", "retake_policy"
+FROM `quizzes`;--> statement-breakpoint
+DROP TABLE `quizzes`;--> statement-breakpoint
+ALTER TABLE `__new_quizzes` RENAME TO `quizzes`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE UNIQUE INDEX `quizzes_access_code_unique` ON `quizzes` (`access_code`);--> statement-breakpoint
+CREATE UNIQUE INDEX `quizzes_url_slug_unique` ON `quizzes` (`url_slug`);--> statement-breakpoint
+CREATE UNIQUE INDEX `quizzes_url_slug_key_unique` ON `quizzes` (`url_slug_key`);--> statement-breakpoint
+CREATE UNIQUE INDEX `quizzes_dashboard_token_unique` ON `quizzes` (`dashboard_token`);
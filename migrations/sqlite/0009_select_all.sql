@@ -0,0 +1,21 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_quiz_attempts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`quiz_id` integer NOT NULL,
+	`user_answer_id` integer NOT NULL,
+	`user_name` text NOT NULL,
+	`score` real NOT NULL,
+	`total_questions` integer NOT NULL,
+	`answers` text NOT NULL,
+	`completed_at` text NOT NULL,
+	`duration_ms` integer,
+	`counted` integer DEFAULT true NOT NULL
+);
+--> statement-breakpoint
+INSERT INTO `__new_quiz_attempts`("id", "quiz_id", "user_answer_id", "user_name", "score", "total_questions", "answers", "completed_at", "duration_ms", "counted") SELECT "id", "quiz_id", "user_answer_id", "user_name", "score", "total_questions", "answers", "completed_at", "duration_ms", "counted" FROM `quiz_attempts`;--> statement-breakpoint
+DROP TABLE `quiz_attempts`;--> statement-breakpoint
+ALTER TABLE `__new_quiz_attempts` RENAME TO `quiz_attempts`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE INDEX `quiz_attempts_quiz_score_idx` ON `quiz_attempts` (`quiz_id`,`score`,`completed_at`);--> statement-breakpoint
+CREATE INDEX `quiz_attempts_quiz_completed_idx` ON `quiz_attempts` (`quiz_id`,`completed_at`);--> statement-breakpoint
+ALTER TABLE `questions` ADD `scoring` text DEFAULT 'all-or-nothing' NOT NULL;
\ No newline at end of file
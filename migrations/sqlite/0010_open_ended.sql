@@ -0,0 +1 @@
+ALTER TABLE `questions` ADD `strictness` text DEFAULT 'normal' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `quiz_images` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`key` text NOT NULL,
+	`url` text NOT NULL,
+	`quiz_id` integer,
+	`created_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `quiz_images_url_unique` ON `quiz_images` (`url`);--> statement-breakpoint
+CREATE INDEX `quiz_images_quiz_idx` ON `quiz_images` (`quiz_id`);
\ No newline at end of file
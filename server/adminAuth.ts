@@ -0,0 +1,127 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { log } from "./log";
+
+declare module "express-session" {
+  interface SessionData {
+    // Set once the admin has logged in
+    adminUsername?: string;
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const HASH_KEY_LENGTH = 64;
+const DEFAULT_ADMIN_USERNAME = "admin";
+const DEFAULT_SESSION_HOURS = 8;
+
+export const ADMIN_SESSION_COOKIE = "qzonme.admin";
+
+// Admin account as configured in the environment
+export interface AdminCredentials {
+  username: string;
+  // "<salt>:<key>" in hex, as made by hashAdminPassword
+  passwordHash: string;
+}
+
+/**
+ * Hashes an admin password for the ADMIN_PASSWORD_HASH variable
+ * @returns "<salt>:<key>", both hex encoded
+ */
+export async function hashAdminPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, HASH_KEY_LENGTH);
+  return `${salt.toString("hex")}:${key.toString("hex")}`;
+}
+
+/**
+ * Checks a password against a hash made by hashAdminPassword in constant time
+ */
+export async function verifyAdminPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [saltHex, keyHex] = passwordHash.split(":");
+  const expected = Buffer.from(keyHex ?? "", "hex");
+  if (!saltHex || expected.length === 0) return false;
+
+  const actual = await scryptAsync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Reads the admin account from ADMIN_USERNAME and ADMIN_PASSWORD_HASH
+ * @returns The credentials, or undefined when no password hash is configured and admin login is off
+ */
+export function getAdminCredentials(): AdminCredentials | undefined {
+  const passwordHash = process.env.ADMIN_PASSWORD_HASH?.trim();
+  if (!passwordHash) return undefined;
+  return { username: process.env.ADMIN_USERNAME?.trim() || DEFAULT_ADMIN_USERNAME, passwordHash };
+}
+
+/**
+ * How long an admin stays logged in, from ADMIN_SESSION_HOURS
+ */
+export function getAdminSessionMaxAge(): number {
+  const hours = Number(process.env.ADMIN_SESSION_HOURS);
+  return (hours > 0 ? hours : DEFAULT_SESSION_HOURS) * 60 * 60 * 1000;
+}
+
+/**
+ * Creates the session middleware of the admin area
+ * Sessions live in Postgres through connect-pg-simple in production, and in this process otherwise.
+ * The cookie is httpOnly and only set once an admin logs in; it expires a fixed time after login.
+ */
+export function createAdminSession(): RequestHandler {
+  const isProduction = process.env.NODE_ENV === "production";
+  const maxAge = getAdminSessionMaxAge();
+
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    if (isProduction) {
+      throw new Error("SESSION_SECRET environment variable is not set for production.");
+    }
+    // Dev sessions do not outlive a restart anyway
+    secret = randomBytes(32).toString("hex");
+  }
+
+  let store: session.Store;
+  if (isProduction) {
+    const PgStore = connectPgSimple(session);
+    store = new PgStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: true,
+      ttl: maxAge / 1000,
+    });
+  } else {
+    const MemoryStore = createMemoryStore(session);
+    store = new MemoryStore({ checkPeriod: 60 * 60 * 1000 });
+  }
+  log(`Using ${isProduction ? "postgres" : "memory"} admin session store`);
+
+  return session({
+    name: ADMIN_SESSION_COOKIE,
+    secret,
+    store,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: isProduction,
+      maxAge,
+    },
+  });
+}
+
+/**
+ * Middleware for admin-only endpoints
+ * Must run after the admin session middleware.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.session?.adminUsername) {
+    return res.status(401).json({ message: "Admin login required" });
+  }
+  next();
+}
@@ -0,0 +1,126 @@
+import type { AnswerStrictness } from '@shared/schema';
+
+/**
+ * Tolerant matching of typed answers against the accepted answers of an open-ended question.
+ * Both sides are normalized first, then compared by edit distance, so "The Beatles!" matches
+ * "beatles" and, unless the question is exact, "Beatels" does too.
+ */
+
+// Words dropped before comparing, so "the Eiffel Tower" and "Eiffel Tower" are the same answer
+const ARTICLES = new Set(['a', 'an', 'the']);
+
+// ASCII, Latin-1, general and CJK punctuation and symbols, which separate words like spaces do
+const PUNCTUATION = /[!-\/:-@[-`{-~\u00a1-\u00bf\u00d7\u00f7\u2010-\u205e\u3000-\u303f]+/g;
+
+// Letters each allowed typo is spread over; an accepted answer shorter than that allows none
+const LETTERS_PER_TYPO: Record<AnswerStrictness, number> = {
+  exact: Infinity,
+  normal: 5,
+  lenient: 3,
+};
+
+// Answers marked wrong within this share of the accepted answer's length (and at least 2 typos)
+// are shown to the creator as near misses
+const NEAR_MISS_SHARE = 0.5;
+const MIN_NEAR_MISS_TYPOS = 2;
+
+export interface AnswerMatch {
+  accepted: boolean;
+  // Accepted answer the typed one came closest to, null when the question has none
+  closestAnswer: string | null;
+  // Typos between the two, after normalization
+  distance: number;
+  // Wrong, but close enough that the creator may want to accept it
+  nearMiss: boolean;
+}
+
+/**
+ * Normalizes a typed answer for comparison
+ * Case, accents, punctuation, extra whitespace and articles are dropped. An answer made only of
+ * articles keeps them, so it still has something to compare.
+ */
+export function normalizeTypedAnswer(answer: string): string {
+  const words = answer
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['\u2019`]/g, '')
+    .replace(PUNCTUATION, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const meaningful = words.filter((word) => !ARTICLES.has(word));
+  return (meaningful.length > 0 ? meaningful : words).join(' ');
+}
+
+/**
+ * Edit distance between two strings, counting an insertion, deletion, substitution or swap of
+ * neighbouring characters as one typo
+ * @param max Distance above which the exact figure does not matter; anything further returns max + 1
+ */
+export function getEditDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforePrevious[j - 2] + 1);
+      }
+      current[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return Math.min(previous[b.length], max + 1);
+}
+
+// Numbers are never forgiven: "1984" is not "1985", however long the rest of the answer is
+function digitsOf(text: string): string {
+  return text.replace(/\D/g, '');
+}
+
+function getAllowedTypos(acceptedAnswer: string, strictness: AnswerStrictness): number {
+  return Math.floor(acceptedAnswer.length / LETTERS_PER_TYPO[strictness]);
+}
+
+function getNearMissTypos(acceptedAnswer: string): number {
+  return Math.max(MIN_NEAR_MISS_TYPOS, Math.ceil(acceptedAnswer.length * NEAR_MISS_SHARE));
+}
+
+/**
+ * Matches a typed answer against the accepted answers of an open-ended question
+ * @param strictness How many typos the question forgives
+ */
+export function matchTypedAnswer(answer: string, acceptedAnswers: string[], strictness: AnswerStrictness): AnswerMatch {
+  const typed = normalizeTypedAnswer(answer);
+  let best: AnswerMatch = { accepted: false, closestAnswer: null, distance: Infinity, nearMiss: false };
+
+  for (const acceptedAnswer of acceptedAnswers) {
+    const expected = normalizeTypedAnswer(acceptedAnswer);
+    const nearMissTypos = getNearMissTypos(expected);
+    const distance = getEditDistance(typed, expected, nearMissTypos);
+    const sameNumbers = digitsOf(typed) === digitsOf(expected);
+
+    const match: AnswerMatch = {
+      accepted: typed.length > 0 && (distance === 0 || (sameNumbers && distance <= getAllowedTypos(expected, strictness))),
+      closestAnswer: acceptedAnswer,
+      distance,
+      nearMiss: typed.length > 0 && distance <= nearMissTypos,
+    };
+    if (match.accepted) return { ...match, nearMiss: false };
+    if (match.distance < best.distance || best.closestAnswer === null) best = match;
+  }
+
+  return best;
+}
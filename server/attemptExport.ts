@@ -0,0 +1,176 @@
+import { once } from 'events';
+import type { Response } from 'express';
+import ExcelJS from 'exceljs';
+import type { AttemptExportFormat, Question, QuestionAnswer, Quiz, QuizAttempt } from '@shared/schema';
+import type { IStorage } from './storage';
+import { rankAttempts } from './attemptPages';
+import { toParsedAttempt } from './serializers';
+
+/**
+ * Spreadsheet export of a quiz's leaderboard: one row per taker, in leaderboard order, with
+ * every answer they gave. Attempts are read and written a batch at a time, so a quiz with
+ * thousands of attempts never has to be held in memory.
+ */
+
+// Attempts read from storage per query
+const ATTEMPT_EXPORT_BATCH_SIZE = 500;
+
+type Cell = string | number | null;
+
+const CONTENT_TYPES: Record<AttemptExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * Column headers: the taker's result, then an answer column and a correct/incorrect column per question
+ * Question columns are headed with the question text, numbered so repeated texts stay apart.
+ */
+function getAttemptExportHeaders(questions: Question[]): string[] {
+  return [
+    'Rank',
+    'Name',
+    'Score',
+    'Total Questions',
+    'Percentage',
+    'Completed At',
+    'Time Taken (s)',
+    ...questions.flatMap((question, index) => [
+      `${index + 1}. ${question.text}`,
+      `${index + 1}. Correct?`,
+    ]),
+  ];
+}
+
+function formatAnswer(answer: QuestionAnswer | undefined): Cell {
+  if (!answer) return null;
+  return Array.isArray(answer.userAnswer) ? answer.userAnswer.join(', ') : answer.userAnswer;
+}
+
+function formatMark(answer: QuestionAnswer | undefined): Cell {
+  if (!answer) return null;
+  return answer.isCorrect ? 'Correct' : 'Incorrect';
+}
+
+function toAttemptExportRow(attempt: QuizAttempt, rank: number, questions: Question[]): Cell[] {
+  const answers = new Map(toParsedAttempt(attempt).answers.map((answer) => [answer.questionId, answer]));
+  return [
+    rank,
+    attempt.userName,
+    attempt.score,
+    attempt.totalQuestions,
+    Math.round((attempt.score / (attempt.totalQuestions || 1)) * 100),
+    attempt.completedAt,
+    attempt.durationMs === null ? null : Math.round(attempt.durationMs / 1000),
+    ...questions.flatMap((question) => {
+      const answer = answers.get(question.id);
+      return [formatAnswer(answer), formatMark(answer)];
+    }),
+  ];
+}
+
+/**
+ * Reads the rows of the export in leaderboard order, a batch of counted attempts at a time
+ */
+async function* readAttemptExportRows(storage: IStorage, quiz: Quiz, questions: Question[]): AsyncGenerator<Cell[][]> {
+  const list = { sort: 'score' as const, countedOnly: true };
+  let after: QuizAttempt | undefined;
+
+  for (;;) {
+    const attempts = await storage.getQuizAttemptsPage(quiz.id, { ...list, after, limit: ATTEMPT_EXPORT_BATCH_SIZE });
+    if (attempts.length === 0) return;
+
+    const ranks = await rankAttempts(storage, quiz.id, list.sort, attempts);
+    yield attempts.map((attempt, index) => toAttemptExportRow(attempt, ranks[index], questions));
+
+    if (attempts.length < ATTEMPT_EXPORT_BATCH_SIZE) return;
+    after = attempts[attempts.length - 1];
+  }
+}
+
+// Waits until the response has room for more, or is gone; false once the client has disconnected
+async function waitForDrain(res: Response): Promise<boolean> {
+  if (res.writableNeedDrain) {
+    await Promise.race([once(res, 'drain'), once(res, 'close')]);
+  }
+  return !res.destroyed;
+}
+
+/**
+ * Quotes a CSV field when it needs it
+ * Text that a spreadsheet would run as a formula (=, +, -, @) is prefixed with a quote,
+ * since names and answers are typed in by takers.
+ */
+function toCsvField(cell: Cell): string {
+  if (cell === null) return '';
+  if (typeof cell === 'number') return String(cell);
+
+  const text = /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvLine(cells: Cell[]): string {
+  return `${cells.map(toCsvField).join(',')}\r\n`;
+}
+
+async function writeCsv(res: Response, headers: string[], rows: AsyncGenerator<Cell[][]>): Promise<void> {
+  // The byte order mark makes Excel read the file as UTF-8
+  res.write(`\uFEFF${toCsvLine(headers)}`);
+
+  for await (const batch of rows) {
+    res.write(batch.map(toCsvLine).join(''));
+    if (!(await waitForDrain(res))) return;
+  }
+  res.end();
+}
+
+async function writeXlsx(res: Response, headers: string[], rows: AsyncGenerator<Cell[][]>): Promise<void> {
+  // Rows are committed as they are written and strings kept inline, so nothing accumulates
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useSharedStrings: false, useStyles: true });
+  const sheet = workbook.addWorksheet('Attempts', { views: [{ state: 'frozen', ySplit: 1 }] });
+
+  const headerRow = sheet.addRow(headers);
+  headerRow.font = { bold: true };
+  headerRow.commit();
+
+  for await (const batch of rows) {
+    for (const row of batch) sheet.addRow(row).commit();
+    if (!(await waitForDrain(res))) return;
+  }
+
+  sheet.commit();
+  await workbook.commit();
+}
+
+/**
+ * Streams the export of a quiz's attempts as the response, with the headers of a file download
+ * Once the download has started, a failure can only cut it short; the caller should destroy the response.
+ */
+export async function streamAttemptExport(
+  res: Response,
+  storage: IStorage,
+  quiz: Quiz,
+  format: AttemptExportFormat,
+): Promise<void> {
+  const questions = await storage.getQuestionsByQuizId(quiz.id);
+  const headers = getAttemptExportHeaders(questions);
+  const rows = readAttemptExportRows(storage, quiz, questions);
+
+  res.setHeader('Content-Type', CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${getAttemptExportFileName(quiz, format)}"`);
+  res.setHeader('Cache-Control', 'no-store');
+
+  if (format === 'xlsx') {
+    await writeXlsx(res, headers, rows);
+  } else {
+    await writeCsv(res, headers, rows);
+  }
+}
+
+/**
+ * File name the export is downloaded as, e.g. `qzonme-attempts-sams-quiz.csv`
+ */
+export function getAttemptExportFileName(quiz: Quiz, format: AttemptExportFormat): string {
+  const name = quiz.urlSlug.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-+|-+$/g, '');
+  return `qzonme-attempts-${name || quiz.id}.${format}`;
+}
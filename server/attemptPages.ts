@@ -0,0 +1,158 @@
+import { z } from "zod";
+import { ATTEMPT_SORTS, type AttemptRank, type AttemptRankQuery, type AttemptSort, type LeaderboardEntry, type QuizAttempt } from "@shared/schema";
+import { haveSameResult, type AttemptCursor, type AttemptListOptions, type IStorage } from "./storage";
+import { toLeaderboardEntries } from "./retakePolicy";
+
+/**
+ * Cursor pagination of a quiz's attempts. A cursor holds the sort position of the last
+ * attempt of a page, so attempts submitted between two requests never shift the pages
+ * that follow, and a deep page costs the same single indexed query as the first one.
+ */
+
+const attemptCursorSchema = z.object({
+  sort: z.enum(ATTEMPT_SORTS),
+  id: z.number().int(),
+  score: z.number(),
+  completedAt: z.string(),
+  durationMs: z.number().int().nullable(),
+});
+
+/**
+ * Encodes the position of an attempt as an opaque, URL-safe cursor
+ */
+export function encodeAttemptCursor(sort: AttemptSort, attempt: AttemptCursor): string {
+  const { id, score, completedAt, durationMs } = attempt;
+  return Buffer.from(JSON.stringify({ sort, id, score, completedAt, durationMs })).toString("base64url");
+}
+
+/**
+ * Reads a cursor made by encodeAttemptCursor
+ * @returns The position, or null when the cursor is malformed or was issued for another sort order
+ */
+export function decodeAttemptCursor(cursor: string, sort: AttemptSort): AttemptCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    const { sort: cursorSort, ...position } = attemptCursorSchema.parse(decoded);
+    return cursorSort === sort ? position : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface AttemptPageResult {
+  attempts: QuizAttempt[];
+  nextCursor: string | null;
+  total: number;
+}
+
+/**
+ * Reads one page of a quiz's attempts
+ * @param storage Storage to read the attempts from
+ * @param quizId Quiz whose attempts are listed
+ * @param options Sort order, page size and the position the page starts after
+ */
+export async function getAttemptPage(
+  storage: IStorage,
+  quizId: number,
+  options: AttemptListOptions & { limit: number; after?: AttemptCursor },
+): Promise<AttemptPageResult> {
+  // One row more than asked tells whether another page follows
+  const [rows, total] = await Promise.all([
+    storage.getQuizAttemptsPage(quizId, { ...options, limit: options.limit + 1 }),
+    storage.countQuizAttempts(quizId, { sort: options.sort, countedOnly: options.countedOnly }),
+  ]);
+
+  const attempts = rows.slice(0, options.limit);
+  const hasMore = rows.length > options.limit;
+  return {
+    attempts,
+    nextCursor: hasMore ? encodeAttemptCursor(options.sort, attempts[attempts.length - 1]) : null,
+    total,
+  };
+}
+
+/**
+ * Ranks a run of consecutive leaderboard attempts
+ * Takers with the same result share a rank and the next result is ranked after all of them
+ * (1, 2, 2, 4); the order's tie-breakers only decide who is listed first.
+ * @param attempts Counted attempts, consecutive in the order of `sort`
+ * @returns The rank of each attempt
+ */
+export async function rankAttempts(
+  storage: IStorage,
+  quizId: number,
+  sort: AttemptSort,
+  attempts: QuizAttempt[],
+): Promise<number[]> {
+  if (attempts.length === 0) return [];
+
+  const [first] = attempts;
+  const list = { sort, countedOnly: true };
+  const [ahead, better] = await Promise.all([
+    storage.countQuizAttempts(quizId, { ...list, relativeTo: { cursor: first, relation: "ahead" } }),
+    storage.countQuizAttempts(quizId, { ...list, relativeTo: { cursor: first, relation: "better" } }),
+  ]);
+
+  // Everything listed before a result that differs from the first one is strictly better
+  let groupStart = 0;
+  return attempts.map((attempt, index) => {
+    if (index > 0 && !haveSameResult(sort, attempt, attempts[index - 1])) groupStart = index;
+    return groupStart === 0 ? better + 1 : ahead + groupStart + 1;
+  });
+}
+
+/**
+ * Turns consecutive counted attempts into ranked leaderboard rows
+ */
+export async function getLeaderboardEntries(
+  storage: IStorage,
+  quizId: number,
+  sort: AttemptSort,
+  attempts: QuizAttempt[],
+): Promise<LeaderboardEntry[]> {
+  const [ranks, entries] = await Promise.all([
+    rankAttempts(storage, quizId, sort, attempts),
+    toLeaderboardEntries(storage, quizId, attempts),
+  ]);
+  return entries.map((entry, index) => ({ ...entry, rank: ranks[index] }));
+}
+
+/**
+ * Finds where the taker who made an attempt stands on the leaderboard
+ * The attempt the retake policy counts for that taker is ranked, not necessarily `attempt` itself.
+ * @param storage Storage to read the leaderboard from
+ * @param attempt Any attempt of the taker
+ * @param query Order to rank in and how many rows to return on each side
+ * @returns The rank, or undefined when the taker has no place in this order (e.g. an untimed attempt under "fastest")
+ */
+export async function getAttemptRank(
+  storage: IStorage,
+  attempt: QuizAttempt,
+  { sort, neighbours }: AttemptRankQuery,
+): Promise<AttemptRank | undefined> {
+  const counted = attempt.counted
+    ? attempt
+    : (await storage.getQuizAttemptsByTaker(attempt.quizId, attempt.userAnswerId)).find((other) => other.counted);
+  if (!counted || (sort === "fastest" && counted.durationMs === null)) return undefined;
+
+  const list = { sort, countedOnly: true };
+  const [total, better, tied, above, below] = await Promise.all([
+    storage.countQuizAttempts(counted.quizId, list),
+    storage.countQuizAttempts(counted.quizId, { ...list, relativeTo: { cursor: counted, relation: "better" } }),
+    storage.countQuizAttempts(counted.quizId, { ...list, relativeTo: { cursor: counted, relation: "tied" } }),
+    neighbours > 0 ? storage.getQuizAttemptsPage(counted.quizId, { ...list, before: counted, limit: neighbours }) : [],
+    neighbours > 0 ? storage.getQuizAttemptsPage(counted.quizId, { ...list, after: counted, limit: neighbours }) : [],
+  ]);
+
+  const entries = await getLeaderboardEntries(storage, counted.quizId, sort, [...above, counted, ...below]);
+  const worse = total - better - tied;
+  return {
+    sort,
+    entry: entries[above.length],
+    total,
+    tiedWith: tied - 1,
+    percentile: total > 1 ? Math.round((worse / (total - 1)) * 100) : 100,
+    above: entries.slice(0, above.length),
+    below: entries.slice(above.length + 1),
+  };
+}
@@ -0,0 +1,96 @@
+import type { NearMissAnswer, Question, QuestionAnswer, QuizAttemptStats } from "@shared/schema";
+import { matchTypedAnswer, normalizeTypedAnswer } from "./answerMatching";
+import { getCorrectAnswers } from "./grading";
+import type { AnswerTally, QuizAttemptAggregates } from "./storage";
+
+// Groups answers that count as the same: select-all answers by the options picked, whatever order
+// they were picked in, and typed answers by their normalized text
+function getAnswerKey(question: Question, userAnswer: QuestionAnswer["userAnswer"]): string {
+  if (Array.isArray(userAnswer)) return [...userAnswer].sort().join(", ");
+  return question.type === "open-ended" ? normalizeTypedAnswer(userAnswer) : String(userAnswer);
+}
+
+/**
+ * Typed answers of an open-ended question that were marked wrong but came close to an accepted answer,
+ * most frequent first, so the creator can accept them
+ * @param tallies The question's answer tallies, earliest first
+ */
+function findNearMisses(question: Question, tallies: AnswerTally[]): NearMissAnswer[] {
+  if (question.type !== "open-ended") return [];
+
+  const acceptedAnswers = getCorrectAnswers(question);
+  const nearMisses = new Map<string, NearMissAnswer>();
+  for (const tally of tallies) {
+    if (tally.isCorrect || Array.isArray(tally.userAnswer)) continue;
+
+    const key = getAnswerKey(question, tally.userAnswer);
+    const existing = nearMisses.get(key);
+    if (existing) {
+      existing.count += tally.count;
+      continue;
+    }
+
+    const match = matchTypedAnswer(tally.userAnswer, acceptedAnswers, question.strictness);
+    if (match.nearMiss && match.closestAnswer !== null) {
+      nearMisses.set(key, { answer: tally.userAnswer.trim(), closestAnswer: match.closestAnswer, count: tally.count });
+    }
+  }
+
+  return Array.from(nearMisses.values()).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Computes the figures of the creator dashboard
+ * The storage counts the attempts and their answers; only the distinct answers reach this point,
+ * where typed answers that count as the same are merged.
+ * @param quizQuestions Current questions of the quiz
+ * @param aggregates Totals and answer tallies of the quiz's attempts
+ */
+export function summarizeAttempts(quizQuestions: Question[], aggregates: QuizAttemptAggregates): QuizAttemptStats {
+  const talliesByQuestion = new Map<number, AnswerTally[]>();
+  const earliestFirst = [...aggregates.answers].sort((a, b) => a.firstAttemptId - b.firstAttemptId);
+  for (const tally of earliestFirst) {
+    const questionTallies = talliesByQuestion.get(tally.questionId) ?? [];
+    questionTallies.push(tally);
+    talliesByQuestion.set(tally.questionId, questionTallies);
+  }
+
+  return {
+    totalAttempts: aggregates.totalAttempts,
+    averagePercentage: Math.round(aggregates.averagePercentage),
+    topPercentage: Math.round(aggregates.topPercentage),
+    questions: quizQuestions.map((question) => {
+      const tallies = talliesByQuestion.get(question.id) ?? [];
+
+      // Each group is shown as the earliest answer given in it
+      const groups = new Map<string, { first: AnswerTally; count: number }>();
+      for (const tally of tallies) {
+        const answerKey = getAnswerKey(question, tally.userAnswer);
+        const group = groups.get(answerKey);
+        if (group) {
+          group.count += tally.count;
+        } else {
+          groups.set(answerKey, { first: tally, count: tally.count });
+        }
+      }
+
+      // On a tie, the answer given first wins
+      let mostCommonKey: string | null = null;
+      for (const [answerKey, group] of Array.from(groups.entries())) {
+        if (mostCommonKey === null || group.count > groups.get(mostCommonKey)!.count) mostCommonKey = answerKey;
+      }
+
+      const mostCommon = mostCommonKey === null ? undefined : groups.get(mostCommonKey)!.first;
+      return {
+        questionId: question.id,
+        answerCount: tallies.reduce((sum, tally) => sum + tally.count, 0),
+        correctCount: tallies.reduce((sum, tally) => sum + (tally.isCorrect ? tally.count : 0), 0),
+        mostCommonAnswer: mostCommon === undefined
+          ? null
+          : Array.isArray(mostCommon.userAnswer) ? mostCommonKey : mostCommon.userAnswer.trim(),
+        isMostCommonAnswerCorrect: mostCommon?.isCorrect ?? false,
+        nearMisses: findNearMisses(question, tallies),
+      };
+    }),
+  };
+}
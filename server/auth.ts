@@ -0,0 +1,115 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import type { Quiz, QuizAttempt } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { log } from "./log";
+
+/**
+ * Reads the dashboard token from the request
+ * Accepts either an `X-Dashboard-Token` header or an `Authorization: Bearer <token>` header.
+ */
+export function getDashboardToken(req: Request): string | undefined {
+  const headerToken = req.get("x-dashboard-token");
+  if (headerToken) return headerToken.trim();
+
+  const authorization = req.get("authorization");
+  if (authorization && authorization.toLowerCase().startsWith("bearer ")) {
+    return authorization.slice("bearer ".length).trim();
+  }
+
+  return undefined;
+}
+
+// Outcome of checking a dashboard token against a quiz: the quiz, or the response to refuse with
+export type DashboardAuthorization =
+  | { quiz: Quiz }
+  | { status: 400 | 401 | 403; message: string };
+
+/**
+ * Checks that the request's dashboard token belongs to the given quiz
+ * @param storage Storage the token is looked up in
+ * @param rawQuizId Quiz ID as sent by the client, in the URL or the body
+ */
+export async function authorizeDashboardToken(
+  storage: IStorage,
+  req: Request,
+  rawQuizId: string,
+): Promise<DashboardAuthorization> {
+  const quizId = parseInt(rawQuizId);
+  if (isNaN(quizId)) {
+    log(`Invalid quiz ID received: ${rawQuizId}`);
+    return { status: 400, message: "Invalid quiz ID" };
+  }
+
+  const token = getDashboardToken(req);
+  if (!token) {
+    return { status: 401, message: "Dashboard token required" };
+  }
+
+  const quiz = await storage.getQuizByDashboardToken(token);
+  if (!quiz || quiz.id !== quizId) {
+    log(`Rejected dashboard token for quiz ${quizId}`);
+    return { status: 403, message: "Invalid dashboard token" };
+  }
+
+  return { quiz };
+}
+
+/**
+ * Creates the middleware for creator-only endpoints under `/api/quizzes/:quizId`
+ * Only lets the request through when the dashboard token belongs to the quiz in the URL.
+ * The authorized quiz is made available to the handler through `getAuthorizedQuiz`.
+ * @param storage Storage the token is looked up in
+ */
+export function createDashboardTokenGuard(storage: IStorage): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const authorization = await authorizeDashboardToken(storage, req, req.params.quizId);
+      if (!("quiz" in authorization)) {
+        return res.status(authorization.status).json({ message: authorization.message });
+      }
+
+      res.locals.quiz = authorization.quiz;
+      next();
+    } catch (error) {
+      log(`Error checking dashboard token: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ message: "Failed to authorize request" });
+    }
+  };
+}
+
+/**
+ * Returns the quiz that the dashboard token guard authorized for this request
+ */
+export function getAuthorizedQuiz(res: Response): Quiz {
+  return res.locals.quiz as Quiz;
+}
+
+/**
+ * Reads the token of the attempt session the request was made from
+ * Sent by the taker as an `X-Attempt-Session-Token` header.
+ */
+export function getAttemptSessionToken(req: Request): string | undefined {
+  return req.get("x-attempt-session-token")?.trim() || undefined;
+}
+
+/**
+ * Whether the request may see an attempt in full, answers included
+ * That is its taker, holding the token of the completed session it was submitted from,
+ * or the quiz creator, holding the quiz's dashboard token.
+ * @param storage Storage the tokens are looked up in
+ */
+export async function canViewAttempt(storage: IStorage, req: Request, attempt: QuizAttempt): Promise<boolean> {
+  const sessionToken = getAttemptSessionToken(req);
+  if (sessionToken) {
+    const session = await storage.getAttemptSessionByToken(sessionToken);
+    if (session?.completedAt && session.attemptId === attempt.id) return true;
+  }
+
+  const dashboardToken = getDashboardToken(req);
+  if (dashboardToken) {
+    const quiz = await storage.getQuizByDashboardToken(dashboardToken);
+    if (quiz?.id === attempt.quizId) return true;
+  }
+
+  return false;
+}
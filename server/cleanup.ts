@@ -1,41 +1,69 @@
-import { db } from './db';
-import { quizzes, questions, quizAttempts } from '@shared/schema';
-import { eq, lt, inArray, sql } from 'drizzle-orm';
-import { cleanupOldQuizImages } from './cloudinary';
-import { log } from './vite'; // Assuming log function is available
+import type { IStorage } from './storage';
+import { imageStorage } from './imageStorage';
+import { dispatchWebhookEvent } from './webhooks';
+import { closeQuizStreams } from './liveUpdates';
+import { log } from './log'; // Assuming log function is available
 
 /**
- * Gets the cutoff date for quiz retention
- * @returns Date object for the cutoff (7 days ago)
+ * Deletes the images of the given quizzes through the configured image storage
+ * Failures are logged per quiz and never stop the database cleanup.
+ * @param storage Storage the quizzes' image records are read from
+ * @param quizIds IDs of the quizzes whose images should be deleted
  */
-function getRetentionCutoffDate(): Date {
-  const now = new Date();
-  // Set cutoff to 7 days ago
-  now.setDate(now.getDate() - 7);
-  return now;
+async function cleanupQuizImages(storage: IStorage, quizIds: number[]) {
+  log(`Cleaning up ${imageStorage.name} images for ${quizIds.length} quizzes...`);
+  
+  for (const quizId of quizIds) {
+    try {
+      // Only images recorded as the quiz's: question image URLs may point at another quiz's images
+      const quizImages = await storage.getQuizImages(quizId);
+      
+      await imageStorage.deleteImagesByQuiz(quizId, quizImages.map((image) => image.key));
+    } catch (imageError) {
+      log(`Error cleaning up images for quiz ${quizId}: ${imageError instanceof Error ? imageError.message : String(imageError)}`, 'cleanup');
+      // Continue with database cleanup even if image cleanup fails
+    }
+  }
+}
+
+/**
+ * Deletes quizzes together with everything that belongs to them
+ * - Deletes associated images from the image storage (best effort)
+ * - Deletes associated attempts, questions and the quizzes themselves
+ * - Ends the quizzes' live update streams
+ * The storage removes the rows all or nothing, so a quiz is never left half deleted.
+ * Used both by the scheduled cleanup and when a creator deletes their quiz.
+ * @param storage Storage the quizzes live in
+ * @param quizIds IDs of the quizzes to delete
+ */
+export async function deleteQuizzesWithRelatedData(storage: IStorage, quizIds: number[]) {
+  if (quizIds.length === 0) return;
+  
+  await cleanupQuizImages(storage, quizIds);
+  await storage.deleteQuizzes(quizIds);
+  closeQuizStreams(quizIds);
+  
+  log(`Deleted quizzes with their questions and attempts: ${quizIds.join(', ')}`);
 }
 
 /**
  * Cleans up expired quizzes and their related data
- * - Deletes quizzes older than 7 days
+ * - Deletes quizzes whose expiry date has passed
  * - Deletes associated questions
  * - Deletes associated attempts
- * - Deletes associated images from Cloudinary
+ * - Deletes associated images from the image storage
+ * - Sends the quiz.expired webhook event first
+ * @param storage Storage to clean up
  * @returns Promise resolving to cleanup results
  */
-export async function cleanupExpiredQuizzes() {
+export async function cleanupExpiredQuizzes(storage: IStorage) {
   try {
     log('Starting cleanup of expired quizzes...');
-    const cutoffDate = getRetentionCutoffDate();
-    const cutoffDateString = cutoffDate.toISOString(); // Convert to ISO string for SQLite comparison
-    log(`Cutoff date for expired quizzes: ${cutoffDateString}`);
+    const now = new Date();
+    log(`Cleaning up quizzes that expired before: ${now.toISOString()}`);
     
-    // First, get all expired quizzes (older than 7 days)
-    // Use the ISO string for comparison with the TEXT createdAt column in SQLite
-    const expiredQuizzes = await db
-      .select()
-      .from(quizzes)
-      .where(lt(quizzes.createdAt, cutoffDateString)); 
+    // First, get all quizzes whose expiry date has passed
+    const expiredQuizzes = await storage.getExpiredQuizzes(now);
     
     log(`Found ${expiredQuizzes.length} expired quizzes to clean up`);
     
@@ -47,35 +75,17 @@ export async function cleanupExpiredQuizzes() {
       };
     }
     
-    const expiredQuizIds = expiredQuizzes.map(quiz => quiz.id);
-    
-    // Clean up related images from Cloudinary
-    try {
-      log(`Cleaning up images for ${expiredQuizIds.length} expired quizzes...`);
-      await cleanupOldQuizImages(expiredQuizIds);
-    } catch (imageError) {
-      log(`Error cleaning up images: ${imageError instanceof Error ? imageError.message : String(imageError)}`, 'cleanup');
-      // Continue with database cleanup even if image cleanup fails
+    // Queue quiz.expired before the quizzes' webhooks are deleted with them
+    for (const quiz of expiredQuizzes) {
+      try {
+        await dispatchWebhookEvent(storage, 'quiz.expired', quiz);
+      } catch (webhookError) {
+        log(`Error queueing quiz.expired webhooks for quiz ${quiz.id}: ${webhookError instanceof Error ? webhookError.message : String(webhookError)}`, 'cleanup');
+      }
     }
     
-    // Delete associated attempts
-    const attemptDeleteResult = await db
-      .delete(quizAttempts)
-      .where(inArray(quizAttempts.quizId, expiredQuizIds)); // Use inArray directly as we know the array is not empty here
-    
-    log(`Deleted quiz attempts for expired quizzes`);
-    
-    // Delete associated questions
-    const questionDeleteResult = await db
-      .delete(questions)
-      .where(inArray(questions.quizId, expiredQuizIds)); // Use inArray directly
-    
-    log(`Deleted questions for expired quizzes`);
-    
-    // Finally, delete the expired quizzes
-    const quizDeleteResult = await db
-      .delete(quizzes)
-      .where(inArray(quizzes.id, expiredQuizIds)); // Use inArray directly
+    const expiredQuizIds = expiredQuizzes.map(quiz => quiz.id);
+    await deleteQuizzesWithRelatedData(storage, expiredQuizIds);
     
     log(`Deleted ${expiredQuizzes.length} expired quizzes`);
     
@@ -97,17 +107,18 @@ export async function cleanupExpiredQuizzes() {
 
 /**
  * Schedule the cleanup task to run daily
+ * @param storage Storage to clean up
  * @param initialDelay Initial delay in milliseconds before first run
  * @returns The interval ID
  */
-export function scheduleCleanupTask(initialDelay: number = 0) {
+export function scheduleCleanupTask(storage: IStorage, initialDelay: number = 0) {
   log(`Scheduling daily cleanup task (initial delay: ${initialDelay}ms)`);
   
   // Run the task immediately after the initial delay
   const initialTimeoutId = setTimeout(async () => {
     log('Running initial cleanup task...');
     try {
-      const result = await cleanupExpiredQuizzes();
+      const result = await cleanupExpiredQuizzes(storage);
       log(`Initial cleanup completed: ${JSON.stringify(result)}`);
     } catch (error) {
       log(`Error in initial cleanup: ${error instanceof Error ? error.message : String(error)}`, 'cleanup');
@@ -117,7 +128,7 @@ export function scheduleCleanupTask(initialDelay: number = 0) {
     const intervalId = setInterval(async () => {
       log('Running scheduled cleanup task...');
       try {
-        const result = await cleanupExpiredQuizzes();
+        const result = await cleanupExpiredQuizzes(storage);
         log(`Scheduled cleanup completed: ${JSON.stringify(result)}`);
       } catch (error) {
         log(`Error in scheduled cleanup: ${error instanceof Error ? error.message : String(error)}`, 'cleanup');
@@ -0,0 +1,840 @@
+import { 
+  users, type User, type InsertUser,
+  quizzes, type Quiz, type InsertQuiz,
+  questions, type Question, type InsertQuestion,
+  quizAttempts, type QuizAttempt, type InsertQuizAttempt,
+  attemptSessions, type AttemptSession, type InsertAttemptSession,
+  attemptSessionAnswers, type AttemptSessionAnswer, type InsertAttemptSessionAnswer,
+  rateLimits, type RateLimit,
+  contactMessages, type ContactMessage, type InsertContactMessage,
+  webhooks, type Webhook, type InsertWebhook,
+  webhookDeliveries, type WebhookDelivery, type InsertWebhookDelivery,
+  quizImages, type QuizImage, type InsertQuizImage,
+  type ContactMessageStatus,
+  type ContactMessageQuery,
+  type UpdateContactMessage,
+  type QuizWithQuestions,
+  type RetakePolicy,
+  type AttemptSort,
+  normalizeUrlSlug,
+  parseJsonField,
+  type QuestionAnswer,
+  isQuizExpired as hasQuizExpired
+} from "@shared/schema";
+import { db, dialect, withTransaction } from "./db";
+import { eq, ne, and, or, gt, lt, asc, desc, count, inArray, isNull, isNotNull, lte, sql, type SQL } from "drizzle-orm";
+import {
+  ATTEMPT_SORT_KEYS,
+  countByContactMessageStatus,
+  type AttemptCursor,
+  type AttemptListOptions,
+  type AttemptPageBoundary,
+  type AttemptRelation,
+  type AttemptSessionCompletion,
+  type IStorage,
+  type QuizAttemptAggregates,
+  type WebhookDeliveryUpdate,
+} from "./storage";
+
+// Database storage implementation using Drizzle ORM
+// Only loaded when the server runs on a database, see createStorage in ./storage
+
+const attemptSortColumns = {
+  id: quizAttempts.id,
+  score: quizAttempts.score,
+  completedAt: quizAttempts.completedAt,
+  durationMs: quizAttempts.durationMs,
+};
+
+function getAttemptListFilter(quizId: number, { sort, countedOnly }: AttemptListOptions): SQL | undefined {
+  return and(
+    eq(quizAttempts.quizId, quizId),
+    countedOnly ? eq(quizAttempts.counted, true) : undefined,
+    sort === "fastest" ? isNotNull(quizAttempts.durationMs) : undefined,
+  );
+}
+
+// The first key of an order is the result attempts are ranked by; the others only break ties
+// Matches the attempts sorted after `cursor` ("after") or ahead of it ("before")
+function getKeysetFilter(sort: AttemptSort, cursor: AttemptCursor, side: "after" | "before"): SQL | undefined {
+  const keys = ATTEMPT_SORT_KEYS[sort];
+  return or(...keys.map((key, index) => {
+    const column = attemptSortColumns[key.field];
+    const value = cursor[key.field] as string | number;
+    const ties = keys.slice(0, index).map((tie) => eq(attemptSortColumns[tie.field], cursor[tie.field] as string | number));
+    const isGreater = (key.direction === "asc") === (side === "after");
+    return and(...ties, isGreater ? gt(column, value) : lt(column, value));
+  }));
+}
+
+function getRelationFilter(sort: AttemptSort, { cursor, relation }: AttemptRelation): SQL | undefined {
+  if (relation === "ahead") return getKeysetFilter(sort, cursor, "before");
+
+  const [result] = ATTEMPT_SORT_KEYS[sort];
+  const column = attemptSortColumns[result.field];
+  const value = cursor[result.field] as string | number;
+  if (relation === "tied") return eq(column, value);
+  return result.direction === "asc" ? lt(column, value) : gt(column, value);
+}
+
+function getAttemptOrderBy(sort: AttemptSort, reverse = false): SQL[] {
+  return ATTEMPT_SORT_KEYS[sort].map((key) =>
+    (key.direction === "asc") !== reverse ? asc(attemptSortColumns[key.field]) : desc(attemptSortColumns[key.field])
+  );
+}
+
+// Messages whose name, email or message contain `search`, ignoring case
+function getContactMessageSearchFilter(search: string | undefined): SQL | undefined {
+  if (!search) return undefined;
+  // % and _ in the search are literal characters, not wildcards
+  const pattern = `%${search.toLowerCase().replace(/[\\%_]/g, (character) => `\\${character}`)}%`;
+  return or(
+    ...[contactMessages.name, contactMessages.email, contactMessages.message]
+      .map((column) => sql`lower(${column}) like ${pattern} escape '\\'`)
+  );
+}
+
+// A quiz's webhooks or deliveries, or the admins' when `quizId` is null
+function getWebhookOwnerFilter(column: typeof webhooks.quizId | typeof webhookDeliveries.quizId, quizId: number | null): SQL {
+  return quizId === null ? isNull(column) : eq(column, quizId);
+}
+
+// An answer tally as the database returns it: the answer as JSON text, numbers possibly as strings
+type AnswerTallyRow = {
+  questionId: number | string;
+  userAnswer: string;
+  isCorrect: boolean | number;
+  count: number | string;
+  firstAttemptId: number | string;
+};
+
+/**
+ * Counts the answers of a quiz's attempts per question and distinct answer
+ * Each attempt stores its answers as a JSON array, which each dialect unnests its own way.
+ */
+async function selectAnswerTallies(quizId: number): Promise<AnswerTallyRow[]> {
+  if (dialect === "postgres") {
+    const result = await (db as unknown as { execute(query: SQL): Promise<{ rows: AnswerTallyRow[] }> }).execute(sql`
+      SELECT (answer.value ->> 'questionId')::int AS "questionId",
+        (answer.value -> 'userAnswer')::text AS "userAnswer",
+        coalesce((answer.value ->> 'isCorrect')::boolean, false) AS "isCorrect",
+        count(*)::int AS "count",
+        min(${quizAttempts.id}) AS "firstAttemptId"
+      FROM ${quizAttempts} CROSS JOIN LATERAL json_array_elements(${quizAttempts.answers}::json) AS answer(value)
+      WHERE ${quizAttempts.quizId} = ${quizId}
+      GROUP BY 1, 2, 3`);
+    return result.rows;
+  }
+
+  return db.all<AnswerTallyRow>(sql`
+    SELECT answer.value ->> '$.questionId' AS "questionId",
+      answer.value -> '$.userAnswer' AS "userAnswer",
+      coalesce(answer.value ->> '$.isCorrect', 0) AS "isCorrect",
+      count(*) AS "count",
+      min(${quizAttempts.id}) AS "firstAttemptId"
+    FROM ${quizAttempts}, json_each(${quizAttempts.answers}) AS answer
+    WHERE ${quizAttempts.quizId} = ${quizId}
+    GROUP BY 1, 2, 3`);
+}
+
+export class DatabaseStorage implements IStorage {
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+  
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+  
+  async createUser(insertUser: InsertUser): Promise<User> {
+    // Validate the username is not empty
+    if (!insertUser.username || !insertUser.username.trim()) {
+      throw new Error("Username is required");
+    }
+    
+    const [user] = await db.insert(users).values(insertUser).returning();
+    return user;
+  }
+  
+  // Quiz methods
+  async getQuiz(id: number): Promise<Quiz | undefined> {
+    const [quiz] = await db.select().from(quizzes).where(eq(quizzes.id, id));
+    return quiz;
+  }
+  
+  async getAllQuizzes(): Promise<Quiz[]> {
+    return db.select().from(quizzes);
+  }
+  
+  async getQuizByAccessCode(accessCode: string): Promise<Quiz | undefined> {
+    const [quiz] = await db
+      .select()
+      .from(quizzes)
+      .where(eq(quizzes.accessCode, accessCode));
+    return quiz;
+  }
+  
+  async getQuizByUrlSlug(urlSlug: string): Promise<Quiz | undefined> {
+    // Both columns are uniquely indexed; the exact slug only differs from the key's match
+    // for the few old quizzes whose slugs clashed once lowercased
+    const [quiz] = await db
+      .select()
+      .from(quizzes)
+      .where(or(eq(quizzes.urlSlug, urlSlug), eq(quizzes.urlSlugKey, normalizeUrlSlug(urlSlug))))
+      .orderBy(desc(sql`${quizzes.urlSlug} = ${urlSlug}`))
+      .limit(1);
+    return quiz;
+  }
+  
+  async getQuizByDashboardToken(token: string): Promise<Quiz | undefined> {
+    const [quiz] = await db
+      .select()
+      .from(quizzes)
+      .where(eq(quizzes.dashboardToken, token));
+    return quiz;
+  }
+  
+  async createQuiz(insertQuiz: InsertQuiz): Promise<Quiz> {
+    // Validate required fields
+    if (!insertQuiz.creatorName || !insertQuiz.creatorName.trim()) {
+      console.error("Empty creator name received");
+      throw new Error("Creator name is required");
+    }
+    
+    if (!insertQuiz.accessCode || !insertQuiz.urlSlug || !insertQuiz.dashboardToken) {
+      console.error("Required quiz fields missing", { 
+        hasAccessCode: !!insertQuiz.accessCode, 
+        hasUrlSlug: !!insertQuiz.urlSlug,
+        hasDashboardToken: !!insertQuiz.dashboardToken
+      });
+      throw new Error("Required quiz fields are missing");
+    }
+    
+    console.log(`Creating quiz with creator: "${insertQuiz.creatorName}", slug: "${insertQuiz.urlSlug}"`);
+    
+    // Create the quiz
+    const [quiz] = await db
+      .insert(quizzes)
+      .values({ ...insertQuiz, urlSlugKey: normalizeUrlSlug(insertQuiz.urlSlug) })
+      .returning();
+    
+    return quiz;
+  }
+  
+  // Creates the quiz and all of its questions atomically, so a failed question insert
+  // never leaves a half-built quiz behind
+  async createQuizWithQuestions(
+    insertQuiz: InsertQuiz,
+    insertQuestions: Omit<InsertQuestion, "quizId">[]
+  ): Promise<QuizWithQuestions> {
+    return withTransaction(async (tx) => {
+      const [quiz] = await tx
+        .insert(quizzes)
+        .values({ ...insertQuiz, urlSlugKey: normalizeUrlSlug(insertQuiz.urlSlug) })
+        .returning();
+      
+      const createdQuestions = await tx
+        .insert(questions)
+        .values(insertQuestions.map((question) => ({ ...question, quizId: quiz.id })))
+        .returning();
+      
+      // Images uploaded while the quiz was being created belong to no quiz yet
+      const imageUrls = createdQuestions
+        .map((question) => question.imageUrl)
+        .filter((imageUrl): imageUrl is string => !!imageUrl);
+      if (imageUrls.length > 0) {
+        await tx
+          .update(quizImages)
+          .set({ quizId: quiz.id })
+          .where(and(inArray(quizImages.url, imageUrls), isNull(quizImages.quizId)));
+      }
+      
+      return { ...quiz, questions: createdQuestions };
+    });
+  }
+  
+  async updateQuizExpiry(id: number, expiresAt: string): Promise<Quiz | undefined> {
+    // A new expiry needs a new reminder
+    const [quiz] = await db
+      .update(quizzes)
+      .set({ expiresAt, expiryReminderSentAt: null })
+      .where(eq(quizzes.id, id))
+      .returning();
+    
+    return quiz;
+  }
+  
+  async updateQuizRetakePolicy(id: number, retakePolicy: RetakePolicy): Promise<Quiz | undefined> {
+    const [quiz] = await db
+      .update(quizzes)
+      .set({ retakePolicy })
+      .where(eq(quizzes.id, id))
+      .returning();
+    
+    return quiz;
+  }
+  
+  async getExpiredQuizzes(now: Date): Promise<Quiz[]> {
+    // ISO timestamps compare correctly as text
+    return db
+      .select()
+      .from(quizzes)
+      .where(lte(quizzes.expiresAt, now.toISOString()));
+  }
+  
+  async getQuizzesDueForExpiryReminder(now: Date, remindBefore: Date): Promise<Quiz[]> {
+    return db
+      .select()
+      .from(quizzes)
+      .where(and(
+        isNotNull(quizzes.creatorEmail),
+        isNull(quizzes.expiryReminderSentAt),
+        gt(quizzes.expiresAt, now.toISOString()),
+        lte(quizzes.expiresAt, remindBefore.toISOString()),
+      ));
+  }
+  
+  async markExpiryReminderSent(id: number, sentAt: Date): Promise<boolean> {
+    const updated = await db
+      .update(quizzes)
+      .set({ expiryReminderSentAt: sentAt.toISOString() })
+      .where(and(eq(quizzes.id, id), isNull(quizzes.expiryReminderSentAt)))
+      .returning({ id: quizzes.id });
+    
+    return updated.length > 0;
+  }
+  
+  async deleteQuizzes(quizIds: number[]): Promise<void> {
+    if (quizIds.length === 0) return;
+    
+    await withTransaction(async (tx) => {
+      const sessionIds = tx
+        .select({ id: attemptSessions.id })
+        .from(attemptSessions)
+        .where(inArray(attemptSessions.quizId, quizIds));
+      await tx
+        .delete(attemptSessionAnswers)
+        .where(inArray(attemptSessionAnswers.sessionId, sessionIds));
+      
+      await tx
+        .delete(attemptSessions)
+        .where(inArray(attemptSessions.quizId, quizIds));
+      
+      await tx
+        .delete(quizAttempts)
+        .where(inArray(quizAttempts.quizId, quizIds));
+      
+      await tx
+        .delete(questions)
+        .where(inArray(questions.quizId, quizIds));
+      
+      await tx
+        .delete(quizImages)
+        .where(inArray(quizImages.quizId, quizIds));
+      
+      // Pending deliveries are kept until they settle, so a quiz.expired event still goes out
+      await tx
+        .delete(webhooks)
+        .where(inArray(webhooks.quizId, quizIds));
+      await tx
+        .delete(webhookDeliveries)
+        .where(and(inArray(webhookDeliveries.quizId, quizIds), ne(webhookDeliveries.status, "pending")));
+      
+      await tx
+        .delete(quizzes)
+        .where(inArray(quizzes.id, quizIds));
+    });
+  }
+  
+  // Question methods
+  async getQuestion(id: number): Promise<Question | undefined> {
+    const [question] = await db
+      .select()
+      .from(questions)
+      .where(eq(questions.id, id));
+    
+    return question;
+  }
+  
+  async getQuestionsByQuizId(quizId: number): Promise<Question[]> {
+    const result = await db
+      .select()
+      .from(questions)
+      .where(eq(questions.quizId, quizId))
+      .orderBy(questions.order);
+    
+    return result;
+  }
+  
+  async createQuestion(insertQuestion: InsertQuestion): Promise<Question> {
+    const [question] = await db
+      .insert(questions)
+      .values(insertQuestion)
+      .returning();
+    
+    return question;
+  }
+  
+  async updateQuestion(
+    id: number,
+    updates: Partial<Omit<InsertQuestion, "quizId">>
+  ): Promise<Question | undefined> {
+    const [question] = await db
+      .update(questions)
+      .set(updates)
+      .where(eq(questions.id, id))
+      .returning();
+    
+    return question;
+  }
+  
+  async deleteQuestion(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(questions)
+      .where(eq(questions.id, id))
+      .returning({ id: questions.id });
+    
+    return deleted.length > 0;
+  }
+  
+  // Rewrites the order of every listed question in one transaction, so takers never
+  // see a half-applied ordering
+  async reorderQuestions(quizId: number, questionIds: number[]): Promise<Question[]> {
+    return withTransaction(async (tx) => {
+      for (let index = 0; index < questionIds.length; index++) {
+        await tx
+          .update(questions)
+          .set({ order: index })
+          .where(and(eq(questions.id, questionIds[index]), eq(questions.quizId, quizId)));
+      }
+      
+      return tx
+        .select()
+        .from(questions)
+        .where(eq(questions.quizId, quizId))
+        .orderBy(questions.order);
+    });
+  }
+  
+  // Quiz image methods
+  async createQuizImage(insertImage: InsertQuizImage): Promise<QuizImage> {
+    const [image] = await db
+      .insert(quizImages)
+      .values(insertImage)
+      .returning();
+    
+    return image;
+  }
+  
+  async getQuizImages(quizId: number): Promise<QuizImage[]> {
+    return db
+      .select()
+      .from(quizImages)
+      .where(eq(quizImages.quizId, quizId));
+  }
+  
+  // Quiz Attempt methods
+  async getQuizAttempt(id: number): Promise<QuizAttempt | undefined> {
+    const [attempt] = await db
+      .select()
+      .from(quizAttempts)
+      .where(eq(quizAttempts.id, id));
+    
+    return attempt;
+  }
+  
+  async getQuizAttempts(quizId: number): Promise<QuizAttempt[]> {
+    return db
+      .select()
+      .from(quizAttempts)
+      .where(eq(quizAttempts.quizId, quizId))
+      .orderBy(quizAttempts.id);
+  }
+  
+  async getQuizAttemptsPage(
+    quizId: number,
+    options: AttemptListOptions & AttemptPageBoundary & { limit: number }
+  ): Promise<QuizAttempt[]> {
+    const { sort, after, before, limit } = options;
+    if (before) {
+      // Walks up from `before` in reverse order, then hands the rows back in list order
+      const rows = await db
+        .select()
+        .from(quizAttempts)
+        .where(and(getAttemptListFilter(quizId, options), getKeysetFilter(sort, before, "before")))
+        .orderBy(...getAttemptOrderBy(sort, true))
+        .limit(limit);
+      return rows.reverse();
+    }
+    
+    return db
+      .select()
+      .from(quizAttempts)
+      .where(and(
+        getAttemptListFilter(quizId, options),
+        after ? getKeysetFilter(sort, after, "after") : undefined,
+      ))
+      .orderBy(...getAttemptOrderBy(sort))
+      .limit(limit);
+  }
+  
+  async countQuizAttempts(quizId: number, options: AttemptListOptions & { relativeTo?: AttemptRelation }): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(quizAttempts)
+      .where(and(
+        getAttemptListFilter(quizId, options),
+        options.relativeTo ? getRelationFilter(options.sort, options.relativeTo) : undefined,
+      ));
+    
+    return result.count;
+  }
+  
+  async getQuizAttemptAggregates(quizId: number): Promise<QuizAttemptAggregates> {
+    const percentage = sql`${quizAttempts.score} * 100.0 / CASE WHEN ${quizAttempts.totalQuestions} = 0 THEN 1 ELSE ${quizAttempts.totalQuestions} END`;
+    const [totals] = await db
+      .select({
+        totalAttempts: count(),
+        averagePercentage: sql<number>`coalesce(avg(${percentage}), 0)`.mapWith(Number),
+        topPercentage: sql<number>`coalesce(max(${percentage}), 0)`.mapWith(Number),
+      })
+      .from(quizAttempts)
+      .where(eq(quizAttempts.quizId, quizId));
+
+    const rows = await selectAnswerTallies(quizId);
+    return {
+      ...totals,
+      answers: rows.map((row) => ({
+        questionId: Number(row.questionId),
+        userAnswer: parseJsonField<QuestionAnswer["userAnswer"]>(row.userAnswer) ?? "",
+        isCorrect: Boolean(row.isCorrect),
+        count: Number(row.count),
+        firstAttemptId: Number(row.firstAttemptId),
+      })),
+    };
+  }
+  
+  async getQuizAttemptsByTaker(quizId: number, userAnswerId: number): Promise<QuizAttempt[]> {
+    return db
+      .select()
+      .from(quizAttempts)
+      .where(and(eq(quizAttempts.quizId, quizId), eq(quizAttempts.userAnswerId, userAnswerId)))
+      .orderBy(quizAttempts.id);
+  }
+  
+  async getQuizAttemptsByTakers(quizId: number, userAnswerIds: number[]): Promise<QuizAttempt[]> {
+    if (userAnswerIds.length === 0) return [];
+    
+    return db
+      .select()
+      .from(quizAttempts)
+      .where(and(eq(quizAttempts.quizId, quizId), inArray(quizAttempts.userAnswerId, userAnswerIds)))
+      .orderBy(quizAttempts.id);
+  }
+  
+  async setCountedAttempts(quizId: number, attemptIds: number[], userAnswerId?: number): Promise<void> {
+    // A single statement, so readers never see a taker with zero or two counted attempts
+    const isCounted = attemptIds.length > 0 ? inArray(quizAttempts.id, attemptIds) : sql`1 = 0`;
+    await db
+      .update(quizAttempts)
+      .set({ counted: sql`CASE WHEN ${isCounted} THEN 1 ELSE 0 END` })
+      .where(and(
+        eq(quizAttempts.quizId, quizId),
+        userAnswerId !== undefined ? eq(quizAttempts.userAnswerId, userAnswerId) : undefined,
+      ));
+  }
+  
+  async createQuizAttempt(insertAttempt: InsertQuizAttempt): Promise<QuizAttempt> {
+    const [attempt] = await db
+      .insert(quizAttempts)
+      .values(insertAttempt)
+      .returning();
+    
+    return attempt;
+  }
+  
+  async updateQuizAttemptGrade(
+    id: number,
+    grade: Pick<InsertQuizAttempt, "score" | "totalQuestions" | "answers">
+  ): Promise<void> {
+    await db
+      .update(quizAttempts)
+      .set(grade)
+      .where(eq(quizAttempts.id, id));
+  }
+  
+  // Attempt session methods
+  async createAttemptSession(insertSession: InsertAttemptSession): Promise<AttemptSession> {
+    const [session] = await db
+      .insert(attemptSessions)
+      .values(insertSession)
+      .returning();
+    
+    return session;
+  }
+  
+  async getAttemptSessionByToken(token: string): Promise<AttemptSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(attemptSessions)
+      .where(eq(attemptSessions.token, token));
+    
+    return session;
+  }
+  
+  async getAttemptSessionAnswers(sessionId: number): Promise<AttemptSessionAnswer[]> {
+    return db
+      .select()
+      .from(attemptSessionAnswers)
+      .where(eq(attemptSessionAnswers.sessionId, sessionId))
+      .orderBy(attemptSessionAnswers.id);
+  }
+  
+  async lockAttemptSessionAnswer(insertAnswer: InsertAttemptSessionAnswer): Promise<AttemptSessionAnswer | undefined> {
+    // The unique (session, question) index turns a second answer into a no-op
+    const [answer] = await db
+      .insert(attemptSessionAnswers)
+      .values(insertAnswer)
+      .onConflictDoNothing()
+      .returning();
+    
+    return answer;
+  }
+  
+  async completeAttemptSession(
+    sessionId: number,
+    insertAttempt: InsertQuizAttempt,
+    retakePolicy: RetakePolicy,
+  ): Promise<AttemptSessionCompletion> {
+    return withTransaction(async (tx) => {
+      // Submissions by the same taker wait for each other, so the check below sees every earlier attempt.
+      // SQLite transactions already run one at a time.
+      if (dialect === "postgres") {
+        await (tx as unknown as { execute(query: SQL): Promise<unknown> }).execute(
+          sql`SELECT pg_advisory_xact_lock(${insertAttempt.quizId}, ${insertAttempt.userAnswerId})`,
+        );
+      }
+      
+      if (retakePolicy === "single") {
+        const [blockingAttempt] = await tx
+          .select()
+          .from(quizAttempts)
+          .where(and(eq(quizAttempts.quizId, insertAttempt.quizId), eq(quizAttempts.userAnswerId, insertAttempt.userAnswerId)))
+          .orderBy(quizAttempts.id)
+          .limit(1);
+        if (blockingAttempt) {
+          // The taker's attempt may be the one this very session was submitted with
+          const [session] = await tx.select().from(attemptSessions).where(eq(attemptSessions.id, sessionId));
+          return session?.completedAt ? { status: "already-completed" } : { status: "blocked", blockingAttempt };
+        }
+      }
+      
+      // Claiming the session first means concurrent submissions create a single attempt
+      const [claimed] = await tx
+        .update(attemptSessions)
+        .set({ completedAt: new Date().toISOString() })
+        .where(and(eq(attemptSessions.id, sessionId), isNull(attemptSessions.completedAt)))
+        .returning();
+      if (!claimed) return { status: "already-completed" };
+      
+      const [attempt] = await tx
+        .insert(quizAttempts)
+        .values(insertAttempt)
+        .returning();
+      
+      await tx
+        .update(attemptSessions)
+        .set({ attemptId: attempt.id })
+        .where(eq(attemptSessions.id, sessionId));
+      
+      return { status: "completed", attempt };
+    });
+  }
+  
+  // Rate limit methods
+  async hitRateLimit(key: string, windowMs: number, now: Date): Promise<RateLimit> {
+    // A single upsert, so concurrent hits from several server instances are all counted
+    const nowIso = now.toISOString();
+    const resetAt = new Date(now.getTime() + windowMs).toISOString();
+    const windowExpired = sql`${rateLimits.resetAt} <= ${nowIso}`;
+    
+    const [rateLimit] = await db
+      .insert(rateLimits)
+      .values({ key, count: 1, resetAt })
+      .onConflictDoUpdate({
+        target: rateLimits.key,
+        set: {
+          count: sql`CASE WHEN ${windowExpired} THEN 1 ELSE ${rateLimits.count} + 1 END`,
+          resetAt: sql`CASE WHEN ${windowExpired} THEN ${resetAt} ELSE ${rateLimits.resetAt} END`,
+        },
+      })
+      .returning();
+    
+    return rateLimit;
+  }
+  
+  async deleteExpiredRateLimits(now: Date): Promise<void> {
+    await db.delete(rateLimits).where(lte(rateLimits.resetAt, now.toISOString()));
+  }
+  
+  // Contact message methods
+  async createContactMessage(insertMessage: InsertContactMessage, createdAt?: Date): Promise<ContactMessage> {
+    const timestamp = (createdAt ?? new Date()).toISOString();
+    const [message] = await db
+      .insert(contactMessages)
+      .values({ ...insertMessage, createdAt: timestamp, updatedAt: timestamp })
+      .returning();
+    
+    return message;
+  }
+  
+  async getContactMessage(id: number): Promise<ContactMessage | undefined> {
+    const [message] = await db
+      .select()
+      .from(contactMessages)
+      .where(eq(contactMessages.id, id));
+    return message;
+  }
+  
+  async getContactMessages({ status, search }: ContactMessageQuery): Promise<ContactMessage[]> {
+    return db
+      .select()
+      .from(contactMessages)
+      .where(and(status ? eq(contactMessages.status, status) : undefined, getContactMessageSearchFilter(search)))
+      .orderBy(desc(contactMessages.createdAt), desc(contactMessages.id));
+  }
+  
+  async countContactMessagesByStatus(search?: string): Promise<Record<ContactMessageStatus, number>> {
+    const rows = await db
+      .select({ status: contactMessages.status, count: count() })
+      .from(contactMessages)
+      .where(getContactMessageSearchFilter(search))
+      .groupBy(contactMessages.status);
+    
+    return countByContactMessageStatus(rows);
+  }
+  
+  async updateContactMessage(id: number, update: UpdateContactMessage): Promise<ContactMessage | undefined> {
+    const [message] = await db
+      .update(contactMessages)
+      .set({ ...update, updatedAt: new Date().toISOString() })
+      .where(eq(contactMessages.id, id))
+      .returning();
+    
+    return message;
+  }
+  
+  async deleteContactMessage(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(contactMessages)
+      .where(eq(contactMessages.id, id))
+      .returning({ id: contactMessages.id });
+    
+    return deleted.length > 0;
+  }
+  
+  // Webhook methods
+  async createWebhook(insertWebhook: InsertWebhook): Promise<Webhook> {
+    const [webhook] = await db
+      .insert(webhooks)
+      .values(insertWebhook)
+      .returning();
+    
+    return webhook;
+  }
+  
+  async getWebhooks(quizId: number | null): Promise<Webhook[]> {
+    return db
+      .select()
+      .from(webhooks)
+      .where(getWebhookOwnerFilter(webhooks.quizId, quizId))
+      .orderBy(asc(webhooks.id));
+  }
+  
+  async getWebhooksForQuiz(quizId: number): Promise<Webhook[]> {
+    return db
+      .select()
+      .from(webhooks)
+      .where(or(eq(webhooks.quizId, quizId), isNull(webhooks.quizId)))
+      .orderBy(asc(webhooks.id));
+  }
+  
+  async deleteWebhook(id: number, quizId: number | null): Promise<boolean> {
+    const deleted = await db
+      .delete(webhooks)
+      .where(and(eq(webhooks.id, id), getWebhookOwnerFilter(webhooks.quizId, quizId)))
+      .returning({ id: webhooks.id });
+    
+    return deleted.length > 0;
+  }
+  
+  // Webhook delivery methods
+  async createWebhookDeliveries(insertDeliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    if (insertDeliveries.length === 0) return [];
+    
+    return db
+      .insert(webhookDeliveries)
+      .values(insertDeliveries)
+      .returning();
+  }
+  
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(
+        eq(webhookDeliveries.status, "pending"),
+        lte(webhookDeliveries.nextAttemptAt, now.toISOString()),
+      ))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt), asc(webhookDeliveries.id))
+      .limit(limit);
+  }
+  
+  async claimWebhookDelivery(id: number, now: Date, leaseUntil: Date): Promise<boolean> {
+    const claimed = await db
+      .update(webhookDeliveries)
+      .set({ nextAttemptAt: leaseUntil.toISOString() })
+      .where(and(
+        eq(webhookDeliveries.id, id),
+        eq(webhookDeliveries.status, "pending"),
+        lte(webhookDeliveries.nextAttemptAt, now.toISOString()),
+      ))
+      .returning({ id: webhookDeliveries.id });
+    
+    return claimed.length > 0;
+  }
+  
+  async updateWebhookDelivery(id: number, update: WebhookDeliveryUpdate): Promise<void> {
+    await db
+      .update(webhookDeliveries)
+      .set(update)
+      .where(eq(webhookDeliveries.id, id));
+  }
+  
+  async getWebhookDeliveries(quizId: number | null, limit: number): Promise<WebhookDelivery[]> {
+    return db
+      .select()
+      .from(webhookDeliveries)
+      .where(getWebhookOwnerFilter(webhookDeliveries.quizId, quizId))
+      .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+      .limit(limit);
+  }
+  
+  async deleteSettledWebhookDeliveries(before: Date): Promise<void> {
+    await db
+      .delete(webhookDeliveries)
+      .where(and(
+        ne(webhookDeliveries.status, "pending"),
+        lt(webhookDeliveries.createdAt, before.toISOString()),
+      ));
+  }
+  
+  // Check if a quiz is past its expiry date
+  isQuizExpired(quiz: Quiz): boolean {
+    if (!quiz || !quiz.expiresAt) return true;
+    return hasQuizExpired(quiz);
+  }
+}
@@ -1,11 +1,19 @@
-import { drizzle } from "drizzle-orm/neon-http";
-import { neon } from "@neondatabase/serverless";
-import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleSqlite, type BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
 import Database from "better-sqlite3";
+import ws from "ws";
 import * as schema from "../shared/schema";
-import { log } from "./vite"; // Assuming log function is available
+import { createPostgresMigrationDriver, createSqliteMigrationDriver, type DatabaseDialect, type MigrationDriver } from "./migrate";
+import { log } from "./log"; // Assuming log function is available
 
-let db: ReturnType<typeof drizzle> | ReturnType<typeof drizzleSqlite>;
+// Both drivers expose the same awaitable query builder surface that the storage layer uses,
+// so the SQLite typings are used for the shared handle.
+export type AppDatabase = BetterSQLite3Database<typeof schema>;
+
+let db: AppDatabase;
+let runInTransaction: <T>(work: (tx: AppDatabase) => Promise<T>) => Promise<T>;
+let migrationDriver: MigrationDriver;
 
 if (process.env.NODE_ENV === "production") {
   // Production: Use Neon PostgreSQL
@@ -15,65 +23,52 @@ if (process.env.NODE_ENV === "production") {
     );
   }
   log("Connecting to Production Database (PostgreSQL via Neon)...");
-  const sql = neon(process.env.DATABASE_URL);
-  db = drizzle(sql, { schema });
+  // The pooled websocket driver is used instead of neon-http because the HTTP driver has no transaction support
+  neonConfig.webSocketConstructor = ws;
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  const pgDb = drizzle(pool, { schema });
+  db = pgDb as unknown as AppDatabase;
+  runInTransaction = (work) => pgDb.transaction((tx) => work(tx as unknown as AppDatabase));
   log("Connected to Production Database.");
-  // Migrations should be handled separately in production, e.g., via drizzle-kit push or Render build script
+
+  migrationDriver = createPostgresMigrationDriver(pool);
 
 } else {
   // Development/Testing: Use SQLite
   log("Connecting to Development Database (SQLite)...");
   const db_path = "./quiz_app.db"; // Local SQLite file
   const sqlite = new Database(db_path);
+  sqlite.pragma("journal_mode = WAL");
   db = drizzleSqlite(sqlite, { schema });
   log(`Connected to Development Database at ${db_path}`);
 
-  // Initialize SQLite tables if they don't exist (for local dev)
-  const initSqliteDb = () => {
+  // better-sqlite3 transactions must be synchronous, so the transaction is opened manually.
+  // Its queries resolve without yielding to I/O, so no other request can interleave as long
+  // as the work only touches the database.
+  runInTransaction = async (work) => {
+    sqlite.exec("BEGIN IMMEDIATE");
     try {
-      // Use single quotes for string literals in CHECK constraint for SQLite compatibility
-      sqlite.exec(`
-        PRAGMA journal_mode = WAL;
-        CREATE TABLE IF NOT EXISTS users (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          username TEXT NOT NULL UNIQUE
-        );
-        CREATE TABLE IF NOT EXISTS quizzes (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          creator_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-          creator_name TEXT NOT NULL,
-          access_code TEXT NOT NULL UNIQUE,
-          url_slug TEXT NOT NULL UNIQUE,
-          dashboard_token TEXT NOT NULL UNIQUE,
-          created_at TEXT NOT NULL,
-          expires_at TEXT NOT NULL
-        );
-        CREATE TABLE IF NOT EXISTS questions (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          quiz_id INTEGER NOT NULL REFERENCES quizzes(id) ON DELETE CASCADE,
-          text TEXT NOT NULL,
-          image_url TEXT,
-          type TEXT NOT NULL CHECK(type IN ('multiple_choice', 'select_all')) DEFAULT 'multiple_choice',
-          options TEXT NOT NULL, -- JSON array of strings
-          correct_answers TEXT NOT NULL -- JSON array of strings
-        );
-        CREATE TABLE IF NOT EXISTS quiz_attempts (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          quiz_id INTEGER NOT NULL REFERENCES quizzes(id) ON DELETE CASCADE,
-          taker_name TEXT NOT NULL,
-          score INTEGER NOT NULL,
-          max_score INTEGER NOT NULL,
-          answers TEXT NOT NULL, -- JSON object mapping question ID to user answers
-          completed_at TEXT NOT NULL
-        );
-      `);
-      log("SQLite Database initialized successfully (local development).");
+      const result = await work(db);
+      sqlite.exec("COMMIT");
+      return result;
     } catch (error) {
-      log(`Error initializing SQLite DB: ${error instanceof Error ? error.message : String(error)}`);
+      sqlite.exec("ROLLBACK");
+      throw error;
     }
   };
-  initSqliteDb();
+
+  migrationDriver = createSqliteMigrationDriver(sqlite);
+}
+
+/**
+ * Runs the given database work inside a single transaction.
+ * Everything written through `tx` is rolled back if the work throws.
+ */
+export function withTransaction<T>(work: (tx: AppDatabase) => Promise<T>): Promise<T> {
+  return runInTransaction(work);
 }
 
-export { db };
+// The few queries the query builder cannot express portably branch on this
+const dialect: DatabaseDialect = migrationDriver.dialect;
 
+export { db, dialect, migrationDriver };
@@ -0,0 +1,174 @@
+import { parseJsonField, stringifyJsonField, type Question, type QuestionAnswer } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { refreshCountedAttempts } from "./retakePolicy";
+import { matchTypedAnswer } from "./answerMatching";
+
+/**
+ * Single source of the grading rules. Both attempt scoring and re-grading after
+ * an edit go through here, so the two can never disagree.
+ */
+
+export type SubmittedAnswer = Pick<QuestionAnswer, "questionId" | "userAnswer">;
+
+export interface GradedAttempt {
+  answers: QuestionAnswer[];
+  score: number;
+  totalQuestions: number;
+}
+
+/**
+ * Normalizes an answer for comparison (case and surrounding whitespace are ignored)
+ */
+export function normalizeAnswer(answer: string): string {
+  return answer.toString().toLowerCase().trim();
+}
+
+/**
+ * Reads the answer key of a question, whether it is stored as JSON text or already parsed
+ */
+export function getCorrectAnswers(question: Question): string[] {
+  const stored = question.correctAnswers as string | string[];
+  if (Array.isArray(stored)) return stored;
+  return parseJsonField<string[]>(stored) ?? [];
+}
+
+/**
+ * Checks a single answer against the question's answer key
+ * - An array answer (select all) must match the set of correct answers exactly
+ * - A single answer (multiple choice) must match any of the correct answers
+ * - A typed answer (open ended) must come close enough to any of the accepted answers, as the question's strictness says
+ */
+export function isAnswerCorrect(question: Question, userAnswer: string | string[]): boolean {
+  if (question.type === "open-ended" && !Array.isArray(userAnswer)) {
+    return matchTypedAnswer(userAnswer, getCorrectAnswers(question), question.strictness).accepted;
+  }
+
+  const correctAnswers = getCorrectAnswers(question).map(normalizeAnswer);
+
+  if (Array.isArray(userAnswer)) {
+    const userAnswersSet = new Set(userAnswer.map(normalizeAnswer));
+    const correctAnswersSet = new Set(correctAnswers);
+    return userAnswersSet.size === correctAnswersSet.size &&
+      Array.from(userAnswersSet).every((answer) => correctAnswersSet.has(answer));
+  }
+
+  const normalizedUserAnswer = normalizeAnswer(userAnswer);
+  return correctAnswers.some((correct) => correct === normalizedUserAnswer);
+}
+
+// Points are kept to 2 decimals, so sums of partial credit compare and display cleanly
+function roundPoints(points: number): number {
+  return Math.round(points * 100) / 100;
+}
+
+/**
+ * Partial credit of a select-all answer: each correct option picked earns an equal share of
+ * the point and each wrong option picked takes one away, never going below 0
+ */
+export function getPartialCredit(question: Question, userAnswer: string[]): number {
+  const correctAnswers = new Set(getCorrectAnswers(question).map(normalizeAnswer));
+  if (correctAnswers.size === 0) return 0;
+
+  let picked = 0;
+  for (const answer of Array.from(new Set(userAnswer.map(normalizeAnswer)))) {
+    picked += correctAnswers.has(answer) ? 1 : -1;
+  }
+  return roundPoints(Math.max(0, picked / correctAnswers.size));
+}
+
+/**
+ * Whether an answer has the shape the question takes: a list of options for select all, one option or typed text otherwise
+ */
+export function isAnswerShapeValid(question: Question, userAnswer: string | string[]): boolean {
+  return question.type === "select-all" ? Array.isArray(userAnswer) : !Array.isArray(userAnswer);
+}
+
+/**
+ * Grades a single answer
+ * @returns Whether it is fully correct, and the share of the question's point it earns
+ */
+export function gradeAnswer(question: Question, userAnswer: string | string[]): Pick<QuestionAnswer, "isCorrect" | "points"> {
+  const isCorrect = isAnswerShapeValid(question, userAnswer) && isAnswerCorrect(question, userAnswer);
+  if (isCorrect || question.type !== "select-all" || question.scoring !== "partial" || !Array.isArray(userAnswer)) {
+    return { isCorrect, points: isCorrect ? 1 : 0 };
+  }
+  return { isCorrect, points: getPartialCredit(question, userAnswer) };
+}
+
+/**
+ * Grades a full attempt against the quiz's questions
+ * Answers for questions outside the quiz are dropped, and only the first answer per question counts.
+ * Unanswered questions count as incorrect. Each question is worth one point, which partial-credit
+ * select-all questions can award in part.
+ * @param quizQuestions All questions of the quiz being attempted
+ * @param submittedAnswers Answers as sent by the taker (any client-side correctness is ignored)
+ * @returns The graded answers with the computed score
+ */
+export function gradeAttempt(quizQuestions: Question[], submittedAnswers: SubmittedAnswer[]): GradedAttempt {
+  const questionsById = new Map(quizQuestions.map((question) => [question.id, question]));
+  const seenQuestionIds = new Set<number>();
+  const answers: QuestionAnswer[] = [];
+
+  for (const submitted of submittedAnswers) {
+    const question = questionsById.get(submitted.questionId);
+    if (!question || seenQuestionIds.has(submitted.questionId)) continue;
+    seenQuestionIds.add(submitted.questionId);
+
+    answers.push({
+      questionId: submitted.questionId,
+      userAnswer: submitted.userAnswer,
+      ...gradeAnswer(question, submitted.userAnswer),
+    });
+  }
+
+  return {
+    answers,
+    score: roundPoints(answers.reduce((score, answer) => score + (answer.points ?? 0), 0)),
+    totalQuestions: quizQuestions.length,
+  };
+}
+
+/**
+ * Re-grades every stored attempt of a quiz against its current questions
+ * Called after the creator edits the quiz: takers keep the answers they gave, but scores
+ * always reflect the current answer key, and answers to deleted questions no longer count.
+ * A new score can change which attempt counts for a taker, so those are re-marked too.
+ * @param storage Storage to read the quiz from and write the new grades to
+ * @param quizId Quiz whose attempts should be re-graded
+ * @returns Number of attempts whose grade changed
+ */
+export async function regradeQuizAttempts(storage: IStorage, quizId: number): Promise<number> {
+  const [quizQuestions, attempts] = await Promise.all([
+    storage.getQuestionsByQuizId(quizId),
+    storage.getQuizAttempts(quizId),
+  ]);
+
+  let changed = 0;
+  for (const attempt of attempts) {
+    const storedAnswers = parseJsonField<QuestionAnswer[]>(attempt.answers) ?? [];
+    const graded = gradeAttempt(quizQuestions, storedAnswers);
+    const answers = stringifyJsonField(graded.answers);
+
+    if (
+      graded.score === attempt.score &&
+      graded.totalQuestions === attempt.totalQuestions &&
+      answers === attempt.answers
+    ) {
+      continue;
+    }
+
+    await storage.updateQuizAttemptGrade(attempt.id, {
+      score: graded.score,
+      totalQuestions: graded.totalQuestions,
+      answers,
+    });
+    changed++;
+  }
+
+  const quiz = changed > 0 ? await storage.getQuiz(quizId) : undefined;
+  if (quiz) {
+    await refreshCountedAttempts(storage, quiz);
+  }
+
+  return changed;
+}
@@ -0,0 +1,10 @@
+import { hashAdminPassword } from "./adminAuth";
+
+// Prints the ADMIN_PASSWORD_HASH value for a password: npm run admin:hash-password -- <password>
+const password = process.argv[2];
+if (!password) {
+  console.error("Usage: npm run admin:hash-password -- <password>");
+  process.exit(1);
+}
+
+hashAdminPassword(password).then((hash) => console.log(hash));
@@ -0,0 +1,64 @@
+import { randomBytes, randomUUID } from "crypto";
+
+const ALPHANUMERIC = "abcdefghijklmnopqrstuvwxyz0123456789";
+
+/**
+ * Builds a random lowercase alphanumeric string
+ * @param length Number of characters to generate
+ * @returns Random string drawn from a cryptographically secure source
+ */
+function randomAlphanumeric(length: number): string {
+  const bytes = randomBytes(length);
+  let result = "";
+  for (let i = 0; i < length; i++) {
+    result += ALPHANUMERIC.charAt(bytes[i] % ALPHANUMERIC.length);
+  }
+  return result;
+}
+
+/**
+ * Generates the 8 character code takers can type in to find a quiz
+ */
+export function generateAccessCode(): string {
+  return randomAlphanumeric(8);
+}
+
+/**
+ * Generates the shareable URL slug for a quiz, e.g. "sarah-k3x9a1b2"
+ * @param creatorName Display name of the quiz creator
+ */
+export function generateUrlSlug(creatorName: string): string {
+  // Keep only alphanumeric characters and limit the name part to 15 characters
+  let cleanName = creatorName
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]/g, "")
+    .substring(0, 15);
+
+  if (!cleanName) {
+    cleanName = "quiz";
+  }
+
+  return `${cleanName}-${randomAlphanumeric(8)}`;
+}
+
+/**
+ * Generates the secret token that grants access to a quiz dashboard
+ */
+export function generateDashboardToken(): string {
+  return randomUUID();
+}
+
+/**
+ * Generates the secret token a taker answers and resumes an attempt session with
+ */
+export function generateSessionToken(): string {
+  return randomUUID();
+}
+
+/**
+ * Generates the secret a webhook's payloads are signed with
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { InsertQuiz } from '@shared/schema';
+import { MemStorage } from './storage';
+import { LocalImageStorage } from './imageStorage';
+
+// Which images a quiz owns, and so which ones are deleted along with it.
+// Runs on a MemStorage and a temporary upload directory. Run with `npm test`.
+
+function quizFields(n: number): InsertQuiz {
+  return {
+    creatorId: n,
+    creatorName: `Creator ${n}`,
+    accessCode: `code000${n}`,
+    urlSlug: `creator-${n}`,
+    dashboardToken: `dashboard-token-${n}`,
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+    retakePolicy: 'single',
+    creatorEmail: null,
+  };
+}
+
+function questionWithImage(imageUrl: string) {
+  return {
+    text: 'Which one is it?',
+    type: 'multiple-choice' as const,
+    options: JSON.stringify(['This', 'That']),
+    correctAnswers: JSON.stringify(['This']),
+    order: 1,
+    imageUrl,
+  };
+}
+
+describe('quiz images', () => {
+  let directory: string;
+  let images: LocalImageStorage;
+  let storage: MemStorage;
+
+  // Stores a file the way the upload route does, recording it as the quiz's
+  const upload = async (name: string, quizId?: number) => {
+    const source = path.join(os.tmpdir(), name);
+    await fs.promises.writeFile(source, name);
+    try {
+      const image = await images.uploadImage(source, quizId);
+      await storage.createQuizImage({ ...image, quizId: quizId ?? null });
+      return image;
+    } finally {
+      await fs.promises.rm(source, { force: true });
+    }
+  };
+
+  const deleteImagesOf = async (quizId: number) => {
+    const owned = await storage.getQuizImages(quizId);
+    await images.deleteImagesByQuiz(quizId, owned.map((image) => image.key));
+  };
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'quiz-images-'));
+    images = new LocalImageStorage(directory);
+    storage = new MemStorage();
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  it('gives a new quiz the unowned images its questions show, and deletes them with it', async () => {
+    const image = await upload('image-1.png');
+    const quiz = await storage.createQuizWithQuestions(quizFields(1), [questionWithImage(image.url)]);
+
+    assert.deepEqual((await storage.getQuizImages(quiz.id)).map((owned) => owned.url), [image.url]);
+
+    await deleteImagesOf(quiz.id);
+    assert.deepEqual(await fs.promises.readdir(directory), []);
+  });
+
+  it('never deletes another quiz\'s images a question points at', async () => {
+    const first = await storage.createQuizWithQuestions(quizFields(1), [questionWithImage((await upload('image-1.png')).url)]);
+    const dashboardImage = await upload('image-2.png', first.id);
+
+    // A quiz whose questions show the first quiz's images does not get to own them
+    const second = await storage.createQuizWithQuestions(quizFields(2), [
+      questionWithImage(`/uploads/image-1.png`),
+      questionWithImage(dashboardImage.url),
+    ]);
+    assert.deepEqual(await storage.getQuizImages(second.id), []);
+
+    await deleteImagesOf(second.id);
+    assert.deepEqual((await fs.promises.readdir(directory)).sort(), ['image-1.png', `quiz-${first.id}-image-2.png`]);
+
+    await deleteImagesOf(first.id);
+    assert.deepEqual(await fs.promises.readdir(directory), []);
+  });
+});
@@ -0,0 +1,116 @@
+import fs from 'fs';
+import path from 'path';
+import { CloudinaryImageStorage, isCloudinaryConfigured } from './cloudinary';
+import { log } from './log';
+
+// Where the local backend keeps images, and the route they are served from
+export const LOCAL_UPLOAD_DIR = path.resolve(process.cwd(), 'persistent_uploads');
+export const LOCAL_UPLOAD_ROUTE = '/uploads';
+
+export interface UploadedImage {
+  // Backend-specific identifier of the stored image
+  key: string;
+  // URL the browser loads the image from
+  url: string;
+}
+
+// Image storage interface
+export interface IImageStorage {
+  readonly name: string;
+
+  // Stores the image at `filePath`; the caller still owns (and removes) the source file
+  uploadImage(filePath: string, quizId?: number): Promise<UploadedImage>;
+
+  // Removes the images uploaded for a quiz, plus the ones recorded as its under `keys`
+  deleteImagesByQuiz(quizId: number, keys: string[]): Promise<void>;
+
+  getPublicUrl(key: string): string;
+
+  testConnection(): Promise<{ success: boolean; error?: unknown }>;
+}
+
+// Image storage on the local disk, for development and self-hosted deployments
+export class LocalImageStorage implements IImageStorage {
+  readonly name = 'local';
+
+  constructor(private readonly directory: string = LOCAL_UPLOAD_DIR) {}
+
+  private ensureDirectory() {
+    if (!fs.existsSync(this.directory)) {
+      fs.mkdirSync(this.directory, { recursive: true });
+      log(`Created image upload directory: ${this.directory}`);
+    }
+  }
+
+  // Images uploaded for an existing quiz are prefixed with its ID so they can be found again
+  private getQuizPrefix(quizId: number): string {
+    return `quiz-${quizId}-`;
+  }
+
+  async uploadImage(filePath: string, quizId?: number): Promise<UploadedImage> {
+    this.ensureDirectory();
+
+    const key = `${quizId ? this.getQuizPrefix(quizId) : ''}${path.basename(filePath)}`;
+    await fs.promises.copyFile(filePath, path.join(this.directory, key));
+
+    log(`Stored image locally: ${key}`);
+    return { key, url: this.getPublicUrl(key) };
+  }
+
+  async deleteImagesByQuiz(quizId: number, imageKeys: string[]): Promise<void> {
+    if (!fs.existsSync(this.directory)) return;
+
+    // basename keeps deletions inside the directory
+    const keys = new Set(imageKeys.map((key) => path.basename(key)));
+
+    const prefix = this.getQuizPrefix(quizId);
+    for (const file of await fs.promises.readdir(this.directory)) {
+      if (file.startsWith(prefix)) keys.add(file);
+    }
+
+    for (const key of Array.from(keys)) {
+      try {
+        await fs.promises.unlink(path.join(this.directory, key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    }
+
+    log(`Deleted ${keys.size} local images for quiz ${quizId}`);
+  }
+
+  getPublicUrl(key: string): string {
+    return `${LOCAL_UPLOAD_ROUTE}/${encodeURIComponent(key)}`;
+  }
+
+  async testConnection() {
+    try {
+      this.ensureDirectory();
+      await fs.promises.access(this.directory, fs.constants.W_OK);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error };
+    }
+  }
+}
+
+/**
+ * Picks the image backend from the environment
+ * `IMAGE_STORAGE=cloudinary|local` forces a backend; otherwise Cloudinary is used
+ * whenever its credentials are configured, and the local disk otherwise.
+ */
+function createImageStorage(): IImageStorage {
+  const requested = process.env.IMAGE_STORAGE?.toLowerCase();
+
+  if (requested === 'cloudinary' || (!requested && isCloudinaryConfigured())) {
+    return new CloudinaryImageStorage();
+  }
+
+  if (requested && requested !== 'local') {
+    log(`Unknown IMAGE_STORAGE "${requested}", falling back to local image storage`);
+  }
+  return new LocalImageStorage();
+}
+
+// Create and export the configured image storage
+export const imageStorage = createImageStorage();
@@ -1,11 +1,17 @@
 import express, { type Request, Response, NextFunction } from "express";
 import cors from "cors"; // Import cors
 import { registerRoutes } from "./routes";
-import { setupVite, serveStatic, log } from "./vite";
+import { setupVite, serveStatic } from "./vite";
+import { log } from "./log";
 import * as pathModule from "path";
 import * as fs from "fs";
 import { scheduleCleanupTask } from './cleanup';
-import { testCloudinaryConnection } from './cloudinary';
+import { scheduleExpiryReminders } from './notifications';
+import { scheduleWebhookDeliveries } from './webhooks';
+import { mailTransport } from './mail';
+import { migrateDatabase } from './migrate';
+import { createStorage, MemStorage } from './storage';
+import { imageStorage, LOCAL_UPLOAD_DIR, LOCAL_UPLOAD_ROUTE } from './imageStorage';
 
 const app = express();
 
@@ -18,6 +24,10 @@ const corsOptions = {
 };
 app.use(cors(corsOptions));
 
+// Behind the production proxy the client IP (used by the rate limits) comes from X-Forwarded-For.
+// TRUST_PROXY sets how many proxy hops to trust.
+app.set("trust proxy", Number(process.env.TRUST_PROXY ?? (process.env.NODE_ENV === "production" ? 1 : 0)));
+
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -34,6 +44,9 @@ app.get('/sitemap.xml', (req, res) => {
   });
 });
 
+// Images stored by the local image storage backend
+app.use(LOCAL_UPLOAD_ROUTE, express.static(LOCAL_UPLOAD_DIR));
+
 app.use((req, res, next) => {
   const start = Date.now();
   const reqPath = req.path;
@@ -65,7 +78,23 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  const server = await registerRoutes(app);
+  const storage = await createStorage();
+
+  // The schema must be current before any request touches the database
+  if (storage instanceof MemStorage) {
+    log('Using in-memory storage - data is lost when the server stops');
+  } else {
+    try {
+      // Loaded here so the in-memory store never connects to a database
+      const { migrationDriver } = await import('./db');
+      await migrateDatabase(migrationDriver);
+    } catch (error) {
+      log(`Database migration failed: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  }
+
+  const server = await registerRoutes(app, storage);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -109,21 +138,29 @@ app.use((req, res, next) => {
   }, async () => {
     log(`serving on port ${port}`);
     
-    // Test Cloudinary connection
+    // Test the image storage backend
     try {
-      const cloudinaryTestResult = await testCloudinaryConnection();
-      if (cloudinaryTestResult.success) {
-        log('Cloudinary connection successful');
+      const imageStorageTestResult = await imageStorage.testConnection();
+      if (imageStorageTestResult.success) {
+        log(`Image storage (${imageStorage.name}) is ready`);
       } else {
-        log('Warning: Could not connect to Cloudinary - image uploads may fail');
+        log(`Warning: Image storage (${imageStorage.name}) is not available - image uploads may fail`);
       }
     } catch (error) {
-      log(`Error testing Cloudinary connection: ${error instanceof Error ? error.message : String(error)}`);
+      log(`Error testing image storage: ${error instanceof Error ? error.message : String(error)}`);
     }
     
     // Schedule daily cleanup task to run 5 minutes after server start
-    scheduleCleanupTask(5 * 60 * 1000);
-    log('Scheduled daily cleanup task for expired quizzes (7-day retention period)');
+    scheduleCleanupTask(storage, 5 * 60 * 1000);
+    log('Scheduled daily cleanup task for expired quizzes (per-quiz expiry dates)');
+    
+    // Creators who gave an email hear from us a day before their quiz expires
+    scheduleExpiryReminders(storage);
+    log(`Scheduled hourly expiry reminders (mail transport: ${mailTransport.name})`);
+    
+    // Webhook deliveries that failed are retried with backoff until they succeed or give up
+    scheduleWebhookDeliveries(storage);
+    log('Scheduled webhook delivery retries');
   });
 })();
 
@@ -0,0 +1,122 @@
+import { EventEmitter } from 'events';
+import type { Request, Response } from 'express';
+import { LIVE_UPDATE_HEARTBEAT_MS, type LiveUpdateEvent, type QuizAttempt } from '@shared/schema';
+import { toLeaderboardEntry, toParsedAttempt } from './serializers';
+import { log } from './log';
+
+// Who is listening decides what an attempt event carries: takers get the public leaderboard
+// fields, the creator the attempt with its answers
+export type LiveUpdateAudience = 'taker' | 'creator';
+
+type QuizChange =
+  | { type: 'attempt'; attempt: QuizAttempt }
+  | { type: 'reranked' }
+  | { type: 'closed' };
+
+// Changes are only known to the server instance that made them; clients refetch whenever they
+// reconnect, so a stream that moves to another instance still catches up
+const quizChanges = new EventEmitter();
+quizChanges.setMaxListeners(0);
+
+// Streams stay open for as long as a page does, so besides the rate at which they are opened
+// (limited per IP in ./routes) the number open at once is capped per client IP and per quiz
+const MAX_OPEN_STREAMS_PER_IP = 10;
+const MAX_OPEN_STREAMS_PER_QUIZ = 500;
+// Refused clients back off for this long before trying again
+const OPEN_STREAMS_RETRY_AFTER_SECONDS = 30;
+
+const openStreamsByIp = new Map<string, number>();
+const openStreamsByQuiz = new Map<number, number>();
+
+function countOpenStream<K>(openStreams: Map<K, number>, key: K, change: 1 | -1): void {
+  const count = (openStreams.get(key) ?? 0) + change;
+  if (count > 0) {
+    openStreams.set(key, count);
+  } else {
+    openStreams.delete(key);
+  }
+}
+
+function publish(quizId: number, change: QuizChange): void {
+  quizChanges.emit(String(quizId), change);
+}
+
+/**
+ * Tells the quiz's streams about an attempt that was just saved
+ */
+export function publishAttempt(attempt: QuizAttempt): void {
+  publish(attempt.quizId, { type: 'attempt', attempt });
+}
+
+/**
+ * Tells the quiz's streams that existing attempts were re-graded or re-counted
+ */
+export function publishReranked(quizId: number): void {
+  publish(quizId, { type: 'reranked' });
+}
+
+/**
+ * Ends the streams of deleted quizzes
+ */
+export function closeQuizStreams(quizIds: number[]): void {
+  for (const quizId of quizIds) publish(quizId, { type: 'closed' });
+}
+
+function toLiveUpdateEvent(change: QuizChange, audience: LiveUpdateAudience): LiveUpdateEvent {
+  if (change.type !== 'attempt') return change;
+  return audience === 'creator'
+    ? { type: 'attempt', attempt: toParsedAttempt(change.attempt) }
+    : { type: 'attempt', attempt: toLeaderboardEntry(change.attempt) };
+}
+
+/**
+ * Turns the response into a Server-Sent Events stream of the quiz's changes
+ * A comment goes out every heartbeat interval so proxies keep the connection open and clients
+ * can tell a quiet stream from a dead one. The caller checks that the audience may see the quiz.
+ * Answers 429 instead when the client or the quiz already has too many streams open.
+ */
+export function streamQuizUpdates(req: Request, res: Response, quizId: number, audience: LiveUpdateAudience): void {
+  const ip = req.ip || 'unknown';
+  if (
+    (openStreamsByIp.get(ip) ?? 0) >= MAX_OPEN_STREAMS_PER_IP ||
+    (openStreamsByQuiz.get(quizId) ?? 0) >= MAX_OPEN_STREAMS_PER_QUIZ
+  ) {
+    log(`Refused ${audience} live update stream for quiz ${quizId}: too many open streams`);
+    res.setHeader('Retry-After', String(OPEN_STREAMS_RETRY_AFTER_SECONDS));
+    res.status(429).json({ message: 'Too many live update streams are open, please try again later.' });
+    return;
+  }
+  countOpenStream(openStreamsByIp, ip, 1);
+  countOpenStream(openStreamsByQuiz, quizId, 1);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Stops nginx from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+  res.write(': connected\n\n');
+
+  const send = (event: LiveUpdateEvent) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  const onChange = (change: QuizChange) => {
+    send(toLiveUpdateEvent(change, audience));
+    if (change.type === 'closed') res.end();
+  };
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), LIVE_UPDATE_HEARTBEAT_MS);
+
+  quizChanges.on(String(quizId), onChange);
+  log(`Opened ${audience} live update stream for quiz ${quizId}`);
+
+  // The response closes once, whether the client went away or the stream was ended here
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    quizChanges.off(String(quizId), onChange);
+    countOpenStream(openStreamsByIp, ip, -1);
+    countOpenStream(openStreamsByQuiz, quizId, -1);
+    log(`Closed ${audience} live update stream for quiz ${quizId}`);
+  });
+}
@@ -0,0 +1,12 @@
+// Kept apart from ./vite, which loads the Vite dev server and its config, so that any module
+// (and the tests) can log without them
+export function log(message: string, source = "express") {
+  const formattedTime = new Date().toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: true,
+  });
+
+  console.log(`${formattedTime} [${source}] ${message}`);
+}
@@ -0,0 +1,105 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import sgMail from '@sendgrid/mail';
+import { log } from './log';
+
+// Where the file transport writes its messages
+export const MAIL_OUTBOX_DIR = path.resolve(process.cwd(), 'mail_outbox');
+
+const DEFAULT_MAIL_FROM = 'QzonMe <no-reply@qzonme.com>';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Mail transport interface
+export interface IMailTransport {
+  readonly name: string;
+
+  // Resolves once the message has been handed over; rejects when it could not be
+  send(message: MailMessage): Promise<void>;
+}
+
+// Sends through SendGrid's API
+export class SendGridMailTransport implements IMailTransport {
+  readonly name = 'sendgrid';
+
+  constructor(apiKey: string, private readonly from: string) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await sgMail.send({ ...message, from: this.from });
+  }
+}
+
+// Writes each message to a JSON file instead of sending it, for development and tests
+export class FileMailTransport implements IMailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly from: string, private readonly directory: string = MAIL_OUTBOX_DIR) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    // Timestamped names keep the outbox in sending order
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.json`;
+    await fs.promises.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, from: this.from }, null, 2),
+    );
+  }
+}
+
+// Prints each message to the server log instead of sending it
+export class ConsoleMailTransport implements IMailTransport {
+  readonly name = 'console';
+
+  async send(message: MailMessage): Promise<void> {
+    log(`To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`, 'mail');
+  }
+}
+
+/**
+ * Picks the mail transport from the environment
+ * `MAIL_TRANSPORT=sendgrid|file|console` forces a transport; otherwise SendGrid is used
+ * whenever SENDGRID_API_KEY is set, and the console otherwise. MAIL_FROM sets the sender.
+ */
+function createMailTransport(): IMailTransport {
+  const requested = process.env.MAIL_TRANSPORT?.toLowerCase();
+  const apiKey = process.env.SENDGRID_API_KEY;
+  const from = process.env.MAIL_FROM || DEFAULT_MAIL_FROM;
+
+  if (requested === 'sendgrid' || (!requested && apiKey)) {
+    if (apiKey) return new SendGridMailTransport(apiKey, from);
+    log('MAIL_TRANSPORT is "sendgrid" but SENDGRID_API_KEY is not set, falling back to the console mail transport');
+    return new ConsoleMailTransport();
+  }
+
+  if (requested === 'file') {
+    return new FileMailTransport(from);
+  }
+
+  if (requested && requested !== 'console') {
+    log(`Unknown MAIL_TRANSPORT "${requested}", falling back to the console mail transport`);
+  }
+  return new ConsoleMailTransport();
+}
+
+// Create and export the configured mail transport
+export const mailTransport = createMailTransport();
+
+/**
+ * Sends a message without waiting for it
+ * Failures are logged and never reach the caller, so mail can never hold up or break a request.
+ */
+export function sendMailInBackground(message: MailMessage, transport: IMailTransport = mailTransport): void {
+  transport.send(message).then(
+    () => log(`Sent "${message.subject}" through ${transport.name}`, 'mail'),
+    (error) => log(`Failed to send "${message.subject}" through ${transport.name}: ${error instanceof Error ? error.message : String(error)}`, 'mail'),
+  );
+}
@@ -0,0 +1,79 @@
+import type { Quiz, QuizAttempt } from '@shared/schema';
+import type { MailMessage } from './mail';
+
+// Public address of the site, used for the links in emails
+const DEFAULT_APP_URL = 'https://qzonme.com';
+
+function getAppUrl(): string {
+  return (process.env.APP_URL || DEFAULT_APP_URL).replace(/\/+$/, '');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+interface MailContent {
+  subject: string;
+  // Plain text paragraphs; each one is escaped for the HTML part
+  paragraphs: string[];
+  action: { label: string; url: string };
+}
+
+/**
+ * Lays out the text and HTML parts of an email to a quiz creator
+ * Every email ends with why it was sent, since the address was given at quiz creation.
+ */
+function renderCreatorMail(to: string, { subject, paragraphs, action }: MailContent): MailMessage {
+  const footer = 'You are receiving this because you asked for email updates when you created this quiz on QzonMe.';
+
+  const text = [...paragraphs, `${action.label}: ${action.url}`, '--', footer].join('\n\n');
+  const html = [
+    '<div style="font-family: Arial, sans-serif; font-size: 15px; line-height: 1.5; color: #222;">',
+    ...paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`),
+    `<p><a href="${escapeHtml(action.url)}" style="display: inline-block; padding: 10px 18px; background: #f97316; color: #fff; border-radius: 6px; text-decoration: none;">${escapeHtml(action.label)}</a></p>`,
+    `<p style="font-size: 12px; color: #888;">${escapeHtml(footer)}</p>`,
+    '</div>',
+  ].join('\n');
+
+  return { to, subject, text, html };
+}
+
+function getDashboardUrl(quiz: Quiz): string {
+  return `${getAppUrl()}/dashboard/${encodeURIComponent(quiz.dashboardToken)}`;
+}
+
+/**
+ * Tells the creator that someone finished their quiz
+ */
+export function attemptCompletedMail(quiz: Quiz & { creatorEmail: string }, attempt: QuizAttempt): MailMessage {
+  const percentage = Math.round((attempt.score / (attempt.totalQuestions || 1)) * 100);
+  return renderCreatorMail(quiz.creatorEmail, {
+    subject: `${attempt.userName} just finished your quiz`,
+    paragraphs: [
+      `Hi ${quiz.creatorName},`,
+      `${attempt.userName} finished your quiz and scored ${attempt.score} out of ${attempt.totalQuestions} (${percentage}%).`,
+      'See how they did and where they rank on your dashboard.',
+    ],
+    action: { label: 'Open your dashboard', url: getDashboardUrl(quiz) },
+  });
+}
+
+/**
+ * Reminds the creator that their quiz is about to expire
+ */
+export function expiryReminderMail(quiz: Quiz & { creatorEmail: string }): MailMessage {
+  return renderCreatorMail(quiz.creatorEmail, {
+    subject: 'Your QzonMe quiz expires tomorrow',
+    paragraphs: [
+      `Hi ${quiz.creatorName},`,
+      `Your quiz expires on ${new Date(quiz.expiresAt).toUTCString()}. After that it is deleted together with its answers and leaderboard.`,
+      'You can keep it open for longer from your dashboard.',
+    ],
+    action: { label: 'Extend your quiz', url: getDashboardUrl(quiz) },
+  });
+}
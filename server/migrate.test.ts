@@ -0,0 +1,119 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { readMigrationFiles } from 'drizzle-orm/migrator';
+import { createSqliteMigrationDriver, migrateDatabase } from './migrate';
+
+// The migration runner against in-memory SQLite databases, starting from the shapes a database
+// can have when the server first starts on this version. Run with `npm test`.
+
+const migrationCount = readMigrationFiles({ migrationsFolder: path.resolve(process.cwd(), 'migrations', 'sqlite') }).length;
+
+// Tables as `drizzle-kit push` created them from the original schema, before there were migrations
+const LEGACY_SCHEMA = `
+  CREATE TABLE users (id integer PRIMARY KEY AUTOINCREMENT NOT NULL, username text NOT NULL);
+  CREATE TABLE quizzes (
+    id integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+    creator_id integer NOT NULL,
+    creator_name text NOT NULL,
+    access_code text NOT NULL UNIQUE,
+    url_slug text NOT NULL UNIQUE,
+    dashboard_token text NOT NULL UNIQUE,
+    created_at text DEFAULT CURRENT_TIMESTAMP NOT NULL
+  );
+  CREATE TABLE questions (
+    id integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+    quiz_id integer NOT NULL,
+    text text NOT NULL,
+    type text NOT NULL,
+    options text NOT NULL,
+    correct_answers text NOT NULL,
+    hint text,
+    "order" integer NOT NULL,
+    image_url text
+  );
+  CREATE TABLE quiz_attempts (
+    id integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+    quiz_id integer NOT NULL,
+    user_answer_id integer NOT NULL,
+    user_name text NOT NULL,
+    score integer NOT NULL,
+    total_questions integer NOT NULL,
+    answers text NOT NULL,
+    completed_at text DEFAULT CURRENT_TIMESTAMP NOT NULL
+  );
+`;
+
+function countAppliedMigrations(sqlite: Database.Database): number {
+  return (sqlite.prepare('SELECT count(*) AS count FROM __drizzle_migrations').get() as { count: number }).count;
+}
+
+function hasTable(sqlite: Database.Database, table: string): boolean {
+  return !!sqlite.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table);
+}
+
+describe('database migrations', () => {
+  it('creates the whole schema in an empty database', async () => {
+    const sqlite = new Database(':memory:');
+    await migrateDatabase(createSqliteMigrationDriver(sqlite));
+
+    assert.equal(countAppliedMigrations(sqlite), migrationCount);
+    for (const table of ['users', 'quizzes', 'questions', 'quiz_attempts', 'attempt_sessions', 'webhooks']) {
+      assert.equal(hasTable(sqlite, table), true, table);
+    }
+  });
+
+  it('adopts a database created before migrations, keeping and backfilling its data', async () => {
+    const sqlite = new Database(':memory:');
+    sqlite.exec(LEGACY_SCHEMA);
+    sqlite.exec(`
+      INSERT INTO users (username) VALUES ('Sam');
+      INSERT INTO quizzes (creator_id, creator_name, access_code, url_slug, dashboard_token, created_at)
+      VALUES (1, 'Sam', 'abcd1234', 'Sam-Quiz', 'token-1', '2024-05-01 12:00:00'),
+        (1, 'Sam', 'efgh5678', 'sam-quiz', 'token-2', '2024-05-02T08:30:00.000Z');
+      INSERT INTO questions (quiz_id, text, type, options, correct_answers, "order")
+      VALUES (1, 'Favourite colour?', 'multiple-choice', '["Red","Blue"]', '["Blue"]', 1);
+      INSERT INTO quiz_attempts (quiz_id, user_answer_id, user_name, score, total_questions, answers, completed_at)
+      VALUES (1, 1, 'Alex', 1, 1, '[]', '2024-05-01T13:00:00.000Z');
+    `);
+
+    await migrateDatabase(createSqliteMigrationDriver(sqlite));
+
+    assert.equal(countAppliedMigrations(sqlite), migrationCount);
+    const quizzes = sqlite.prepare('SELECT url_slug, url_slug_key, expires_at FROM quizzes ORDER BY id').all();
+    assert.deepEqual(quizzes, [
+      // Quizzes expire a week after they were created, as they did before
+      { url_slug: 'Sam-Quiz', url_slug_key: 'sam-quiz', expires_at: '2024-05-08T12:00:00.000Z' },
+      { url_slug: 'sam-quiz', url_slug_key: 'sam-quiz-2', expires_at: '2024-05-09T08:30:00.000Z' },
+    ]);
+    assert.deepEqual(sqlite.prepare('SELECT text, image_url FROM questions').all(), [{ text: 'Favourite colour?', image_url: null }]);
+    assert.deepEqual(sqlite.prepare('SELECT user_name, score FROM quiz_attempts').all(), [{ user_name: 'Alex', score: 1 }]);
+
+    // Starting again finds nothing left to do
+    await migrateDatabase(createSqliteMigrationDriver(sqlite));
+    assert.equal(countAppliedMigrations(sqlite), migrationCount);
+  });
+
+  it('refuses tables it does not recognize, and leaves them alone', async () => {
+    const handWritten = new Database(':memory:');
+    handWritten.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY AUTOINCREMENT, username TEXT NOT NULL UNIQUE);
+      CREATE TABLE quizzes (id INTEGER PRIMARY KEY AUTOINCREMENT, creator_id INTEGER NOT NULL, creator_name TEXT NOT NULL,
+        access_code TEXT NOT NULL UNIQUE, url_slug TEXT NOT NULL UNIQUE, dashboard_token TEXT NOT NULL UNIQUE,
+        created_at TEXT NOT NULL, expires_at TEXT NOT NULL);
+      CREATE TABLE questions (id INTEGER PRIMARY KEY AUTOINCREMENT, quiz_id INTEGER NOT NULL, text TEXT NOT NULL,
+        image_url TEXT, type TEXT NOT NULL, options TEXT NOT NULL, correct_answers TEXT NOT NULL);
+      CREATE TABLE quiz_attempts (id INTEGER PRIMARY KEY AUTOINCREMENT, quiz_id INTEGER NOT NULL, taker_name TEXT NOT NULL,
+        score INTEGER NOT NULL, max_score INTEGER NOT NULL, answers TEXT NOT NULL, completed_at TEXT NOT NULL);
+    `);
+    await assert.rejects(migrateDatabase(createSqliteMigrationDriver(handWritten)), /Refusing to migrate/);
+    assert.equal(hasTable(handWritten, '__drizzle_migrations'), false);
+
+    const extraTable = new Database(':memory:');
+    extraTable.exec(LEGACY_SCHEMA);
+    extraTable.exec('CREATE TABLE notes (id integer PRIMARY KEY, body text)');
+    await assert.rejects(migrateDatabase(createSqliteMigrationDriver(extraTable)), /Refusing to migrate/);
+    assert.equal(hasTable(extraTable, '__drizzle_migrations'), false);
+  });
+});
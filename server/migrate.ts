@@ -0,0 +1,257 @@
+import path from "path";
+import type { Pool } from "@neondatabase/serverless";
+import { drizzle as drizzlePostgres } from "drizzle-orm/neon-serverless";
+import { migrate as migratePostgres } from "drizzle-orm/neon-serverless/migrator";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { migrate as migrateSqlite } from "drizzle-orm/better-sqlite3/migrator";
+import { readMigrationFiles } from "drizzle-orm/migrator";
+import { DEFAULT_QUIZ_LIFETIME_DAYS } from "@shared/schema";
+import { log } from "./log";
+
+export type DatabaseDialect = "postgres" | "sqlite";
+
+// A migration recorded in the database's migrations table
+export interface AppliedMigration {
+  hash: string;
+  createdAt: number;
+}
+
+// Dialect-specific primitives the migration runner builds on
+export interface MigrationDriver {
+  dialect: DatabaseDialect;
+  // Application tables, excluding the driver's own bookkeeping
+  listTables(): Promise<string[]>;
+  listColumns(table: string): Promise<string[]>;
+  // Empty when the database has never been migrated
+  listAppliedMigrations(): Promise<AppliedMigration[]>;
+  // Runs `statements` and records `migration` as applied, all or nothing
+  applyBaseline(statements: string[], migration: AppliedMigration): Promise<void>;
+  migrate(migrationsFolder: string): Promise<void>;
+}
+
+// The parts of a better-sqlite3 connection the SQLite driver uses
+interface SqliteConnection {
+  prepare(sql: string): {
+    all(...params: unknown[]): unknown[];
+    get(...params: unknown[]): unknown;
+    run(...params: unknown[]): unknown;
+  };
+  exec(sql: string): void;
+  transaction(work: () => void): () => void;
+}
+
+/**
+ * Migration driver for a Postgres database
+ * Migrations are recorded in drizzle.__drizzle_migrations, where drizzle's migrator keeps them.
+ */
+export function createPostgresMigrationDriver(pool: Pool): MigrationDriver {
+  return {
+    dialect: "postgres",
+    async listTables() {
+      const { rows } = await pool.query(
+        "SELECT table_name FROM information_schema.tables WHERE table_schema = 'public' AND table_type = 'BASE TABLE'",
+      );
+      return rows.map((row: { table_name: string }) => row.table_name);
+    },
+    async listColumns(table) {
+      const { rows } = await pool.query(
+        "SELECT column_name FROM information_schema.columns WHERE table_schema = 'public' AND table_name = $1",
+        [table],
+      );
+      return rows.map((row: { column_name: string }) => row.column_name);
+    },
+    async listAppliedMigrations() {
+      const { rows: [migrationsTable] } = await pool.query(
+        "SELECT to_regclass('drizzle.__drizzle_migrations') AS name",
+      );
+      if (!migrationsTable?.name) return [];
+      const { rows } = await pool.query("SELECT hash, created_at FROM drizzle.__drizzle_migrations");
+      return rows.map((row: { hash: string; created_at: string }) => ({
+        hash: row.hash,
+        createdAt: Number(row.created_at),
+      }));
+    },
+    async applyBaseline(statements, migration) {
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        for (const statement of statements) {
+          await client.query(statement);
+        }
+        await client.query("CREATE SCHEMA IF NOT EXISTS drizzle");
+        await client.query(
+          "CREATE TABLE IF NOT EXISTS drizzle.__drizzle_migrations (id SERIAL PRIMARY KEY, hash text NOT NULL, created_at bigint)",
+        );
+        await client.query(
+          "INSERT INTO drizzle.__drizzle_migrations (hash, created_at) VALUES ($1, $2)",
+          [migration.hash, migration.createdAt],
+        );
+        await client.query("COMMIT");
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      } finally {
+        client.release();
+      }
+    },
+    async migrate(migrationsFolder) {
+      await migratePostgres(drizzlePostgres(pool), { migrationsFolder });
+    },
+  };
+}
+
+/**
+ * Migration driver for a SQLite database
+ * Migrations are recorded in __drizzle_migrations, where drizzle's migrator keeps them.
+ */
+export function createSqliteMigrationDriver(sqlite: SqliteConnection): MigrationDriver {
+  return {
+    dialect: "sqlite",
+    async listTables() {
+      const rows = sqlite
+        .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'")
+        .all() as { name: string }[];
+      return rows.map((row) => row.name);
+    },
+    async listColumns(table) {
+      const rows = sqlite.prepare("SELECT name FROM pragma_table_info(?)").all(table) as { name: string }[];
+      return rows.map((row) => row.name);
+    },
+    async listAppliedMigrations() {
+      const hasMigrationsTable = sqlite
+        .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = '__drizzle_migrations'")
+        .get();
+      if (!hasMigrationsTable) return [];
+      const rows = sqlite
+        .prepare("SELECT hash, created_at FROM __drizzle_migrations")
+        .all() as { hash: string; created_at: number | string }[];
+      return rows.map((row) => ({ hash: row.hash, createdAt: Number(row.created_at) }));
+    },
+    async applyBaseline(statements, migration) {
+      sqlite.transaction(() => {
+        for (const statement of statements) {
+          sqlite.exec(statement);
+        }
+        sqlite.exec(
+          "CREATE TABLE IF NOT EXISTS __drizzle_migrations (id SERIAL PRIMARY KEY, hash text NOT NULL, created_at numeric)",
+        );
+        sqlite
+          .prepare("INSERT INTO __drizzle_migrations (hash, created_at) VALUES (?, ?)")
+          .run(migration.hash, migration.createdAt);
+      })();
+    },
+    async migrate(migrationsFolder) {
+      migrateSqlite(drizzleSqlite(sqlite), { migrationsFolder });
+    },
+  };
+}
+
+/**
+ * Folder holding the migrations for a dialect
+ * SQLite migrations are generated from shared/schema.ts; the Postgres ones mirror them.
+ */
+function getMigrationsFolder(dialect: DatabaseDialect): string {
+  return path.resolve(process.cwd(), "migrations", dialect);
+}
+
+// Columns of the tables a database was given before migrations existed, by `drizzle-kit push`
+// of the original schema. Migration 0000 creates the same tables, plus the quizzes' expiry date.
+const LEGACY_TABLES: Record<string, string[]> = {
+  users: ["id", "username"],
+  quizzes: ["id", "creator_id", "creator_name", "access_code", "url_slug", "dashboard_token", "created_at"],
+  questions: ["id", "quiz_id", "text", "type", "options", "correct_answers", "hint", "order", "image_url"],
+  quiz_attempts: ["id", "quiz_id", "user_answer_id", "user_name", "score", "total_questions", "answers", "completed_at"],
+};
+
+// Legacy quizzes expire after the lifetime every quiz had back then, counted from their creation
+const LEGACY_EXPIRY_BACKFILL: Record<DatabaseDialect, string[]> = {
+  postgres: [
+    'ALTER TABLE "quizzes" ADD COLUMN "expires_at" text',
+    `UPDATE "quizzes" SET "expires_at" = to_char(("created_at"::timestamptz + interval '${DEFAULT_QUIZ_LIFETIME_DAYS} days') AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')`,
+    'ALTER TABLE "quizzes" ALTER COLUMN "expires_at" SET NOT NULL',
+  ],
+  sqlite: [
+    "ALTER TABLE `quizzes` ADD `expires_at` text NOT NULL DEFAULT ''",
+    `UPDATE \`quizzes\` SET \`expires_at\` = strftime('%Y-%m-%dT%H:%M:%fZ', \`created_at\`, '+${DEFAULT_QUIZ_LIFETIME_DAYS} days')`,
+  ],
+};
+
+/**
+ * Works out how to bring tables created before migrations existed in line with migration 0000
+ * @returns The statements to run, or null when the tables are not the legacy schema
+ */
+async function getLegacySchemaConversion(driver: MigrationDriver, tables: string[]): Promise<string[] | null> {
+  if (tables.length !== Object.keys(LEGACY_TABLES).length) return null;
+
+  let hasExpiry = false;
+  for (const table of tables) {
+    const expected = LEGACY_TABLES[table];
+    if (!expected) return null;
+
+    const columns = await driver.listColumns(table);
+    if (expected.some((column) => !columns.includes(column))) return null;
+
+    const extra = columns.filter((column) => !expected.includes(column));
+    if (table === "quizzes" && extra.length === 1 && extra[0] === "expires_at") {
+      hasExpiry = true;
+    } else if (extra.length > 0) {
+      return null;
+    }
+  }
+
+  return hasExpiry ? [] : LEGACY_EXPIRY_BACKFILL[driver.dialect];
+}
+
+/**
+ * Brings the database schema up to date before the server starts
+ * A database set up before migrations existed is adopted first: its tables are brought in line
+ * with migration 0000, which is then recorded as applied, so the later migrations (and their
+ * backfills) run on it like on any other.
+ * Refuses to touch a database it does not recognize:
+ * - tables that exist without any recorded migration and are not the legacy schema
+ * - recorded migrations that are not part of this build, or whose SQL has changed since
+ * In both cases the schema cannot be trusted to match shared/schema.ts, so an error is thrown.
+ */
+export async function migrateDatabase(driver: MigrationDriver): Promise<void> {
+  const migrationsFolder = getMigrationsFolder(driver.dialect);
+  const knownMigrations = readMigrationFiles({ migrationsFolder });
+  let appliedMigrations = await driver.listAppliedMigrations();
+  const tables = (await driver.listTables()).filter((table) => table !== "__drizzle_migrations");
+
+  if (appliedMigrations.length === 0 && tables.length > 0) {
+    const conversion = await getLegacySchemaConversion(driver, tables);
+    if (!conversion) {
+      throw new Error(
+        `Refusing to migrate: the ${driver.dialect} database already has tables (${tables.join(", ")}) ` +
+        "that were neither created by migrations nor match the schema from before them. " +
+        "Back up and move the existing data aside before starting the server.",
+      );
+    }
+
+    const [initialMigration] = knownMigrations;
+    log(`Adopting the ${driver.dialect} database created before migrations existed`);
+    await driver.applyBaseline(conversion, { hash: initialMigration.hash, createdAt: initialMigration.folderMillis });
+    appliedMigrations = await driver.listAppliedMigrations();
+  }
+
+  for (const applied of appliedMigrations) {
+    const known = knownMigrations.find((migration) => migration.folderMillis === applied.createdAt);
+    if (!known) {
+      throw new Error(
+        `Refusing to migrate: the database has a migration from ${new Date(applied.createdAt).toISOString()} ` +
+        "that this build does not know about. It was probably migrated by a newer version of the app.",
+      );
+    }
+    if (known.hash !== applied.hash) {
+      throw new Error(
+        `Refusing to migrate: the migration from ${new Date(applied.createdAt).toISOString()} ` +
+        "was changed after it had been applied to this database.",
+      );
+    }
+  }
+
+  const pending = knownMigrations.length - appliedMigrations.length;
+  log(`Applying ${pending} pending ${driver.dialect} migration(s) from ${migrationsFolder}`);
+  await driver.migrate(migrationsFolder);
+  log("Database schema is up to date");
+}
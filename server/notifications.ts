@@ -0,0 +1,64 @@
+import type { Quiz, QuizAttempt } from '@shared/schema';
+import type { IStorage } from './storage';
+import { sendMailInBackground } from './mail';
+import { attemptCompletedMail, expiryReminderMail } from './mailTemplates';
+import { log } from './log';
+
+// How long before expiry creators are reminded, and how often quizzes are checked for it
+const EXPIRY_REMINDER_LEAD_MS = 24 * 60 * 60 * 1000;
+const EXPIRY_REMINDER_INTERVAL_MS = 60 * 60 * 1000;
+
+function hasCreatorEmail(quiz: Quiz): quiz is Quiz & { creatorEmail: string } {
+  return !!quiz.creatorEmail;
+}
+
+/**
+ * Emails the creator about a finished attempt, if they opted in
+ * Returns straight away; the email is sent in the background.
+ */
+export function notifyCreatorOfAttempt(quiz: Quiz, attempt: QuizAttempt): void {
+  if (!hasCreatorEmail(quiz)) return;
+  sendMailInBackground(attemptCompletedMail(quiz, attempt));
+}
+
+/**
+ * Emails a reminder to the creators of quizzes that expire within a day
+ * Quizzes that were created to last a day or less get none: they would be reminded straight away.
+ * Each reminder is claimed before it is sent, so it goes out once even with several server instances.
+ * @returns The number of reminders sent
+ */
+export async function sendExpiryReminders(storage: IStorage, now: Date = new Date()): Promise<number> {
+  const dueQuizzes = await storage.getQuizzesDueForExpiryReminder(now, new Date(now.getTime() + EXPIRY_REMINDER_LEAD_MS));
+
+  let sent = 0;
+  for (const quiz of dueQuizzes) {
+    if (!hasCreatorEmail(quiz)) continue;
+
+    const lifetimeMs = new Date(quiz.expiresAt).getTime() - new Date(quiz.createdAt).getTime();
+    if (lifetimeMs <= EXPIRY_REMINDER_LEAD_MS) continue;
+
+    if (await storage.markExpiryReminderSent(quiz.id, now)) {
+      sendMailInBackground(expiryReminderMail(quiz));
+      sent++;
+    }
+  }
+  return sent;
+}
+
+/**
+ * Checks for quizzes that need an expiry reminder every hour
+ * @param storage Storage the quizzes are read from
+ */
+export function scheduleExpiryReminders(storage: IStorage) {
+  const run = async () => {
+    try {
+      const sent = await sendExpiryReminders(storage);
+      if (sent > 0) log(`Sent ${sent} quiz expiry reminders`, 'mail');
+    } catch (error) {
+      log(`Error sending expiry reminders: ${error instanceof Error ? error.message : String(error)}`, 'mail');
+    }
+  };
+
+  run();
+  return setInterval(run, EXPIRY_REMINDER_INTERVAL_MS);
+}
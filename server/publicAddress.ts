@@ -0,0 +1,98 @@
+import { BlockList, isIP } from 'net';
+import type { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+
+/**
+ * Tells addresses on the public internet from loopback, private, link-local and other special ones,
+ * so a URL someone typed in can never make this server reach into its own network
+ * (databases, cloud metadata at 169.254.169.254, admin ports on localhost...).
+ */
+
+const nonPublicRanges = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, cloud metadata
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // protocol assignments
+  ['192.0.2.0', 24], // documentation
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['198.51.100.0', 24], // documentation
+  ['203.0.113.0', 24], // documentation
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, broadcast
+] as const) {
+  nonPublicRanges.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], // unspecified
+  ['::1', 128], // loopback
+  ['100::', 64], // discard
+  ['2001:db8::', 32], // documentation
+  ['fc00::', 7], // unique local, cloud metadata
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  nonPublicRanges.addSubnet(network, prefix, 'ipv6');
+}
+
+// IPv6 forms that carry an IPv4 address: mapped (::ffff:a.b.c.d), NAT64 (64:ff9b::a.b.c.d)
+// and the deprecated compatible form (::a.b.c.d)
+const EMBEDDED_IPV4 = /^(?:::ffff:(?:0:)?|64:ff9b::|::)((?:\d{1,3}\.){3}\d{1,3})$/i;
+const EMBEDDED_IPV4_HEX = /^(?:::ffff:(?:0:)?|64:ff9b::|::)([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i;
+
+function getEmbeddedIpv4(address: string): string | null {
+  const dotted = address.match(EMBEDDED_IPV4);
+  if (dotted) return dotted[1];
+
+  const hex = address.match(EMBEDDED_IPV4_HEX);
+  if (!hex) return null;
+  const high = parseInt(hex[1], 16);
+  const low = parseInt(hex[2], 16);
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+/**
+ * Whether an IP address is reachable on the public internet
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return !nonPublicRanges.check(address, 'ipv4');
+  if (family !== 6) return false;
+
+  const embedded = getEmbeddedIpv4(address);
+  if (embedded !== null) return isIP(embedded) === 4 && !nonPublicRanges.check(embedded, 'ipv4');
+  return !nonPublicRanges.check(address, 'ipv6');
+}
+
+/**
+ * Resolves the host of a URL, making sure every address it resolves to is public
+ * Connecting to the returned address, rather than resolving the name again, means the name
+ * cannot be switched to a private address between the check and the request.
+ * @param hostname Host name or IP address; IPv6 addresses may keep their URL brackets
+ * @throws Error with a message that can be shown as is when the host is not public or does not resolve
+ */
+export async function resolvePublicAddress(hostname: string): Promise<LookupAddress> {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+
+  const family = isIP(host);
+  let addresses: LookupAddress[];
+  if (family !== 0) {
+    addresses = [{ address: host, family }];
+  } else {
+    try {
+      addresses = await lookup(host, { all: true, verbatim: true });
+    } catch {
+      throw new Error(`Could not resolve ${host}`);
+    }
+  }
+
+  if (addresses.length === 0) throw new Error(`Could not resolve ${host}`);
+  if (!addresses.every(({ address }) => isPublicAddress(address))) {
+    throw new Error(`${host} is not a public address`);
+  }
+  return addresses[0];
+}
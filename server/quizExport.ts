@@ -0,0 +1,162 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  QUIZ_EXPORT_FORMAT,
+  QUIZ_EXPORT_VERSION,
+  type Question,
+  type Quiz,
+  type QuizExport,
+  type QuizExportImage,
+  type QuizExportImageMode,
+} from '@shared/schema';
+import { LOCAL_UPLOAD_DIR, LOCAL_UPLOAD_ROUTE } from './imageStorage';
+import { toCreatorQuestion } from './serializers';
+import { log } from './log';
+
+// Embedded images are held to the upload limit; remote ones get 10s to download
+const MAX_EMBEDDED_IMAGE_BYTES = 10 * 1024 * 1024;
+const IMAGE_DOWNLOAD_TIMEOUT_MS = 10 * 1000;
+
+// Remote images are only downloaded from the Cloudinary backend, so an export can never be
+// used to make this server fetch an arbitrary address a creator typed in
+const EMBEDDABLE_IMAGE_HOSTS = ['res.cloudinary.com'];
+
+// The image types the upload route accepts
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+};
+
+// An image's bytes, read back from wherever it is stored
+export interface StoredImage {
+  mimeType: string;
+  data: Buffer;
+  // File extension the upload route would accept it with, e.g. ".png"
+  extension: string;
+}
+
+function toDataUrl({ mimeType, data }: StoredImage): string {
+  return `data:${mimeType};base64,${data.toString('base64')}`;
+}
+
+function getImageExtension(mimeType: string): string {
+  const extension = Object.keys(IMAGE_MIME_TYPES).find((candidate) => IMAGE_MIME_TYPES[candidate] === mimeType);
+  if (!extension) throw new Error(`Unsupported image type: ${mimeType}`);
+  return extension;
+}
+
+/**
+ * Reads an image the local backend serves, or downloads one stored on Cloudinary
+ */
+async function readStoredImage(url: string): Promise<StoredImage> {
+  if (url.startsWith(`${LOCAL_UPLOAD_ROUTE}/`)) {
+    // basename keeps the read inside the upload directory
+    const key = path.basename(decodeURIComponent(url.split('?')[0]));
+    const mimeType = IMAGE_MIME_TYPES[path.extname(key).toLowerCase()];
+    if (!mimeType) throw new Error(`Unknown image type: ${key}`);
+
+    const data = await fs.promises.readFile(path.join(LOCAL_UPLOAD_DIR, key));
+    if (data.length > MAX_EMBEDDED_IMAGE_BYTES) throw new Error(`Image is larger than ${MAX_EMBEDDED_IMAGE_BYTES} bytes`);
+    return { mimeType, data, extension: path.extname(key).toLowerCase() };
+  }
+
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== 'https:' || !EMBEDDABLE_IMAGE_HOSTS.includes(hostname)) {
+    throw new Error('Only images stored by QzonMe can be embedded');
+  }
+
+  const response = await fetch(url, { signal: AbortSignal.timeout(IMAGE_DOWNLOAD_TIMEOUT_MS) });
+  if (!response.ok) throw new Error(`Responded with HTTP ${response.status}`);
+
+  const mimeType = response.headers.get('content-type')?.split(';')[0].trim() ?? '';
+  if (!mimeType.startsWith('image/')) throw new Error(`Not an image: ${mimeType || 'no content type'}`);
+
+  const data = Buffer.from(await response.arrayBuffer());
+  if (data.length > MAX_EMBEDDED_IMAGE_BYTES) throw new Error(`Image is larger than ${MAX_EMBEDDED_IMAGE_BYTES} bytes`);
+  return { mimeType, data, extension: getImageExtension(mimeType) };
+}
+
+/**
+ * Reads an image an imported quiz links to, so the new quiz can store its own copy
+ * Two quizzes must never share an image: deleting either would delete it for both.
+ * @param baseUrl Origin of this server, to tell its own upload URLs from another server's
+ * @returns The image, or null when it is not stored by QzonMe and nobody will delete it
+ */
+export async function readImportedImage(imageUrl: string, baseUrl: string): Promise<StoredImage | null> {
+  const url = new URL(imageUrl, baseUrl);
+  if (url.origin === new URL(baseUrl).origin && url.pathname.startsWith(`${LOCAL_UPLOAD_ROUTE}/`)) {
+    return readStoredImage(url.pathname);
+  }
+  return EMBEDDABLE_IMAGE_HOSTS.includes(url.hostname) ? readStoredImage(url.toString()) : null;
+}
+
+/**
+ * Writes a question's image the way the export asks for
+ * A referenced image gets an absolute URL, so the file still points at it from anywhere.
+ * An image that cannot be embedded is referenced instead, so the export never fails over one image.
+ * @param baseUrl Origin the relative URLs of the local backend are resolved against
+ */
+async function toExportImage(imageUrl: string | null, mode: QuizExportImageMode, baseUrl: string): Promise<QuizExportImage | null> {
+  if (!imageUrl) return null;
+  if (imageUrl.startsWith('data:')) return { dataUrl: imageUrl };
+
+  const url = new URL(imageUrl, baseUrl).toString();
+  if (mode === 'reference') return { url };
+
+  try {
+    return { dataUrl: toDataUrl(await readStoredImage(imageUrl.startsWith('/') ? imageUrl : url)) };
+  } catch (error) {
+    log(`Could not embed image ${imageUrl}, referencing it instead: ${error instanceof Error ? error.message : String(error)}`);
+    return { url };
+  }
+}
+
+/**
+ * Builds the export file of a quiz: its metadata and its questions in order, with their answer keys
+ * Never includes the dashboard token, the creator's email or any attempt.
+ * @param questions The quiz's questions, in order
+ * @param images Whether images are referenced by URL or embedded as data URLs
+ * @param baseUrl Origin of this server, for images it serves itself
+ */
+export async function buildQuizExport(
+  quiz: Quiz,
+  questions: Question[],
+  images: QuizExportImageMode,
+  baseUrl: string,
+): Promise<QuizExport> {
+  return {
+    format: QUIZ_EXPORT_FORMAT,
+    version: QUIZ_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    quiz: {
+      creatorName: quiz.creatorName,
+      retakePolicy: quiz.retakePolicy,
+      createdAt: quiz.createdAt,
+      expiresAt: quiz.expiresAt,
+    },
+    questions: await Promise.all(questions.map(async (question) => {
+      const { options, correctAnswers } = toCreatorQuestion(question);
+      return {
+        text: question.text,
+        type: question.type,
+        scoring: question.scoring,
+        strictness: question.strictness,
+        hint: question.hint,
+        image: await toExportImage(question.imageUrl, images, baseUrl),
+        options: options.map((text) => ({ text, isCorrect: correctAnswers.includes(text) })),
+        // Open-ended questions have no options; their answer key is the accepted answers
+        acceptedAnswers: question.type === 'open-ended' ? correctAnswers : [],
+      };
+    })),
+  };
+}
+
+/**
+ * File name the export is downloaded as, e.g. `qzonme-quiz-sams-quiz.json`
+ */
+export function getQuizExportFileName(quiz: Quiz): string {
+  const name = quiz.urlSlug.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-+|-+$/g, '');
+  return `qzonme-quiz-${name || quiz.id}.json`;
+}
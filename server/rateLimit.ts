@@ -0,0 +1,153 @@
+import type { Request, RequestHandler } from 'express';
+import type { IStorage } from './storage';
+import { log } from './log';
+
+// How many requests a limiter lets through per window
+export interface RateLimitRule {
+  max: number;
+  windowMs: number;
+}
+
+// State of one counter after a hit
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+// Rate limit store interface
+export interface RateLimitStore {
+  readonly name: string;
+
+  // Counts one hit against `key`; a window that has run out starts over at 1
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+// Expired counters are dropped this often so idle keys do not pile up
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Counters kept in this process, enough for a single server instance
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private counters = new Map<string, RateLimitHit>();
+
+  constructor() {
+    // Unref'd so the sweep never keeps the process alive
+    setInterval(() => this.sweep(), SWEEP_INTERVAL_MS).unref();
+  }
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const existing = this.counters.get(key);
+    const counter = existing && existing.resetAt.getTime() > now
+      ? { count: existing.count + 1, resetAt: existing.resetAt }
+      : { count: 1, resetAt: new Date(now + windowMs) };
+    this.counters.set(key, counter);
+    return counter;
+  }
+
+  private sweep() {
+    const now = Date.now();
+    for (const [key, counter] of Array.from(this.counters.entries())) {
+      if (counter.resetAt.getTime() <= now) this.counters.delete(key);
+    }
+  }
+}
+
+// Counters kept in the database, so every server instance enforces the same limits
+export class StorageRateLimitStore implements RateLimitStore {
+  readonly name = 'shared';
+
+  constructor(private readonly storage: IStorage) {
+    setInterval(() => {
+      this.storage.deleteExpiredRateLimits(new Date()).catch((error) => {
+        log(`Error deleting expired rate limits: ${error instanceof Error ? error.message : String(error)}`, 'rate-limit');
+      });
+    }, SWEEP_INTERVAL_MS).unref();
+  }
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const rateLimit = await this.storage.hitRateLimit(key, windowMs, new Date());
+    return { count: rateLimit.count, resetAt: new Date(rateLimit.resetAt) };
+  }
+}
+
+/**
+ * Picks the rate limit store from the environment
+ * `RATE_LIMIT_STORE=shared` keeps the counters in the database for multi-instance
+ * deployments; anything else keeps them in this process.
+ * @param storage Storage the shared store writes its counters to
+ */
+export function createRateLimitStore(storage: IStorage): RateLimitStore {
+  const requested = process.env.RATE_LIMIT_STORE?.toLowerCase();
+
+  if (requested === 'shared') {
+    return new StorageRateLimitStore(storage);
+  }
+
+  if (requested && requested !== 'memory') {
+    log(`Unknown RATE_LIMIT_STORE "${requested}", falling back to the in-memory rate limit store`);
+  }
+  return new MemoryRateLimitStore();
+}
+
+/**
+ * Reads the rule of a limiter, which `RATE_LIMIT_<NAME>` can override
+ * The variable holds "<max>/<window in seconds>", e.g. RATE_LIMIT_ATTEMPTS_IP=20/600.
+ * @param name Limiter name, e.g. "attempts-ip"
+ * @param defaults Rule used when the variable is missing or malformed
+ */
+export function getRateLimitRule(name: string, defaults: RateLimitRule): RateLimitRule {
+  const variable = `RATE_LIMIT_${name.toUpperCase().replace(/-/g, '_')}`;
+  const value = process.env[variable];
+  if (!value) return defaults;
+
+  const match = value.match(/^(\d+)\/(\d+)$/);
+  if (!match || Number(match[1]) < 1 || Number(match[2]) < 1) {
+    log(`Ignoring malformed ${variable}="${value}", expected "<max>/<seconds>"`, 'rate-limit');
+    return defaults;
+  }
+  return { max: Number(match[1]), windowMs: Number(match[2]) * 1000 };
+}
+
+export interface RateLimiterOptions extends RateLimitRule {
+  // Prefix of the counter keys, so limiters never share counters
+  name: string;
+  // The IP, quiz, ... the request counts against; requests without one are let through
+  key: (req: Request) => string | null | Promise<string | null>;
+  message?: string;
+}
+
+// Counts requests per client IP
+export const byIp = (req: Request) => req.ip || null;
+
+/**
+ * Creates middleware that answers 429 once a key has used up its window
+ * The response carries `Retry-After` (in seconds) and the same value as `retryAfter`.
+ * If the store fails the request is let through: an outage of the counters must not
+ * take the public endpoints down with it.
+ * @param store Store the counters are kept in
+ * @param options Rule, counter name and key of the limiter
+ */
+export function createRateLimiter(store: RateLimitStore, options: RateLimiterOptions): RequestHandler {
+  const { name, max, windowMs, key, message = 'Too many requests, please try again later.' } = options;
+
+  return async (req, res, next) => {
+    let retryAfter: number;
+    try {
+      const requestKey = await key(req);
+      if (!requestKey) return next();
+
+      const { count, resetAt } = await store.hit(`${name}:${requestKey}`, windowMs);
+      if (count <= max) return next();
+
+      retryAfter = Math.max(1, Math.ceil((resetAt.getTime() - Date.now()) / 1000));
+      log(`Rate limit ${name} exceeded for ${requestKey} (${count}/${max})`, 'rate-limit');
+    } catch (error) {
+      log(`Rate limit ${name} check failed, letting the request through: ${error instanceof Error ? error.message : String(error)}`, 'rate-limit');
+      return next();
+    }
+
+    res.set('Retry-After', String(retryAfter));
+    res.status(429).json({ message, retryAfter });
+  };
+}
@@ -0,0 +1,64 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { InsertQuizAttempt, RetakePolicy } from '@shared/schema';
+import { MemStorage } from './storage';
+
+// Submitting attempt sessions under the retake policies. Runs on a MemStorage. Run with `npm test`.
+
+const TAKER_ID = 7;
+
+function attemptFields(quizId: number): InsertQuizAttempt {
+  return {
+    quizId,
+    userAnswerId: TAKER_ID,
+    userName: 'Alex',
+    score: 1,
+    totalQuestions: 1,
+    answers: '[]',
+    durationMs: 1000,
+  };
+}
+
+describe('attempt session submission', () => {
+  let storage: MemStorage;
+
+  const startSession = (quizId: number, token: string) =>
+    storage.createAttemptSession({ token, quizId, userAnswerId: TAKER_ID, userName: 'Alex' });
+
+  beforeEach(() => {
+    storage = new MemStorage();
+  });
+
+  it('stores a single attempt when two sessions of one taker are submitted at once', async () => {
+    const [first, second] = await Promise.all([startSession(1, 'session-1'), startSession(1, 'session-2')]);
+
+    const completions = await Promise.all([
+      storage.completeAttemptSession(first.id, attemptFields(1), 'single'),
+      storage.completeAttemptSession(second.id, attemptFields(1), 'single'),
+    ]);
+
+    assert.deepEqual(completions.map((completion) => completion.status).sort(), ['blocked', 'completed']);
+    assert.equal((await storage.getQuizAttemptsByTaker(1, TAKER_ID)).length, 1);
+  });
+
+  it('keeps every attempt when retakes are allowed', async () => {
+    for (const retakePolicy of ['best', 'latest'] satisfies RetakePolicy[]) {
+      const quizId = retakePolicy === 'best' ? 1 : 2;
+      const [first, second] = await Promise.all([startSession(quizId, `${retakePolicy}-1`), startSession(quizId, `${retakePolicy}-2`)]);
+
+      await storage.completeAttemptSession(first.id, attemptFields(quizId), retakePolicy);
+      const completion = await storage.completeAttemptSession(second.id, attemptFields(quizId), retakePolicy);
+
+      assert.equal(completion.status, 'completed');
+      assert.equal((await storage.getQuizAttemptsByTaker(quizId, TAKER_ID)).length, 2);
+    }
+  });
+
+  it('reports a session that was already submitted', async () => {
+    const session = await startSession(1, 'session-1');
+    await storage.completeAttemptSession(session.id, attemptFields(1), 'single');
+
+    const completion = await storage.completeAttemptSession(session.id, attemptFields(1), 'single');
+    assert.equal(completion.status, 'already-completed');
+  });
+});
@@ -0,0 +1,106 @@
+import type { LeaderboardEntry, Quiz, QuizAttempt, RetakePolicy } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { toLeaderboardAttempt, toLeaderboardEntry } from "./serializers";
+
+/**
+ * Rules for takers who attempt the same quiz more than once.
+ * Takers are identified by the id the server issued them (`userAnswerId`, see ./takerIdentity).
+ */
+
+/**
+ * Finds the attempt that stops a taker from starting or submitting another one
+ * @param storage Storage to read the taker's attempts from
+ * @param quiz Quiz being taken
+ * @param userAnswerId Identity of the taker
+ * @returns The taker's earlier attempt when the quiz allows a single attempt, otherwise undefined
+ */
+export async function getBlockingAttempt(
+  storage: IStorage,
+  quiz: Quiz,
+  userAnswerId: number,
+): Promise<QuizAttempt | undefined> {
+  if (quiz.retakePolicy !== "single") return undefined;
+
+  const [previousAttempt] = await storage.getQuizAttemptsByTaker(quiz.id, userAnswerId);
+  return previousAttempt;
+}
+
+// Share of questions answered correctly, so attempts graded against different question counts compare fairly
+function getScoreRatio(attempt: QuizAttempt): number {
+  return attempt.score / (attempt.totalQuestions || 1);
+}
+
+// Higher score first; on a tie the earlier attempt wins
+function compareByScore(a: QuizAttempt, b: QuizAttempt): number {
+  return getScoreRatio(b) - getScoreRatio(a) || a.completedAt.localeCompare(b.completedAt) || a.id - b.id;
+}
+
+/**
+ * Picks the attempt that counts for a taker
+ * - single and best: the highest score
+ * - latest: the most recent attempt
+ */
+function getCountedAttempt(attempts: QuizAttempt[], retakePolicy: RetakePolicy): QuizAttempt {
+  if (retakePolicy === "latest") {
+    return attempts.reduce((latest, attempt) => (attempt.completedAt >= latest.completedAt ? attempt : latest));
+  }
+  return [...attempts].sort(compareByScore)[0];
+}
+
+// Groups attempts by taker, keeping their order within each group
+function groupByTaker(attempts: QuizAttempt[]): Map<number, QuizAttempt[]> {
+  const attemptsByTaker = new Map<number, QuizAttempt[]>();
+  for (const attempt of attempts) {
+    const takerAttempts = attemptsByTaker.get(attempt.userAnswerId) ?? [];
+    takerAttempts.push(attempt);
+    attemptsByTaker.set(attempt.userAnswerId, takerAttempts);
+  }
+  return attemptsByTaker;
+}
+
+/**
+ * Re-marks the attempts the retake policy counts, which are the ones the leaderboard lists
+ * Run after a taker submits (for that taker only), and for the whole quiz whenever scores
+ * or the policy change.
+ * @param storage Storage to read the attempts from and write the flags to
+ * @param quiz Quiz whose attempts are re-marked
+ * @param userAnswerId Limits the update to one taker's attempts
+ */
+export async function refreshCountedAttempts(
+  storage: IStorage,
+  quiz: Quiz,
+  userAnswerId?: number,
+): Promise<void> {
+  const attempts = userAnswerId !== undefined
+    ? await storage.getQuizAttemptsByTaker(quiz.id, userAnswerId)
+    : await storage.getQuizAttempts(quiz.id);
+  if (attempts.length === 0) return;
+
+  const countedIds = Array.from(groupByTaker(attempts).values())
+    .map((takerAttempts) => getCountedAttempt(takerAttempts, quiz.retakePolicy).id);
+  await storage.setCountedAttempts(quiz.id, countedIds, userAnswerId);
+}
+
+/**
+ * Turns counted attempts into leaderboard rows, each with the taker's full history (ranks are added by the caller)
+ * @param storage Storage to read the takers' other attempts from
+ * @param quizId Quiz the attempts belong to
+ * @param countedAttempts Counted attempts, in the order the rows should keep
+ * @returns One row per attempt, with the history newest first
+ */
+export async function toLeaderboardEntries(
+  storage: IStorage,
+  quizId: number,
+  countedAttempts: QuizAttempt[],
+): Promise<Omit<LeaderboardEntry, "rank">[]> {
+  const takerIds = countedAttempts.map((attempt) => attempt.userAnswerId);
+  const attemptsByTaker = groupByTaker(await storage.getQuizAttemptsByTakers(quizId, takerIds));
+
+  return countedAttempts.map((counted) => ({
+    ...toLeaderboardEntry(counted),
+    history: (attemptsByTaker.get(counted.userAnswerId) ?? [counted])
+      .slice()
+      .sort((a, b) => b.completedAt.localeCompare(a.completedAt))
+      .map(toLeaderboardAttempt),
+  }));
+}
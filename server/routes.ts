@@ -1,17 +1,34 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { db } from "./db";
+import type { IStorage } from "./storage";
 import { 
   insertUserSchema, 
-  insertQuizSchema, 
-  insertQuestionSchema, 
-  insertQuizAttemptSchema,
-  questionAnswerSchema,
-  quizzes,
-  quizAttempts,
-  questions,
-  users // Added users table import
+  createQuizWithQuestionsSchema,
+  quizQuestionInputSchema,
+  reorderQuestionsSchema,
+  extendQuizExpirySchema,
+  updateRetakePolicySchema,
+  getQuizExpiryDate,
+  MAX_QUIZ_LIFETIME_DAYS,
+  MIN_QUIZ_QUESTIONS,
+  parseJsonField,
+  stringifyJsonField,
+  submitQuizAttemptSchema,
+  startAttemptSessionSchema,
+  lockSessionAnswerSchema,
+  attemptPageQuerySchema,
+  attemptRankQuerySchema,
+  quizExportQuerySchema,
+  attemptExportQuerySchema,
+  acceptAnswerSchema,
+  copyImageSchema,
+  MAX_TYPED_ANSWER_LENGTH,
+  MAX_ACCEPTED_ANSWERS,
+  type AttemptReview,
+  type AttemptPage,
+  type LeaderboardPage,
+  type ParsedQuizAttempt,
+  type StartedAttemptSession,
 } from "@shared/schema";
 import { z } from "zod";
 import multer from "multer";
@@ -19,14 +36,33 @@ import path from "path";
 import fs from "fs";
 import { fileURLToPath } from "url";
 import { registerContactRoutes } from "./routes/contact";
-import { eq } from "drizzle-orm"; // Import eq for queries
-import { log } from "./vite"; // Assuming log function is available
+import { registerAdminRoutes } from "./routes/admin";
+import { registerWebhookRoutes } from "./routes/webhooks";
+import { deleteQuizzesWithRelatedData } from "./cleanup";
+import { imageStorage } from "./imageStorage";
+import { getCorrectAnswers, gradeAttempt, isAnswerShapeValid, regradeQuizAttempts } from "./grading";
+import { normalizeTypedAnswer } from "./answerMatching";
+import { fromQuestionInput, toAttemptSessionView, toCreatorQuestion, toLeaderboardEntry, toParsedAttempt, toPublicQuiz, toReviewQuestion, toTakerQuestion } from "./serializers";
+import { authorizeDashboardToken, canViewAttempt, createDashboardTokenGuard, getAuthorizedQuiz } from "./auth";
+import { createAdminSession, getAdminCredentials, requireAdmin } from "./adminAuth";
+import { getBlockingAttempt, refreshCountedAttempts } from "./retakePolicy";
+import { ensureTakerSigningSecret, resolveTaker } from "./takerIdentity";
+import { decodeAttemptCursor, getAttemptPage, getAttemptRank, getLeaderboardEntries } from "./attemptPages";
+import { summarizeAttempts } from "./attemptStats";
+import { notifyCreatorOfAttempt } from "./notifications";
+import { dispatchWebhookEventInBackground } from "./webhooks";
+import { publishAttempt, publishReranked, streamQuizUpdates } from "./liveUpdates";
+import { buildQuizExport, getQuizExportFileName, readImportedImage } from "./quizExport";
+import { streamAttemptExport } from "./attemptExport";
+import { byIp, createRateLimiter, createRateLimitStore, getRateLimitRule, type RateLimitRule, type RateLimiterOptions } from "./rateLimit";
+import { generateAccessCode, generateDashboardToken, generateSessionToken, generateUrlSlug } from "./identifiers";
+import { log } from "./log"; // Assuming log function is available
 
 // Setup dirname equivalent in ES modules
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// Setup temporary upload directory for processing before sending to Cloudinary
+// Setup temporary upload directory for processing before handing files to the image storage
 const projectRoot = path.resolve(__dirname, "..");
 const tempUploadDir = path.join(projectRoot, "temp_uploads");
 
@@ -73,17 +109,60 @@ const upload = multer({
   },
 });
 
-export async function registerRoutes(app: Express): Promise<Server> {
+/**
+ * Registers the API routes
+ * @param storage Storage every handler reads from and writes to
+ */
+export async function registerRoutes(app: Express, storage: IStorage): Promise<Server> {
+  // Creator-only routes must present the quiz's dashboard token
+  const requireDashboardToken = createDashboardTokenGuard(storage);
+
+  // Public write endpoints are throttled per client IP and, where a quiz is involved, per quiz
+  const rateLimitStore = createRateLimitStore(storage);
+  log(`Using ${rateLimitStore.name} rate limit store`);
+  const rateLimit = (name: string, defaults: RateLimitRule, key: RateLimiterOptions["key"] = byIp) =>
+    createRateLimiter(rateLimitStore, { name, key, ...getRateLimitRule(name, defaults) });
+
+  const limitUsersByIp = rateLimit("users-ip", { max: 20, windowMs: 60 * 60 * 1000 });
+  const limitAttemptsByIp = rateLimit("attempts-ip", { max: 10, windowMs: 10 * 60 * 1000 });
+  // Attempts start on a route naming the quiz, and are submitted with the token of the session they started
+  const limitAttemptsByQuiz = rateLimit("attempts-quiz", { max: 100, windowMs: 10 * 60 * 1000 }, async (req) => {
+    if (req.params.quizId) {
+      const quizId = parseInt(req.params.quizId);
+      return isNaN(quizId) ? null : String(quizId);
+    }
+    const sessionToken = req.body?.sessionToken;
+    const session = typeof sessionToken === "string" ? await storage.getAttemptSessionByToken(sessionToken) : undefined;
+    return session ? String(session.quizId) : null;
+  });
+  const limitAnswersByIp = rateLimit("answers-ip", { max: 60, windowMs: 60 * 1000 });
+  const limitAnswersByQuiz = rateLimit("answers-quiz", { max: 300, windowMs: 60 * 1000 }, async (req) => {
+    const session = await storage.getAttemptSessionByToken(req.params.token);
+    return session ? String(session.quizId) : null;
+  });
+  const limitContactByIp = rateLimit("contact-ip", { max: 5, windowMs: 60 * 60 * 1000 });
+  const limitAdminLoginByIp = rateLimit("admin-login-ip", { max: 10, windowMs: 15 * 60 * 1000 });
+  const limitStreamsByIp = rateLimit("streams-ip", { max: 30, windowMs: 60 * 1000 });
+  const limitImageCopiesByIp = rateLimit("image-copies-ip", { max: 100, windowMs: 10 * 60 * 1000 });
+
+  // The admin area and the contact inbox are for a logged-in admin only; nothing else uses the session
+  app.use(["/api/admin", "/api/contact/messages"], createAdminSession());
+  if (!getAdminCredentials()) {
+    log("ADMIN_PASSWORD_HASH is not set - admin login is disabled");
+  }
+  // Taker tokens are signed with the same SESSION_SECRET, which must be set in production
+  ensureTakerSigningSecret();
+
   // User routes
-  app.post("/api/users", async (req, res) => {
+  app.post("/api/users", limitUsersByIp, async (req, res) => {
     try {
       const userData = insertUserSchema.parse(req.body);
       // Check if user already exists
-      const existingUser = await db.select().from(users).where(eq(users.username, userData.username)).limit(1);
-      if (existingUser.length > 0) {
+      const existingUser = await storage.getUserByUsername(userData.username);
+      if (existingUser) {
         // User exists, return existing user data
         log(`User "${userData.username}" already exists. Returning existing user.`);
-        res.status(200).json(existingUser[0]);
+        res.status(200).json(existingUser);
       } else {
         // User does not exist, create new user
         log(`Creating new user: "${userData.username}"`);
@@ -101,21 +180,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Quiz routes
+  // Creates a quiz together with all of its questions in one transaction.
+  // The slug, access code and dashboard token are generated here, never by the client.
   app.post("/api/quizzes", async (req, res) => {
     try {
-      const quizData = insertQuizSchema.parse(req.body);
-
-      // Additional server-side validation for creator name
-      if (!quizData.creatorName || quizData.creatorName.trim() === "") {
-        log("Validation Error: Creator name cannot be empty");
-        return res.status(400).json({
-          message: "Creator name cannot be empty",
-          error: "EMPTY_CREATOR_NAME",
-        });
-      }
+      const { creatorName, creatorId, lifetimeDays, retakePolicy, creatorEmail, questions: questionInputs } = createQuizWithQuestionsSchema.parse(req.body);
 
       // Extra validation to catch any instance of the known default value
-      if (quizData.creatorName.toLowerCase() === "emydan") {
+      if (creatorName.toLowerCase() === "emydan") {
         log("CRITICAL BUG DETECTED: Default name 'emydan' was submitted");
         return res.status(400).json({
           message: "Cannot use default creator name. Please enter your own name.",
@@ -123,10 +195,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      log(`Creating quiz with creator name: "${quizData.creatorName}"`);
+      // Resolve the creator, falling back to the username when no user id was sent
+      let creator = creatorId ? await storage.getUser(creatorId) : undefined;
+      if (!creator) {
+        creator = await storage.getUserByUsername(creatorName) ?? await storage.createUser({ username: creatorName });
+      }
+
+      log(`Creating quiz with creator name: "${creatorName}" and ${questionInputs.length} questions`);
+
+      const quiz = await storage.createQuizWithQuestions(
+        {
+          creatorId: creator.id,
+          creatorName,
+          accessCode: generateAccessCode(),
+          urlSlug: generateUrlSlug(creatorName),
+          dashboardToken: generateDashboardToken(),
+          expiresAt: getQuizExpiryDate(lifetimeDays),
+          retakePolicy,
+          creatorEmail: creatorEmail ?? null,
+        },
+        questionInputs.map((question, index) => fromQuestionInput(question, index)),
+      );
 
-      const quiz = await storage.createQuiz(quizData);
       res.status(201).json(quiz);
+
+      // Only admin webhooks can be listening yet; queued after the response
+      dispatchWebhookEventInBackground(storage, "quiz.created", quiz);
     } catch (error) {
       log(`Error in POST /api/quizzes: ${error instanceof Error ? error.message : String(error)}`);
       if (error instanceof z.ZodError) {
@@ -141,8 +235,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/quizzes", async (req, res) => {
     try {
       log("Fetching all quizzes...");
-      const allQuizzes = await db.select().from(quizzes);
-      res.json(allQuizzes);
+      const allQuizzes = await storage.getAllQuizzes();
+      res.json(allQuizzes.map(toPublicQuiz));
     } catch (error) {
       log(`Error fetching all quizzes: ${error instanceof Error ? error.message : String(error)}`);
       res.status(500).json({ message: "Failed to fetch quizzes" });
@@ -168,11 +262,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(410).json({
           message: "Quiz expired",
           expired: true,
-          detail: "This quiz has expired. Quizzes are available for 7 days after creation.",
+          detail: `This quiz expired on ${new Date(quiz.expiresAt).toUTCString()}.`,
         });
       }
 
-      res.json(quiz);
+      res.json(toPublicQuiz(quiz));
     } catch (error) {
       log(`Error fetching quiz by access code ${req.params.accessCode}: ${error instanceof Error ? error.message : String(error)}`);
       res.status(500).json({ message: "Failed to fetch quiz" });
@@ -185,22 +279,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const urlSlug = req.params.urlSlug;
       log(`Fetching quiz by URL slug: "${urlSlug}"`);
 
-      let quiz = await storage.getQuizByUrlSlug(urlSlug);
-
-      // Case-insensitive fallback (consider performance implications on large datasets)
+      // Shared links resolve whatever their casing; an exact match wins
+      const quiz = await storage.getQuizByUrlSlug(urlSlug);
       if (!quiz) {
-        log(`Exact slug match failed for "${urlSlug}". Trying case-insensitive search...`);
-        const allQuizzesList = await db.select().from(quizzes);
-        const slugMatch = allQuizzesList.find(
-          (q) => q.urlSlug.toLowerCase() === urlSlug.toLowerCase(),
-        );
-        if (slugMatch) {
-          quiz = slugMatch;
-          log(`Found quiz with case-insensitive match: ${slugMatch.urlSlug}`);
-        } else {
-          log(`No quiz found with URL slug: "${urlSlug}" (case-insensitive)`);
-          return res.status(404).json({ message: "Quiz not found" });
-        }
+        log(`No quiz found with URL slug: "${urlSlug}" (case-insensitive)`);
+        return res.status(404).json({ message: "Quiz not found" });
       }
 
       // Check if the quiz is expired
@@ -210,18 +293,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(410).json({
           message: "Quiz expired",
           expired: true,
-          detail: "This quiz has expired. Quizzes are available for 7 days after creation.",
+          detail: `This quiz expired on ${new Date(quiz.expiresAt).toUTCString()}.`,
         });
       }
 
-      res.json(quiz);
+      res.json(toPublicQuiz(quiz));
     } catch (error) {
       log(`Error fetching quiz by slug "${req.params.urlSlug}": ${error instanceof Error ? error.message : String(error)}`);
       res.status(500).json({ message: "Failed to fetch quiz" });
     }
   });
 
-  // Get quiz by dashboard token
+  // Get quiz by dashboard token - the only quiz lookup that returns the token itself
   app.get("/api/quizzes/dashboard/:token", async (req, res) => {
     try {
       const dashboardToken = req.params.token;
@@ -241,7 +324,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(410).json({
           message: "Quiz expired",
           expired: true,
-          detail: "This quiz has expired. Quizzes are available for 7 days after creation.",
+          detail: `This quiz expired on ${new Date(quiz.expiresAt).toUTCString()}.`,
         });
       }
 
@@ -277,27 +360,115 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(410).json({
           message: "Quiz expired",
           expired: true,
-          detail: "This quiz has expired. Quizzes are available for 7 days after creation.",
+          detail: `This quiz expired on ${new Date(quiz.expiresAt).toUTCString()}.`,
         });
       }
 
-      log(`GET /api/quizzes/${quizId} response:`, quiz);
-      res.json(quiz);
+      res.json(toPublicQuiz(quiz));
     } catch (error) {
       log(`Error fetching quiz ${req.params.quizId}: ${error instanceof Error ? error.message : String(error)}`);
       res.status(500).json({ message: "Failed to fetch quiz" });
     }
   });
 
+  // Extend how long a quiz stays available (creator only)
+  // The new expiry is never more than the maximum lifetime away from now
+  app.patch("/api/quizzes/:quizId/expiry", requireDashboardToken, async (req, res) => {
+    try {
+      const quiz = getAuthorizedQuiz(res);
+      const { days } = extendQuizExpirySchema.parse(req.body);
+
+      if (storage.isQuizExpired(quiz)) {
+        return res.status(410).json({
+          message: "Quiz expired",
+          expired: true,
+          detail: "This quiz has already expired and can no longer be extended.",
+        });
+      }
+
+      const requestedExpiry = getQuizExpiryDate(days, new Date(quiz.expiresAt));
+      const latestExpiry = getQuizExpiryDate(MAX_QUIZ_LIFETIME_DAYS);
+      const expiresAt = requestedExpiry < latestExpiry ? requestedExpiry : latestExpiry;
+
+      log(`Extending quiz ${quiz.id} expiry from ${quiz.expiresAt} to ${expiresAt}`);
+      const updated = await storage.updateQuizExpiry(quiz.id, expiresAt);
+      if (!updated) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+
+      res.json(updated);
+    } catch (error) {
+      log(`Error extending expiry of quiz ${req.params.quizId}: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid expiry extension", error: error.flatten() });
+      } else {
+        res.status(500).json({ message: "Failed to extend quiz expiry" });
+      }
+    }
+  });
+
+  // Change how repeat attempts by the same taker are handled (creator only)
+  // Attempts already made are kept; the leaderboard simply counts them by the new policy
+  app.patch("/api/quizzes/:quizId/retake-policy", requireDashboardToken, async (req, res) => {
+    try {
+      const quiz = getAuthorizedQuiz(res);
+      const { retakePolicy } = updateRetakePolicySchema.parse(req.body);
+
+      log(`Changing retake policy of quiz ${quiz.id} from ${quiz.retakePolicy} to ${retakePolicy}`);
+      const updated = await storage.updateQuizRetakePolicy(quiz.id, retakePolicy);
+      if (!updated) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+
+      await refreshCountedAttempts(storage, updated);
+      publishReranked(quiz.id);
+      res.json(updated);
+    } catch (error) {
+      log(`Error changing retake policy of quiz ${req.params.quizId}: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid retake policy", error: error.flatten() });
+      } else {
+        res.status(500).json({ message: "Failed to change retake policy" });
+      }
+    }
+  });
+
+  // Delete a quiz before it expires (creator only)
+  // Removes the questions, attempts and uploaded images too, exactly like the scheduled cleanup
+  app.delete("/api/quizzes/:quizId", requireDashboardToken, async (req, res) => {
+    try {
+      const quiz = getAuthorizedQuiz(res);
+      log(`Creator requested deletion of quiz ID: ${quiz.id}`);
+
+      await deleteQuizzesWithRelatedData(storage, [quiz.id]);
+      res.json({ success: true, quizId: quiz.id });
+    } catch (error) {
+      log(`Error deleting quiz ${req.params.quizId}: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ message: "Failed to delete quiz" });
+    }
+  });
+
   // Question routes
-  app.post("/api/questions", async (req, res) => {
+  // Adds a question to the end of an existing quiz (creator only)
+  app.post("/api/quizzes/:quizId/questions", requireDashboardToken, async (req, res) => {
     try {
-      const questionData = insertQuestionSchema.parse(req.body);
-      log(`Creating new question for quiz ID: ${questionData.quizId}`);
-      const question = await storage.createQuestion(questionData);
-      res.status(201).json(question);
+      const quiz = getAuthorizedQuiz(res);
+      const questionInput = quizQuestionInputSchema.parse(req.body);
+      log(`Creating new question for quiz ID: ${quiz.id}`);
+
+      const existingQuestions = await storage.getQuestionsByQuizId(quiz.id);
+      const nextOrder = existingQuestions.reduce((max, question) => Math.max(max, question.order + 1), 0);
+      const question = await storage.createQuestion({
+        ...fromQuestionInput(questionInput, nextOrder),
+        quizId: quiz.id,
+      });
+
+      // Existing takers never saw the new question, so it counts as unanswered for them
+      await regradeQuizAttempts(storage, quiz.id);
+      publishReranked(quiz.id);
+      res.status(201).json(toCreatorQuestion(question));
     } catch (error) {
-      log(`Error in POST /api/questions: ${error instanceof Error ? error.message : String(error)}`);
+      log(`Error in POST /api/quizzes/${req.params.quizId}/questions: ${error instanceof Error ? error.message : String(error)}`);
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid question data", error: error.flatten() });
       } else {
@@ -317,21 +488,447 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid quiz ID" });
       }
 
+      // Takers only get the redacted view - the answer key stays on the server
       const questionsResult = await storage.getQuestionsByQuizId(quizId);
-      res.json(questionsResult);
+      res.json(questionsResult.map(toTakerQuestion));
     } catch (error) {
       log(`Error fetching questions for quiz ${req.params.quizId}: ${error instanceof Error ? error.message : String(error)}`);
       res.status(500).json({ message: "Failed to fetch questions" });
     }
   });
 
+  // Get questions with their answer key for the quiz creator
+  app.get("/api/quizzes/:quizId/questions/full", requireDashboardToken, async (req, res) => {
+    try {
+      const quiz = getAuthorizedQuiz(res);
+      const questionsResult = await storage.getQuestionsByQuizId(quiz.id);
+      res.json(questionsResult.map(toCreatorQuestion));
+    } catch (error) {
+      log(`Error fetching creator questions for quiz ${req.params.quizId}: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ message: "Failed to fetch questions" });
+    }
+  });
+
+  // Download the quiz as a versioned JSON file (creator only), to back it up or re-publish it later
+  app.get("/api/quizzes/:quizId/export", requireDashboardToken, async (req, res) => {
+    try {
+      const { images } = quizExportQuerySchema.parse(req.query);
+      const quiz = getAuthorizedQuiz(res);
+      const questionsResult = await storage.getQuestionsByQuizId(quiz.id);
+
+      const quizExport = await buildQuizExport(quiz, questionsResult, images, `${req.protocol}://${req.get("host")}`);
+      log(`Exported quiz ${quiz.id} with ${questionsResult.length} questions (images: ${images})`);
+
+      res.setHeader("Content-Disposition", `attachment; filename="${getQuizExportFileName(quiz)}"`);
+      res.type("application/json").send(JSON.stringify(quizExport, null, 2));
+    } catch (error) {
+      log(`Error exporting quiz ${req.params.quizId}: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid export options", error: error.flatten() });
+      } else {
+        res.status(500).json({ message: "Failed to export quiz" });
+      }
+    }
+  });
+
+  // Reorder the questions of a quiz (creator only)
+  // Registered before the `:questionId` routes so "order" is never taken for a question ID
+  app.put("/api/quizzes/:quizId/questions/order", requireDashboardToken, async (req, res) => {
+    try {
+      const quiz = getAuthorizedQuiz(res);
+      const { questionIds } = reorderQuestionsSchema.parse(req.body);
+
+      // The new order must list every question of the quiz exactly once
+      const existingQuestions = await storage.getQuestionsByQuizId(quiz.id);
+      const existingIds = new Set(existingQuestions.map((question) => question.id));
+      const isPermutation = questionIds.length === existingIds.size &&
+        new Set(questionIds).size === questionIds.length &&
+        questionIds.every((id) => existingIds.has(id));
+
+      if (!isPermutation) {
+        return res.status(400).json({ message: "Question order must list every question of the quiz exactly once" });
+      }
+
+      log(`Reordering ${questionIds.length} questions for quiz ID: ${quiz.id}`);
+      const reordered = await storage.reorderQuestions(quiz.id, questionIds);
+      res.json(reordered.map(toCreatorQuestion));
+    } catch (error) {
+      log(`Error reordering questions for quiz ${req.params.quizId}: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid question order", error: error.flatten() });
+      } else {
+        res.status(500).json({ message: "Failed to reorder questions" });
+      }
+    }
+  });
+
+  // Update a question of a published quiz (creator only)
+  // Changing the answer key re-grades every existing attempt of the quiz
+  app.put("/api/quizzes/:quizId/questions/:questionId", requireDashboardToken, async (req, res) => {
+    try {
+      const quiz = getAuthorizedQuiz(res);
+      const questionId = parseInt(req.params.questionId);
+      if (isNaN(questionId)) {
+        return res.status(400).json({ message: "Invalid question ID" });
+      }
+
+      const existing = await storage.getQuestion(questionId);
+      if (!existing || existing.quizId !== quiz.id) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+
+      const questionInput = quizQuestionInputSchema.parse(req.body);
+      log(`Updating question ${questionId} of quiz ID: ${quiz.id}`);
+
+      const question = await storage.updateQuestion(questionId, fromQuestionInput(questionInput, existing.order));
+      if (!question) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+
+      const regraded = await regradeQuizAttempts(storage, quiz.id);
+      publishReranked(quiz.id);
+      res.json({ question: toCreatorQuestion(question), regradedAttempts: regraded });
+    } catch (error) {
+      log(`Error updating question ${req.params.questionId}: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid question data", error: error.flatten() });
+      } else {
+        res.status(500).json({ message: "Failed to update question" });
+      }
+    }
+  });
+
+  // Accept a typed answer to an open-ended question after the fact, e.g. a near miss from the dashboard (creator only)
+  // Attempts that gave it, or anything close enough to it, are re-graded
+  app.post("/api/quizzes/:quizId/questions/:questionId/accepted-answers", requireDashboardToken, async (req, res) => {
+    try {
+      const quiz = getAuthorizedQuiz(res);
+      const questionId = parseInt(req.params.questionId);
+      if (isNaN(questionId)) {
+        return res.status(400).json({ message: "Invalid question ID" });
+      }
+
+      const { answer } = acceptAnswerSchema.parse(req.body);
+
+      const existing = await storage.getQuestion(questionId);
+      if (!existing || existing.quizId !== quiz.id) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+
+      if (existing.type !== "open-ended") {
+        return res.status(400).json({ message: "Only open-ended questions have accepted answers" });
+      }
+
+      const acceptedAnswers = getCorrectAnswers(existing);
+      if (acceptedAnswers.some((accepted) => normalizeTypedAnswer(accepted) === normalizeTypedAnswer(answer))) {
+        return res.json({ question: toCreatorQuestion(existing), regradedAttempts: 0 });
+      }
+
+      if (acceptedAnswers.length >= MAX_ACCEPTED_ANSWERS) {
+        return res.status(400).json({ message: `A question can have at most ${MAX_ACCEPTED_ANSWERS} accepted answers` });
+      }
+
+      log(`Accepting answer "${answer}" for question ${questionId} of quiz ID: ${quiz.id}`);
+      const question = await storage.updateQuestion(questionId, {
+        correctAnswers: stringifyJsonField([...acceptedAnswers, answer]),
+      });
+      if (!question) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+
+      const regraded = await regradeQuizAttempts(storage, quiz.id);
+      publishReranked(quiz.id);
+      res.json({ question: toCreatorQuestion(question), regradedAttempts: regraded });
+    } catch (error) {
+      log(`Error accepting answer for question ${req.params.questionId}: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid answer", error: error.flatten() });
+      } else {
+        res.status(500).json({ message: "Failed to accept answer" });
+      }
+    }
+  });
+
+  // Delete a question from a published quiz (creator only)
+  // Answers to the deleted question stop counting towards existing attempts
+  app.delete("/api/quizzes/:quizId/questions/:questionId", requireDashboardToken, async (req, res) => {
+    try {
+      const quiz = getAuthorizedQuiz(res);
+      const questionId = parseInt(req.params.questionId);
+      if (isNaN(questionId)) {
+        return res.status(400).json({ message: "Invalid question ID" });
+      }
+
+      const existingQuestions = await storage.getQuestionsByQuizId(quiz.id);
+      if (!existingQuestions.some((question) => question.id === questionId)) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+
+      if (existingQuestions.length <= MIN_QUIZ_QUESTIONS) {
+        return res.status(400).json({
+          message: `A quiz needs at least ${MIN_QUIZ_QUESTIONS} questions`,
+        });
+      }
+
+      log(`Deleting question ${questionId} of quiz ID: ${quiz.id}`);
+      await storage.deleteQuestion(questionId);
+
+      const regraded = await regradeQuizAttempts(storage, quiz.id);
+      publishReranked(quiz.id);
+      res.json({ success: true, regradedAttempts: regraded });
+    } catch (error) {
+      log(`Error deleting question ${req.params.questionId}: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ message: "Failed to delete question" });
+    }
+  });
+
+  // Attempt session routes
+  // Taking a quiz happens in a session: every answer is locked in on the server as it is given,
+  // so nobody can try options until one is correct, and the session can be resumed anywhere.
+  app.post("/api/quizzes/:quizId/attempt-sessions", limitAttemptsByIp, limitAttemptsByQuiz, async (req, res) => {
+    try {
+      const quizId = parseInt(req.params.quizId);
+      if (isNaN(quizId)) {
+        return res.status(400).json({ message: "Invalid quiz ID" });
+      }
+
+      const sessionData = startAttemptSessionSchema.parse(req.body);
+
+      const quiz = await storage.getQuiz(quizId);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+
+      if (storage.isQuizExpired(quiz)) {
+        log(`Rejected attempt session for expired quiz ${quiz.id}`);
+        return res.status(410).json({
+          message: "Quiz expired",
+          expired: true,
+          detail: `This quiz expired on ${new Date(quiz.expiresAt).toUTCString()}.`,
+        });
+      }
+
+      const { takerId, takerToken } = await resolveTaker(storage, sessionData.takerToken, sessionData.userName);
+
+      const blockingAttempt = await getBlockingAttempt(storage, quiz, takerId);
+      if (blockingAttempt) {
+        return res.status(409).json({
+          message: "You have already taken this quiz",
+          retakePolicy: quiz.retakePolicy,
+          attemptId: blockingAttempt.id,
+        });
+      }
+
+      const session = await storage.createAttemptSession({
+        token: generateSessionToken(),
+        quizId: quiz.id,
+        userAnswerId: takerId,
+        userName: sessionData.userName,
+      });
+      log(`Started attempt session ${session.id} for quiz ${quiz.id} by ${session.userName}`);
+
+      const started: StartedAttemptSession = { ...toAttemptSessionView(session, []), takerToken };
+      res.status(201).json(started);
+    } catch (error) {
+      log(`Error in POST /api/quizzes/${req.params.quizId}/attempt-sessions: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid session data", error: error.flatten() });
+      } else {
+        res.status(500).json({ message: "Failed to start quiz attempt" });
+      }
+    }
+  });
+
+  // Get an attempt session to resume it (the token is the only credential)
+  app.get("/api/attempt-sessions/:token", async (req, res) => {
+    try {
+      const session = await storage.getAttemptSessionByToken(req.params.token);
+      if (!session) {
+        return res.status(404).json({ message: "Attempt session not found" });
+      }
+
+      const answers = await storage.getAttemptSessionAnswers(session.id);
+      res.json(toAttemptSessionView(session, answers));
+    } catch (error) {
+      log(`Error fetching attempt session: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ message: "Failed to fetch attempt session" });
+    }
+  });
+
+  // Lock in the answer to one question; answers are final, a second answer is rejected
+  app.post("/api/attempt-sessions/:token/answers", limitAnswersByIp, limitAnswersByQuiz, async (req, res) => {
+    try {
+      const answerData = lockSessionAnswerSchema.parse(req.body);
+
+      const session = await storage.getAttemptSessionByToken(req.params.token);
+      if (!session) {
+        return res.status(404).json({ message: "Attempt session not found" });
+      }
+
+      if (session.completedAt) {
+        return res.status(409).json({ message: "This attempt has already been submitted" });
+      }
+
+      const quiz = await storage.getQuiz(session.quizId);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+
+      if (storage.isQuizExpired(quiz)) {
+        return res.status(410).json({
+          message: "Quiz expired",
+          expired: true,
+          detail: `This quiz expired on ${new Date(quiz.expiresAt).toUTCString()}.`,
+        });
+      }
+
+      const question = await storage.getQuestion(answerData.questionId);
+      if (!question || question.quizId !== session.quizId) {
+        return res.status(404).json({ message: "Question not found in this quiz" });
+      }
+
+      if (!isAnswerShapeValid(question, answerData.userAnswer)) {
+        return res.status(400).json({
+          message: question.type === "select-all"
+            ? "This question takes a list of options"
+            : question.type === "open-ended" ? "This question takes a typed answer" : "This question takes a single option",
+        });
+      }
+
+      if (question.type === "open-ended") {
+        const typedAnswer = String(answerData.userAnswer).trim();
+        if (!typedAnswer) {
+          return res.status(400).json({ message: "Please type an answer" });
+        }
+        if (typedAnswer.length > MAX_TYPED_ANSWER_LENGTH) {
+          return res.status(400).json({ message: `Answers are limited to ${MAX_TYPED_ANSWER_LENGTH} characters` });
+        }
+      }
+
+      // Answer time runs from the previous answer, or from the start for the first one
+      const previousAnswers = await storage.getAttemptSessionAnswers(session.id);
+      const lastAnswer = previousAnswers[previousAnswers.length - 1];
+      const answeredAt = new Date();
+      const timeMs = Math.max(0, answeredAt.getTime() - new Date(lastAnswer?.answeredAt ?? session.startedAt).getTime());
+
+      const lockedAnswer = await storage.lockAttemptSessionAnswer({
+        sessionId: session.id,
+        questionId: question.id,
+        userAnswer: stringifyJsonField(answerData.userAnswer),
+        answeredAt: answeredAt.toISOString(),
+        timeMs,
+      });
+      if (!lockedAnswer) {
+        return res.status(409).json({ message: "This question has already been answered", locked: true });
+      }
+
+      res.status(201).json(toAttemptSessionView(session, [...previousAnswers, lockedAnswer]));
+    } catch (error) {
+      log(`Error locking answer for attempt session: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid answer data", error: error.flatten() });
+      } else {
+        res.status(500).json({ message: "Failed to save answer" });
+      }
+    }
+  });
+
   // Quiz attempt routes
-  app.post("/api/quiz-attempts", async (req, res) => {
+  // The attempt is built from the session's locked-in answers and graded here; nothing the
+  // browser claims about answers or scores is used. Submitting a session twice returns the same attempt.
+  app.post("/api/quiz-attempts", limitAttemptsByIp, limitAttemptsByQuiz, async (req, res) => {
     try {
-      const attemptData = insertQuizAttemptSchema.parse(req.body);
-      log(`Creating quiz attempt for quiz ID: ${attemptData.quizId} by ${attemptData.takerName}`);
-      const attempt = await storage.createQuizAttempt(attemptData);
+      const { sessionToken } = submitQuizAttemptSchema.parse(req.body);
+
+      const session = await storage.getAttemptSessionByToken(sessionToken);
+      if (!session) {
+        return res.status(404).json({ message: "Attempt session not found" });
+      }
+
+      if (session.attemptId) {
+        const existingAttempt = await storage.getQuizAttempt(session.attemptId);
+        if (existingAttempt) return res.status(200).json(existingAttempt);
+      }
+
+      const quiz = await storage.getQuiz(session.quizId);
+      if (!quiz) {
+        log(`Quiz not found for attempt: ${session.quizId}`);
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+
+      if (storage.isQuizExpired(quiz)) {
+        log(`Rejected attempt for expired quiz ${quiz.id}`);
+        return res.status(410).json({ message: "Quiz expired", expired: true });
+      }
+
+      const [quizQuestions, sessionAnswers] = await Promise.all([
+        storage.getQuestionsByQuizId(quiz.id),
+        storage.getAttemptSessionAnswers(session.id),
+      ]);
+
+      const answeredIds = new Set(sessionAnswers.map((answer) => answer.questionId));
+      const unansweredQuestionIds = quizQuestions
+        .filter((question) => !answeredIds.has(question.id))
+        .map((question) => question.id);
+      if (unansweredQuestionIds.length > 0) {
+        return res.status(400).json({
+          message: `${unansweredQuestionIds.length} question(s) still need an answer`,
+          unansweredQuestionIds,
+        });
+      }
+
+      const graded = gradeAttempt(
+        quizQuestions,
+        sessionAnswers.map((answer) => ({
+          questionId: answer.questionId,
+          userAnswer: parseJsonField<string | string[]>(answer.userAnswer) ?? "",
+        })),
+      );
+      log(`Graded attempt session ${session.id} for quiz ${quiz.id}: ${graded.score}/${graded.totalQuestions}`);
+
+      // Time spent answering: from the start of the session to the last locked-in answer
+      const lastAnsweredAt = sessionAnswers.reduce((latest, answer) => (answer.answeredAt > latest ? answer.answeredAt : latest), session.startedAt);
+
+      // The retake policy is checked again on submission: the taker may have finished another session in the meantime
+      const completion = await storage.completeAttemptSession(session.id, {
+        quizId: quiz.id,
+        userAnswerId: session.userAnswerId,
+        userName: session.userName,
+        score: graded.score,
+        totalQuestions: graded.totalQuestions,
+        answers: stringifyJsonField(graded.answers),
+        durationMs: Math.max(0, new Date(lastAnsweredAt).getTime() - new Date(session.startedAt).getTime()),
+      }, quiz.retakePolicy);
+
+      if (completion.status === "blocked") {
+        return res.status(409).json({
+          message: "You have already taken this quiz",
+          retakePolicy: quiz.retakePolicy,
+          attemptId: completion.blockingAttempt.id,
+        });
+      }
+
+      if (completion.status === "already-completed") {
+        // Another request submitted the session first
+        const completedSession = await storage.getAttemptSessionByToken(sessionToken);
+        const existingAttempt = completedSession?.attemptId
+          ? await storage.getQuizAttempt(completedSession.attemptId)
+          : undefined;
+        if (!existingAttempt) {
+          return res.status(409).json({ message: "This attempt has already been submitted" });
+        }
+        return res.status(200).json(existingAttempt);
+      }
+
+      const { attempt } = completion;
+      // The new attempt may replace the one counted for this taker on the leaderboard
+      await refreshCountedAttempts(storage, quiz, attempt.userAnswerId);
       res.status(201).json(attempt);
+      publishAttempt(attempt);
+
+      // Sent in the background, after the response
+      notifyCreatorOfAttempt(quiz, attempt);
+      dispatchWebhookEventInBackground(storage, "attempt.completed", quiz, attempt);
     } catch (error) {
       log(`Error in POST /api/quiz-attempts: ${error instanceof Error ? error.message : String(error)}`);
       if (error instanceof z.ZodError) {
@@ -342,45 +939,160 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get attempts for a specific quiz
-  app.get("/api/quizzes/:quizId/attempts", async (req, res) => {
+  // Get one page of the public leaderboard for a quiz (scores only, no answers)
+  // `?sort=score|newest|fastest&limit&cursor` pages through it
+  app.get("/api/quizzes/:quizId/leaderboard", async (req, res) => {
     try {
-      // Add aggressive anti-caching headers
       res.setHeader("Cache-Control", "no-cache, no-store, must-revalidate");
-      res.setHeader("Pragma", "no-cache");
-      res.setHeader("Expires", "0");
 
       const quizId = parseInt(req.params.quizId);
-      const timestamp = Date.now(); // For debugging
-      log(`[${timestamp}] Fetching attempts for quiz ${quizId}`);
+      const timestamp = Date.now();
 
       if (isNaN(quizId)) {
         log(`Invalid quiz ID received: ${req.params.quizId}`);
         return res.status(400).json({ message: "Invalid quiz ID" });
       }
 
-      // Add a small delay? Consider if necessary or if DB transaction isolation handles this.
-      // await new Promise(resolve => setTimeout(resolve, 100));
+      const query = attemptPageQuerySchema.parse(req.query);
+      const after = query.cursor ? decodeAttemptCursor(query.cursor, query.sort) : undefined;
+      if (after === null) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
 
-      const attempts = await storage.getQuizAttempts(quizId);
-      log(`[${timestamp}] Found ${attempts.length} attempts for quiz ${quizId}`);
+      const quiz = await storage.getQuiz(quizId);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
 
-      // Sort attempts by completion date (newest first)
-      attempts.sort((a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime());
-      log(`[${timestamp}] Sending sorted attempts: ${attempts.map((a) => a.id).join(", ")}`);
+      // Repeat takers are collapsed into one row, counted by the quiz's retake policy
+      const page = await getAttemptPage(storage, quizId, { sort: query.sort, limit: query.limit, after, countedOnly: true });
+      log(`[${timestamp}] Found ${page.attempts.length} of ${page.total} leaderboard entries for quiz ${quizId} (${query.sort})`);
 
-      res.json({
-        data: attempts,
+      const response: LeaderboardPage = {
+        data: await getLeaderboardEntries(storage, quizId, query.sort, page.attempts),
+        nextCursor: page.nextCursor,
+        total: page.total,
+        sort: query.sort,
         serverTime: timestamp,
-        count: attempts.length,
-      });
+        retakePolicy: quiz.retakePolicy,
+      };
+      res.json(response);
+    } catch (error) {
+      log(`Error fetching leaderboard for quiz ${req.params.quizId}: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid leaderboard query", error: error.flatten() });
+      } else {
+        res.status(500).json({ message: "Failed to fetch leaderboard" });
+      }
+    }
+  });
+
+  // Live leaderboard: a Server-Sent Events stream of the quiz's new attempts (public fields only)
+  app.get("/api/quizzes/:quizId/leaderboard/stream", limitStreamsByIp, async (req, res) => {
+    try {
+      const quizId = parseInt(req.params.quizId);
+      if (isNaN(quizId)) {
+        log(`Invalid quiz ID received: ${req.params.quizId}`);
+        return res.status(400).json({ message: "Invalid quiz ID" });
+      }
+
+      const quiz = await storage.getQuiz(quizId);
+      if (!quiz || storage.isQuizExpired(quiz)) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+
+      streamQuizUpdates(req, res, quiz.id, "taker");
+    } catch (error) {
+      log(`Error opening leaderboard stream for quiz ${req.params.quizId}: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ message: "Failed to open leaderboard stream" });
+    }
+  });
+
+  // Live dashboard: a Server-Sent Events stream of the quiz's new attempts with their answers (creator only)
+  app.get("/api/quizzes/:quizId/attempts/stream", limitStreamsByIp, requireDashboardToken, (req, res) => {
+    streamQuizUpdates(req, res, getAuthorizedQuiz(res).id, "creator");
+  });
+
+  // Get one page of the attempts of a quiz with their answers (creator only)
+  // Every attempt is listed, including repeat attempts the leaderboard does not count
+  app.get("/api/quizzes/:quizId/attempts", requireDashboardToken, async (req, res) => {
+    try {
+      // Add aggressive anti-caching headers
+      res.setHeader("Cache-Control", "no-cache, no-store, must-revalidate");
+      res.setHeader("Pragma", "no-cache");
+      res.setHeader("Expires", "0");
+
+      const quiz = getAuthorizedQuiz(res);
+      const timestamp = Date.now(); // For debugging
+
+      const query = attemptPageQuerySchema.parse(req.query);
+      const after = query.cursor ? decodeAttemptCursor(query.cursor, query.sort) : undefined;
+      if (after === null) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+
+      const page = await getAttemptPage(storage, quiz.id, { sort: query.sort, limit: query.limit, after });
+      log(`[${timestamp}] Found ${page.attempts.length} of ${page.total} attempts for quiz ${quiz.id} (${query.sort})`);
+
+      const response: AttemptPage<ParsedQuizAttempt> = {
+        data: page.attempts.map(toParsedAttempt),
+        nextCursor: page.nextCursor,
+        total: page.total,
+        sort: query.sort,
+        serverTime: timestamp,
+      };
+      res.json(response);
     } catch (error) {
       log(`Error fetching quiz attempts for quiz ${req.params.quizId}: ${error instanceof Error ? error.message : String(error)}`);
-      res.status(500).json({ message: "Failed to fetch quiz attempts" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid attempts query", error: error.flatten() });
+      } else {
+        res.status(500).json({ message: "Failed to fetch quiz attempts" });
+      }
+    }
+  });
+
+  // Get the dashboard figures of a quiz: attempt count, average and top score, per-question results (creator only)
+  app.get("/api/quizzes/:quizId/attempts/stats", requireDashboardToken, async (req, res) => {
+    try {
+      res.setHeader("Cache-Control", "no-cache, no-store, must-revalidate");
+
+      const quiz = getAuthorizedQuiz(res);
+      const [quizQuestions, aggregates] = await Promise.all([
+        storage.getQuestionsByQuizId(quiz.id),
+        storage.getQuizAttemptAggregates(quiz.id),
+      ]);
+
+      res.json(summarizeAttempts(quizQuestions, aggregates));
+    } catch (error) {
+      log(`Error fetching attempt stats for quiz ${req.params.quizId}: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ message: "Failed to fetch attempt stats" });
+    }
+  });
+
+  // Download the leaderboard with every taker's answers as a spreadsheet (creator only), streamed a batch at a time
+  app.get("/api/quizzes/:quizId/attempts/export", requireDashboardToken, async (req, res) => {
+    try {
+      const { format } = attemptExportQuerySchema.parse(req.query);
+      const quiz = getAuthorizedQuiz(res);
+      await streamAttemptExport(res, storage, quiz, format);
+      log(`Exported attempts of quiz ${quiz.id} as ${format}`);
+    } catch (error) {
+      log(`Error exporting attempts for quiz ${req.params.quizId}: ${error instanceof Error ? error.message : String(error)}`);
+      if (res.headersSent) {
+        // Part of the file is out already; cutting the connection tells the client it is incomplete
+        res.destroy();
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid export format", error: error.flatten() });
+      } else {
+        res.status(500).json({ message: "Failed to export attempts" });
+      }
     }
   });
 
   // Get specific quiz attempt by ID
+  // Its taker (holding the completed session's token) and the quiz creator get the answers too;
+  // anyone else only sees what the leaderboard shows
   app.get("/api/quiz-attempts/:attemptId", async (req, res) => {
     try {
       // Add anti-caching headers
@@ -397,9 +1109,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid attempt ID" });
       }
 
-      // Fetch attempt directly by ID
-      const attemptResult = await db.select().from(quizAttempts).where(eq(quizAttempts.id, attemptId)).limit(1);
-      const attempt = attemptResult[0];
+      const attempt = await storage.getQuizAttempt(attemptId);
 
       if (!attempt) {
         log(`[${timestamp}] Attempt ID ${attemptId} not found`);
@@ -408,9 +1118,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       log(`[${timestamp}] Found attempt ${attemptId} (quiz ${attempt.quizId})`);
 
+      const canView = await canViewAttempt(storage, req, attempt);
+
       // Send with timestamp for caching verification
       res.json({
-        data: attempt,
+        data: canView ? attempt : toLeaderboardEntry(attempt),
         serverTime: timestamp,
       });
     } catch (error) {
@@ -419,75 +1131,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Verify an answer
-  app.post("/api/questions/:questionId/verify", async (req, res) => {
+  // Where the taker of an attempt stands on the leaderboard: rank, percentile and the rows around them
+  // `?sort=score|newest|fastest` picks the order, `neighbours` how many rows to return above and below
+  app.get("/api/quiz-attempts/:attemptId/rank", async (req, res) => {
     try {
-      const questionId = parseInt(req.params.questionId);
-      log(`Verifying answer for question ID: ${questionId}`);
+      res.setHeader("Cache-Control", "no-cache, no-store, must-revalidate");
 
-      if (isNaN(questionId)) {
-        log(`Invalid question ID received: ${req.params.questionId}`);
-        return res.status(400).json({ message: "Invalid question ID" });
+      const attemptId = parseInt(req.params.attemptId);
+
+      if (isNaN(attemptId)) {
+        log(`Invalid attempt ID received: ${req.params.attemptId}`);
+        return res.status(400).json({ message: "Invalid attempt ID" });
       }
 
-      const answerData = z
-        .object({
-          answer: z.union([z.string(), z.array(z.string())]),
-        })
-        .parse(req.body);
+      const query = attemptRankQuerySchema.parse(req.query);
+      const attempt = await storage.getQuizAttempt(attemptId);
 
-      // Fetch the specific question by ID
-      const questionResult = await db.select().from(questions).where(eq(questions.id, questionId)).limit(1);
-      const question = questionResult[0];
+      if (!attempt) {
+        return res.status(404).json({ message: "Quiz attempt not found" });
+      }
 
-      if (!question) {
-        log(`[SERVER ERROR] Question not found: ${questionId}`);
-        return res.status(404).json({ message: "Question not found" });
+      const rank = await getAttemptRank(storage, attempt, query);
+      if (!rank) {
+        return res.status(404).json({ message: "This attempt is not ranked in this order" });
       }
 
-      let isCorrect = false;
-      // Ensure correctAnswers is treated as an array
-      const correctAnswers = Array.isArray(question.correctAnswers) 
-                             ? question.correctAnswers 
-                             : JSON.parse(question.correctAnswers as string);
-                             
-      const userAnswer = answerData.answer;
+      res.json(rank);
+    } catch (error) {
+      log(`Error fetching rank of attempt ${req.params.attemptId}: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid rank query", error: error.flatten() });
+      } else {
+        res.status(500).json({ message: "Failed to fetch attempt rank" });
+      }
+    }
+  });
 
-      log(`- Correct answers:`, correctAnswers);
-      log(`- User answer:`, userAnswer);
+  // Review a submitted attempt: its answers and the correct answers to the questions it answered
+  // Only its taker (holding the completed session's token) or the quiz creator may see it
+  app.get("/api/quiz-attempts/:attemptId/review", async (req, res) => {
+    try {
+      const attemptId = parseInt(req.params.attemptId);
 
-      if (Array.isArray(userAnswer)) {
-        // For multiple answers (select_all), check if sets match exactly
-        const userAnswersSet = new Set(userAnswer.map(ans => ans.toLowerCase().trim()));
-        const correctAnswersSet = new Set(correctAnswers.map(correct => correct.toLowerCase().trim()));
-        isCorrect = userAnswersSet.size === correctAnswersSet.size && 
-                    [...userAnswersSet].every(ans => correctAnswersSet.has(ans));
-      } else {
-        // For single answer (multiple_choice), check if it matches any correct answer
-        const normalizedUserAnswer = userAnswer.toString().toLowerCase().trim();
-        isCorrect = correctAnswers.some(
-          (correct) => correct.toLowerCase().trim() === normalizedUserAnswer,
-        );
+      if (isNaN(attemptId)) {
+        log(`Invalid attempt ID received: ${req.params.attemptId}`);
+        return res.status(400).json({ message: "Invalid attempt ID" });
       }
 
-      log(`Answer is ${isCorrect ? "CORRECT" : "INCORRECT"}`);
+      const attempt = await storage.getQuizAttempt(attemptId);
 
-      res.json({
-        isCorrect,
-        // Optionally remove debug info in production
-        // debug: {
-        //   questionText: question.text,
-        //   correctAnswers: correctAnswers,
-        //   userAnswer: userAnswer
-        // }
-      });
-    } catch (error) {
-      log(`Error verifying answer for question ${req.params.questionId}: ${error instanceof Error ? error.message : String(error)}`);
-      if (error instanceof z.ZodError) {
-        res.status(400).json({ message: "Invalid answer data", error: error.flatten() });
-      } else {
-        res.status(500).json({ message: "Failed to verify answer" });
+      if (!attempt) {
+        log(`Attempt ID ${attemptId} not found for review`);
+        return res.status(404).json({ message: "Quiz attempt not found" });
+      }
+
+      if (!(await canViewAttempt(storage, req, attempt))) {
+        log(`Rejected review of attempt ${attemptId}`);
+        return res.status(403).json({ message: "Only the taker of this attempt can review it" });
       }
+
+      const parsedAttempt = toParsedAttempt(attempt);
+      const answeredIds = new Set(parsedAttempt.answers.map((answer) => answer.questionId));
+      const quizQuestions = await storage.getQuestionsByQuizId(attempt.quizId);
+      const review: AttemptReview = {
+        attempt: parsedAttempt,
+        questions: quizQuestions.filter((question) => answeredIds.has(question.id)).map(toReviewQuestion),
+      };
+
+      res.json(review);
+    } catch (error) {
+      log(`Error fetching review for attempt ${req.params.attemptId}: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ message: "Failed to fetch attempt review" });
     }
   });
 
@@ -500,10 +1214,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       log(`Processing uploaded file: ${req.file.filename} (path: ${req.file.path})`);
-      
-      // Upload the file from the temporary path to Cloudinary
-      const result = await storage.uploadImage(req.file.path);
-      log(`Cloudinary upload successful: ${result.secure_url}`);
+
+      // Images uploaded from the dashboard belong to an existing quiz; during creation there is none yet.
+      // Only the quiz's creator may add images to it, as they will be deleted along with it.
+      let quizId: number | undefined;
+      if (req.body.quizId) {
+        const authorization = await authorizeDashboardToken(storage, req, String(req.body.quizId));
+        if (!("quiz" in authorization)) {
+          await fs.promises.rm(req.file.path, { force: true });
+          return res.status(authorization.status).json({ message: authorization.message });
+        }
+        quizId = authorization.quiz.id;
+      }
+
+      // Move the file from the temporary path to the configured image storage
+      const result = await imageStorage.uploadImage(req.file.path, quizId);
+      await storage.createQuizImage({ key: result.key, url: result.url, quizId: quizId ?? null });
+      log(`Image upload to ${imageStorage.name} successful: ${result.url}`);
 
       // Clean up the temporary file after successful upload
       try {
@@ -514,10 +1241,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Non-fatal error, proceed with response
       }
 
-      res.json({ imageUrl: result.secure_url });
+      res.json({ imageUrl: result.url });
     } catch (error) {
       log(`Error during image upload: ${error instanceof Error ? error.message : String(error)}`);
-      // Clean up temp file even if Cloudinary upload failed
+      // Clean up temp file even if the upload failed
       if (req.file && req.file.path && fs.existsSync(req.file.path)) {
         try {
           fs.unlinkSync(req.file.path);
@@ -530,8 +1257,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Register contact form routes
-  registerContactRoutes(app);
+  // Copy an image an imported quiz links to, so the new quiz does not share it with the original
+  // Images QzonMe does not store are returned as they are: no quiz cleanup ever deletes them
+  app.post("/api/images/copy", limitImageCopiesByIp, async (req, res) => {
+    let tempPath: string | undefined;
+    try {
+      const { url } = copyImageSchema.parse(req.body);
+
+      const image = await readImportedImage(url, `${req.protocol}://${req.get("host")}`);
+      if (!image) {
+        return res.json({ imageUrl: url });
+      }
+
+      const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9);
+      tempPath = path.join(tempUploadDir, `image-${uniqueSuffix}${image.extension}`);
+      await fs.promises.writeFile(tempPath, image.data);
+
+      // The copy belongs to the quiz being created, which claims it once it is saved
+      const result = await imageStorage.uploadImage(tempPath);
+      await storage.createQuizImage({ key: result.key, url: result.url, quizId: null });
+      log(`Copied imported image to ${imageStorage.name}: ${result.url}`);
+
+      res.json({ imageUrl: result.url });
+    } catch (error) {
+      log(`Error copying image: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid image URL", error: error.flatten() });
+      } else {
+        res.status(500).json({ message: "Failed to copy image" });
+      }
+    } finally {
+      if (tempPath) {
+        fs.promises.rm(tempPath, { force: true }).catch((cleanupError) => {
+          log(`Error deleting temp file ${tempPath}: ${cleanupError instanceof Error ? cleanupError.message : String(cleanupError)}`);
+        });
+      }
+    }
+  });
+
+  // Register admin, contact form and webhook routes
+  registerAdminRoutes(app, limitAdminLoginByIp);
+  registerContactRoutes(app, storage, limitContactByIp, requireAdmin);
+  registerWebhookRoutes(app, storage, requireDashboardToken, requireAdmin);
 
   const server = createServer(app);
   return server;
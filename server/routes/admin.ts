@@ -0,0 +1,77 @@
+import type { Express, Request, RequestHandler, Response } from "express";
+import { z } from "zod";
+import { adminLoginSchema, type AdminSession } from "@shared/schema";
+import { ADMIN_SESSION_COOKIE, getAdminCredentials, requireAdmin, verifyAdminPassword } from "../adminAuth";
+import { log } from "../log";
+
+/**
+ * The session's admin as sent to the client
+ */
+function toAdminSession(req: Request): AdminSession {
+  return {
+    username: req.session.adminUsername!,
+    expiresAt: (req.session.cookie.expires ?? new Date()).toISOString(),
+  };
+}
+
+/**
+ * Registers admin login, logout and session routes, then puts the rest of `/api/admin` behind the admin guard
+ * Must be registered after the admin session middleware.
+ * @param rateLimit Throttles login attempts
+ */
+export function registerAdminRoutes(app: Express, rateLimit: RequestHandler) {
+  // Log in with the admin credentials from the environment
+  app.post("/api/admin/login", rateLimit, async (req: Request, res: Response) => {
+    try {
+      const { username, password } = adminLoginSchema.parse(req.body);
+
+      const credentials = getAdminCredentials();
+      if (!credentials) {
+        log("Admin login attempted but ADMIN_PASSWORD_HASH is not set");
+        return res.status(503).json({ message: "Admin login is not configured" });
+      }
+
+      // The password is checked even for a wrong username so both fail in the same time
+      const isPasswordValid = await verifyAdminPassword(password, credentials.passwordHash);
+      if (!isPasswordValid || username !== credentials.username) {
+        log(`Rejected admin login for "${username}"`);
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+
+      // A fresh session id on login, so an id planted before it is worthless
+      await new Promise<void>((resolve, reject) => req.session.regenerate((error) => (error ? reject(error) : resolve())));
+      req.session.adminUsername = credentials.username;
+      await new Promise<void>((resolve, reject) => req.session.save((error) => (error ? reject(error) : resolve())));
+
+      log(`Admin "${credentials.username}" logged in`);
+      res.json(toAdminSession(req));
+    } catch (error) {
+      log(`Error in POST /api/admin/login: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid login data", error: error.flatten() });
+      } else {
+        res.status(500).json({ message: "Failed to log in" });
+      }
+    }
+  });
+
+  // End the admin session; succeeds when there is none
+  app.post("/api/admin/logout", (req: Request, res: Response) => {
+    req.session.destroy((error) => {
+      if (error) {
+        log(`Error in POST /api/admin/logout: ${error instanceof Error ? error.message : String(error)}`);
+        return res.status(500).json({ message: "Failed to log out" });
+      }
+      res.clearCookie(ADMIN_SESSION_COOKIE);
+      res.status(204).end();
+    });
+  });
+
+  // Everything else under /api/admin needs a logged-in admin
+  app.use("/api/admin", requireAdmin);
+
+  // The logged-in admin, so the admin page can tell whether to show the login form
+  app.get("/api/admin/session", (req: Request, res: Response) => {
+    res.json(toAdminSession(req));
+  });
+}
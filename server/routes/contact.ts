@@ -1,95 +1,165 @@
-import { Express, Request, Response } from 'express';
+import { Express, Request, RequestHandler, Response } from 'express';
 import fs from 'fs';
 import path from 'path';
+import { z } from 'zod';
+import {
+  contactMessageQuerySchema,
+  insertContactMessageSchema,
+  updateContactMessageSchema,
+  type ContactInbox,
+} from '@shared/schema';
+import type { IStorage } from '../storage';
+import { log } from '../log';
 
-interface ContactMessage {
-  id: string;
+// Where messages were kept as loose JSON files before the inbox moved into the database
+const LEGACY_CONTACT_MESSAGES_DIR = path.join(process.cwd(), 'contact_messages');
+
+interface LegacyContactMessage {
   name: string;
   email: string;
   message: string;
   timestamp: string;
 }
 
-const CONTACT_MESSAGES_DIR = path.join(process.cwd(), 'contact_messages');
+/**
+ * Moves the messages left in contact_messages/ into storage, then removes the files
+ * A file that cannot be imported is left in place and logged.
+ */
+export async function importLegacyContactMessages(storage: IStorage): Promise<number> {
+  if (!fs.existsSync(LEGACY_CONTACT_MESSAGES_DIR)) return 0;
+
+  let imported = 0;
+  for (const file of fs.readdirSync(LEGACY_CONTACT_MESSAGES_DIR)) {
+    if (!file.endsWith('.json')) continue;
+
+    const filePath = path.join(LEGACY_CONTACT_MESSAGES_DIR, file);
+    try {
+      const legacy = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as LegacyContactMessage;
+      const createdAt = new Date(legacy.timestamp);
+      await storage.createContactMessage(
+        { name: legacy.name, email: legacy.email, message: legacy.message },
+        isNaN(createdAt.getTime()) ? undefined : createdAt,
+      );
+      fs.unlinkSync(filePath);
+      imported++;
+    } catch (error) {
+      log(`Could not import contact message ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 
-// Ensure the contact_messages directory exists
-if (!fs.existsSync(CONTACT_MESSAGES_DIR)) {
-  fs.mkdirSync(CONTACT_MESSAGES_DIR, { recursive: true });
+  if (fs.readdirSync(LEGACY_CONTACT_MESSAGES_DIR).length === 0) {
+    fs.rmdirSync(LEGACY_CONTACT_MESSAGES_DIR);
+  }
+  return imported;
 }
 
-export function registerContactRoutes(app: Express) {
+/**
+ * Registers the contact form routes and the admin inbox
+ * @param storage Storage the messages are kept in
+ * @param rateLimit Throttles message submissions
+ * @param requireAdmin Guards the inbox
+ */
+export function registerContactRoutes(app: Express, storage: IStorage, rateLimit: RequestHandler, requireAdmin: RequestHandler) {
+  importLegacyContactMessages(storage)
+    .then((imported) => {
+      if (imported > 0) log(`Imported ${imported} contact messages from ${LEGACY_CONTACT_MESSAGES_DIR}`);
+    })
+    .catch((error) => {
+      log(`Error importing contact messages: ${error instanceof Error ? error.message : String(error)}`);
+    });
+
   // Submit a new contact message
-  app.post('/api/contact', async (req: Request, res: Response) => {
+  app.post('/api/contact', rateLimit, async (req: Request, res: Response) => {
     try {
-      const { name, email, message } = req.body;
-      
-      // Validate required fields
-      if (!name || !email || !message) {
-        return res.status(400).json({ 
-          success: false, 
-          message: 'Name, email, and message are required' 
-        });
-      }
-      
-      // Create a new message object
-      const contactMessage: ContactMessage = {
-        id: Date.now().toString(),
-        name,
-        email,
-        message,
-        timestamp: new Date().toISOString()
-      };
-      
-      // Save the message to a JSON file in the contact_messages directory
-      const filePath = path.join(CONTACT_MESSAGES_DIR, `${contactMessage.id}.json`);
-      fs.writeFileSync(filePath, JSON.stringify(contactMessage, null, 2));
-      
+      const messageData = insertContactMessageSchema.parse(req.body);
+      const contactMessage = await storage.createContactMessage(messageData);
+
       // Return success response
-      res.status(201).json({ 
-        success: true, 
+      res.status(201).json({
+        success: true,
         message: 'Contact message submitted successfully',
         id: contactMessage.id
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0]?.message ?? 'Name, email, and message are required',
+          error: error.flatten(),
+        });
+      }
       console.error('Error saving contact message:', error);
-      res.status(500).json({ 
-        success: false, 
-        message: 'Failed to save your message. Please try again.' 
+      res.status(500).json({
+        success: false,
+        message: 'Failed to save your message. Please try again.'
       });
     }
   });
-  
-  // Get all contact messages (this would typically be an admin-only endpoint)
-  app.get('/api/contact/messages', async (req: Request, res: Response) => {
+
+  // List contact messages, newest first, with the count of each status (admin only)
+  app.get('/api/contact/messages', requireAdmin, async (req: Request, res: Response) => {
     try {
-      // Read all message files from the directory
-      const files = fs.readdirSync(CONTACT_MESSAGES_DIR);
-      const messages: ContactMessage[] = [];
-      
-      for (const file of files) {
-        if (file.endsWith('.json')) {
-          const filePath = path.join(CONTACT_MESSAGES_DIR, file);
-          const fileContent = fs.readFileSync(filePath, 'utf-8');
-          const message = JSON.parse(fileContent) as ContactMessage;
-          messages.push(message);
-        }
-      }
-      
-      // Sort messages by timestamp (newest first)
-      messages.sort((a, b) => 
-        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-      );
-      
-      res.status(200).json({ 
-        success: true, 
-        messages 
-      });
+      const query = contactMessageQuerySchema.parse(req.query);
+      const [messages, counts] = await Promise.all([
+        storage.getContactMessages(query),
+        storage.countContactMessagesByStatus(query.search),
+      ]);
+
+      const inbox: ContactInbox = { messages, counts };
+      res.status(200).json({ success: true, ...inbox });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ success: false, message: 'Invalid inbox query', error: error.flatten() });
+      }
       console.error('Error retrieving contact messages:', error);
-      res.status(500).json({ 
-        success: false, 
-        message: 'Failed to retrieve contact messages.' 
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve contact messages.'
       });
     }
   });
-}
\ No newline at end of file
+
+  // Change the status or note of a message (admin only)
+  app.patch('/api/contact/messages/:id', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ success: false, message: 'Invalid message ID' });
+      }
+
+      const update = updateContactMessageSchema.parse(req.body);
+      const contactMessage = await storage.updateContactMessage(id, update);
+      if (!contactMessage) {
+        return res.status(404).json({ success: false, message: 'Contact message not found' });
+      }
+
+      res.status(200).json({ success: true, contactMessage });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ success: false, message: 'Invalid message update', error: error.flatten() });
+      }
+      console.error('Error updating contact message:', error);
+      res.status(500).json({ success: false, message: 'Failed to update the message.' });
+    }
+  });
+
+  // Delete a message for good (admin only)
+  app.delete('/api/contact/messages/:id', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ success: false, message: 'Invalid message ID' });
+      }
+
+      const deleted = await storage.deleteContactMessage(id);
+      if (!deleted) {
+        return res.status(404).json({ success: false, message: 'Contact message not found' });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error('Error deleting contact message:', error);
+      res.status(500).json({ success: false, message: 'Failed to delete the message.' });
+    }
+  });
+}
@@ -0,0 +1,123 @@
+import type { Express, Request, RequestHandler, Response } from "express";
+import { z } from "zod";
+import { createWebhookSchema, MAX_WEBHOOKS, stringifyJsonField } from "@shared/schema";
+import type { IStorage } from "../storage";
+import { getAuthorizedQuiz } from "../auth";
+import { generateWebhookSecret } from "../identifiers";
+import { toWebhookDeliveryView, toWebhookView } from "../serializers";
+import { resolveWebhookAddress } from "../webhooks";
+import { log } from "../log";
+
+// How many deliveries the log shows
+const WEBHOOK_DELIVERY_LOG_SIZE = 50;
+
+/**
+ * Registers list, create and delete routes for one kind of webhook owner, plus its delivery log
+ * @param basePath Path the routes live under
+ * @param guard Lets only the owner through
+ * @param getOwner Quiz the webhooks belong to, or null for the admins'
+ */
+function registerWebhookOwnerRoutes(
+  app: Express,
+  storage: IStorage,
+  basePath: string,
+  guard: RequestHandler,
+  getOwner: (res: Response) => number | null,
+) {
+  // List the owner's webhooks
+  app.get(basePath, guard, async (req: Request, res: Response) => {
+    try {
+      const webhooks = await storage.getWebhooks(getOwner(res));
+      res.json(webhooks.map(toWebhookView));
+    } catch (error) {
+      log(`Error in GET ${basePath}: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ message: "Failed to fetch webhooks" });
+    }
+  });
+
+  // Register a webhook; its signing secret is generated here
+  app.post(basePath, guard, async (req: Request, res: Response) => {
+    try {
+      const { url, events } = createWebhookSchema.parse(req.body);
+      const quizId = getOwner(res);
+
+      const existing = await storage.getWebhooks(quizId);
+      if (existing.length >= MAX_WEBHOOKS) {
+        return res.status(409).json({ message: `At most ${MAX_WEBHOOKS} webhooks can be registered` });
+      }
+
+      // Deliveries check again, since the name can be pointed elsewhere later
+      try {
+        await resolveWebhookAddress(url);
+      } catch (addressError) {
+        const reason = addressError instanceof Error ? addressError.message : String(addressError);
+        log(`Rejected webhook URL ${url}: ${reason}`);
+        return res.status(400).json({ message: `Webhooks cannot be delivered to this URL: ${reason}` });
+      }
+
+      const webhook = await storage.createWebhook({
+        quizId,
+        url,
+        secret: generateWebhookSecret(),
+        events: stringifyJsonField(events),
+      });
+      log(`Registered webhook ${webhook.id} for ${quizId === null ? "all quizzes" : `quiz ${quizId}`}: ${events.join(", ")}`);
+
+      res.status(201).json(toWebhookView(webhook));
+    } catch (error) {
+      log(`Error in POST ${basePath}: ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: error.errors[0]?.message ?? "Invalid webhook", error: error.flatten() });
+      } else {
+        res.status(500).json({ message: "Failed to register webhook" });
+      }
+    }
+  });
+
+  // Most recent deliveries to the owner's webhooks, newest first
+  app.get(`${basePath}/deliveries`, guard, async (req: Request, res: Response) => {
+    try {
+      const deliveries = await storage.getWebhookDeliveries(getOwner(res), WEBHOOK_DELIVERY_LOG_SIZE);
+      res.json(deliveries.map(toWebhookDeliveryView));
+    } catch (error) {
+      log(`Error in GET ${basePath}/deliveries: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ message: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  // Remove a webhook; deliveries already queued for it are still attempted
+  app.delete(`${basePath}/:webhookId`, guard, async (req: Request, res: Response) => {
+    try {
+      const webhookId = parseInt(req.params.webhookId);
+      if (isNaN(webhookId)) {
+        return res.status(400).json({ message: "Invalid webhook ID" });
+      }
+
+      const deleted = await storage.deleteWebhook(webhookId, getOwner(res));
+      if (!deleted) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      log(`Error in DELETE ${basePath}/:webhookId: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).json({ message: "Failed to delete webhook" });
+    }
+  });
+}
+
+/**
+ * Registers the webhook routes of creators (one quiz, through the dashboard token)
+ * and of admins (every quiz, through the admin session)
+ * @param requireDashboardToken Guards the creator routes
+ * @param requireAdmin Guards the admin routes
+ */
+export function registerWebhookRoutes(
+  app: Express,
+  storage: IStorage,
+  requireDashboardToken: RequestHandler,
+  requireAdmin: RequestHandler,
+) {
+  registerWebhookOwnerRoutes(app, storage, "/api/quizzes/:quizId/webhooks", requireDashboardToken, (res) => getAuthorizedQuiz(res).id);
+  registerWebhookOwnerRoutes(app, storage, "/api/admin/webhooks", requireAdmin, () => null);
+}
@@ -0,0 +1,191 @@
+import {
+  parseJsonField,
+  stringifyJsonField,
+  type InsertQuestion,
+  type QuizQuestionInput,
+  type Quiz,
+  type PublicQuiz,
+  type LeaderboardEntry,
+  type LeaderboardAttempt,
+  type Question,
+  type QuizAttempt,
+  type QuestionAnswer,
+  type TakerQuestion,
+  type CreatorQuestion,
+  type ReviewQuestion,
+  type ParsedQuizAttempt,
+  type AttemptSession,
+  type AttemptSessionAnswer,
+  type AttemptSessionView,
+  type Webhook,
+  type WebhookEvent,
+  type WebhookView,
+  type WebhookDelivery,
+  type WebhookDeliveryView,
+} from "@shared/schema";
+import { getCorrectAnswers } from "./grading";
+
+/**
+ * Shapes database rows into the payloads the API sends.
+ * Keeping this in one place makes it obvious which fields each audience can see.
+ */
+
+/**
+ * Quiz as shown to anyone without the dashboard token
+ */
+export function toPublicQuiz(quiz: Quiz): PublicQuiz {
+  const {
+    dashboardToken: _dashboardToken,
+    urlSlugKey: _urlSlugKey,
+    creatorEmail: _creatorEmail,
+    expiryReminderSentAt: _expiryReminderSentAt,
+    ...publicQuiz
+  } = quiz;
+  return publicQuiz;
+}
+
+/**
+ * Attempt as shown on the public leaderboard: who scored what, but not how they answered
+ * The taker's rank and attempt history are added by the leaderboard itself.
+ */
+export function toLeaderboardEntry(attempt: QuizAttempt): Omit<LeaderboardEntry, "rank" | "history"> {
+  return {
+    id: attempt.id,
+    quizId: attempt.quizId,
+    userName: attempt.userName,
+    score: attempt.score,
+    totalQuestions: attempt.totalQuestions,
+    completedAt: attempt.completedAt,
+    durationMs: attempt.durationMs,
+  };
+}
+
+/**
+ * Attempt as listed in a taker's leaderboard history
+ */
+export function toLeaderboardAttempt(attempt: QuizAttempt): LeaderboardAttempt {
+  return {
+    id: attempt.id,
+    score: attempt.score,
+    totalQuestions: attempt.totalQuestions,
+    completedAt: attempt.completedAt,
+    durationMs: attempt.durationMs,
+  };
+}
+
+/**
+ * Question as shown to someone taking the quiz: no answer key, and no hint unless it is the clue
+ * of an open-ended question
+ */
+export function toTakerQuestion(question: Question): TakerQuestion {
+  const options = question.options as string | string[];
+  return {
+    id: question.id,
+    quizId: question.quizId,
+    text: question.text,
+    type: question.type,
+    scoring: question.scoring,
+    imageUrl: question.imageUrl,
+    order: question.order,
+    hint: question.type === "open-ended" ? question.hint : null,
+    options: Array.isArray(options) ? options : parseJsonField<string[]>(options) ?? [],
+  };
+}
+
+/**
+ * Question as shown to the quiz creator
+ */
+export function toCreatorQuestion(question: Question): CreatorQuestion {
+  return {
+    ...toTakerQuestion(question),
+    correctAnswers: getCorrectAnswers(question),
+    strictness: question.strictness,
+    hint: question.hint,
+  };
+}
+
+/**
+ * Question as shown to a taker reviewing their submitted attempt: the answer key, but not the
+ * creator's matching settings
+ */
+export function toReviewQuestion(question: Question): ReviewQuestion {
+  return {
+    ...toTakerQuestion(question),
+    correctAnswers: getCorrectAnswers(question),
+  };
+}
+
+/**
+ * Attempt with its stored answers parsed back into objects
+ */
+export function toParsedAttempt(attempt: QuizAttempt): ParsedQuizAttempt {
+  const answers = attempt.answers as string | QuestionAnswer[];
+  return {
+    ...attempt,
+    answers: Array.isArray(answers) ? answers : parseJsonField<QuestionAnswer[]>(answers) ?? [],
+  };
+}
+
+/**
+ * Attempt session as shown to the taker holding its token: the locked-in answers, but not
+ * whether they were correct (that is only revealed once the attempt is submitted)
+ */
+export function toAttemptSessionView(session: AttemptSession, answers: AttemptSessionAnswer[]): AttemptSessionView {
+  return {
+    token: session.token,
+    quizId: session.quizId,
+    userAnswerId: session.userAnswerId,
+    userName: session.userName,
+    startedAt: session.startedAt,
+    completedAt: session.completedAt,
+    attemptId: session.attemptId,
+    answers: answers.map((answer) => ({
+      questionId: answer.questionId,
+      userAnswer: parseJsonField<string | string[]>(answer.userAnswer) ?? "",
+      answeredAt: answer.answeredAt,
+      timeMs: answer.timeMs,
+    })),
+  };
+}
+
+/**
+ * Webhook as shown to whoever registered it, with its events parsed back into a list
+ */
+export function toWebhookView(webhook: Webhook): WebhookView {
+  return {
+    ...webhook,
+    events: parseJsonField<WebhookEvent[]>(webhook.events) ?? [],
+  };
+}
+
+/**
+ * Delivery as listed in the webhook log: the signing secret stays on the server
+ */
+export function toWebhookDeliveryView(delivery: WebhookDelivery): WebhookDeliveryView {
+  const { secret: _secret, ...view } = delivery;
+  return view;
+}
+
+/**
+ * Turns a question from the creation editor into the stored record
+ * @param input Question with its options flagged as correct or not, or its accepted answers when open ended
+ * @param order Position of the question in the quiz
+ */
+export function fromQuestionInput(input: QuizQuestionInput, order: number): Omit<InsertQuestion, "quizId"> {
+  const isOpenEnded = input.type === "open-ended";
+  return {
+    text: input.text,
+    type: input.type,
+    scoring: input.scoring,
+    strictness: input.strictness,
+    imageUrl: input.imageUrl || null,
+    hint: input.hint || null,
+    order,
+    options: stringifyJsonField(isOpenEnded ? [] : input.options.map((option) => option.text)),
+    correctAnswers: stringifyJsonField(
+      isOpenEnded
+        ? input.acceptedAnswers
+        : input.options.filter((option) => option.isCorrect).map((option) => option.text),
+    ),
+  };
+}
@@ -1,165 +1,861 @@
 import { 
-  users, type User, type InsertUser,
-  quizzes, type Quiz, type InsertQuiz,
-  questions, type Question, type InsertQuestion,
-  quizAttempts, type QuizAttempt, type InsertQuizAttempt
+  type User, type InsertUser,
+  type Quiz, type InsertQuiz,
+  type Question, type InsertQuestion,
+  type QuizAttempt, type InsertQuizAttempt,
+  type AttemptSession, type InsertAttemptSession,
+  type AttemptSessionAnswer, type InsertAttemptSessionAnswer,
+  type RateLimit,
+  type ContactMessage, type InsertContactMessage,
+  type Webhook, type InsertWebhook,
+  type WebhookDelivery, type InsertWebhookDelivery,
+  type QuizImage, type InsertQuizImage,
+  type ContactMessageStatus,
+  type ContactMessageQuery,
+  type UpdateContactMessage,
+  CONTACT_MESSAGE_STATUSES,
+  type QuizWithQuestions,
+  type RetakePolicy,
+  type AttemptSort,
+  DEFAULT_RETAKE_POLICY,
+  DEFAULT_SELECT_ALL_SCORING,
+  DEFAULT_ANSWER_STRICTNESS,
+  normalizeUrlSlug,
+  parseJsonField,
+  type QuestionAnswer,
+  isQuizExpired as hasQuizExpired
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+
+// Which attempts of a quiz a sorted list holds
+export interface AttemptListOptions {
+  sort: AttemptSort;
+  // Keep only the attempt the retake policy counts for each taker
+  countedOnly?: boolean;
+}
+
+// Position of an attempt in a sorted list, as carried by page cursors
+export type AttemptCursor = Pick<QuizAttempt, "id" | "score" | "completedAt" | "durationMs">;
+
+// Where a page of a sorted list starts: right after one position, or it ends right before it
+export type AttemptPageBoundary = { after?: AttemptCursor; before?: AttemptCursor };
+
+// Which attempts to count relative to a position
+// - ahead: sorted ahead of it, tie-breakers included
+// - better: with a strictly better result (score, time...), so equal results are not counted
+// - tied: with exactly the same result
+export type AttemptRelation = { cursor: AttemptCursor; relation: "ahead" | "better" | "tied" };
+
+// How many attempts gave one answer to a question, as stored: typed answers are not normalized yet
+export type AnswerTally = {
+  questionId: number;
+  userAnswer: QuestionAnswer["userAnswer"];
+  isCorrect: boolean;
+  count: number;
+  // Earliest attempt that gave it
+  firstAttemptId: number;
+};
+
+// Figures of a quiz's attempts, computed where they are stored so they never have to be loaded
+export type QuizAttemptAggregates = {
+  totalAttempts: number;
+  averagePercentage: number;
+  topPercentage: number;
+  answers: AnswerTally[];
+};
+
+type AttemptSortField = keyof AttemptCursor;
+type AttemptSortKey = { field: AttemptSortField; direction: "asc" | "desc" };
+
+// Every order ends on the id, so no two attempts ever tie and pages neither skip nor repeat rows
+export const ATTEMPT_SORT_KEYS: Record<AttemptSort, AttemptSortKey[]> = {
+  // On an equal score the earlier attempt ranks higher
+  score: [
+    { field: "score", direction: "desc" },
+    { field: "completedAt", direction: "asc" },
+    { field: "id", direction: "asc" },
+  ],
+  newest: [
+    { field: "completedAt", direction: "desc" },
+    { field: "id", direction: "desc" },
+  ],
+  // Only attempts with a recorded duration take part
+  fastest: [
+    { field: "durationMs", direction: "asc" },
+    { field: "completedAt", direction: "asc" },
+    { field: "id", direction: "asc" },
+  ],
+};
+
+// Whether two attempts have the same result in an order, regardless of tie-breakers
+export function haveSameResult(sort: AttemptSort, a: AttemptCursor, b: AttemptCursor): boolean {
+  return compareAttempts(sort, a, b, true) === 0;
+}
+
+// Same order as getAttemptOrderBy, for attempts held in memory; `resultOnly` compares the ranked result alone
+function compareAttempts(sort: AttemptSort, a: AttemptCursor, b: AttemptCursor, resultOnly = false): number {
+  const keys = ATTEMPT_SORT_KEYS[sort];
+  for (const key of resultOnly ? keys.slice(0, 1) : keys) {
+    const left = a[key.field] ?? 0;
+    const right = b[key.field] ?? 0;
+    if (left === right) continue;
+    const difference = left < right ? -1 : 1;
+    return key.direction === "asc" ? difference : -difference;
+  }
+  return 0;
+}
+
+export function countByContactMessageStatus(rows: { status: ContactMessageStatus; count: number }[]): Record<ContactMessageStatus, number> {
+  const counts = Object.fromEntries(CONTACT_MESSAGE_STATUSES.map((status) => [status, 0])) as Record<ContactMessageStatus, number>;
+  for (const row of rows) counts[row.status] += row.count;
+  return counts;
+}
+
+// Outcome of submitting an attempt session
+// - completed: the attempt was stored and the session closed
+// - already-completed: another request submitted the session first
+// - blocked: the quiz allows a single attempt and the taker already made one
+export type AttemptSessionCompletion =
+  | { status: "completed"; attempt: QuizAttempt }
+  | { status: "already-completed" }
+  | { status: "blocked"; blockingAttempt: QuizAttempt };
+
+// Outcome of one delivery attempt
+export type WebhookDeliveryUpdate = Pick<WebhookDelivery, "status" | "attempts" | "nextAttemptAt" | "responseStatus" | "error" | "completedAt">;
 
 // Storage interface
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   
   // Quiz operations
   getQuiz(id: number): Promise<Quiz | undefined>;
+  getAllQuizzes(): Promise<Quiz[]>;
   getQuizByAccessCode(accessCode: string): Promise<Quiz | undefined>;
+  // Slugs are matched case-insensitively through their lookup key, an exact match wins
   getQuizByUrlSlug(urlSlug: string): Promise<Quiz | undefined>;
   getQuizByDashboardToken(token: string): Promise<Quiz | undefined>;
   createQuiz(quiz: InsertQuiz): Promise<Quiz>;
+  // The images the questions show that no quiz owns yet become the new quiz's
+  createQuizWithQuestions(
+    quiz: InsertQuiz,
+    questions: Omit<InsertQuestion, "quizId">[]
+  ): Promise<QuizWithQuestions>;
+  updateQuizExpiry(id: number, expiresAt: string): Promise<Quiz | undefined>;
+  updateQuizRetakePolicy(id: number, retakePolicy: RetakePolicy): Promise<Quiz | undefined>;
+  getExpiredQuizzes(now: Date): Promise<Quiz[]>;
+  // Live quizzes with a creator email that expire by `remindBefore` and have not had their reminder yet
+  getQuizzesDueForExpiryReminder(now: Date, remindBefore: Date): Promise<Quiz[]>;
+  // Records the reminder; false when it was already recorded, so only one sender claims it
+  markExpiryReminderSent(id: number, sentAt: Date): Promise<boolean>;
+  // Deletes the quizzes with their questions, attempts, attempt sessions and image records, all or nothing
+  deleteQuizzes(quizIds: number[]): Promise<void>;
   
   // Question operations
+  getQuestion(id: number): Promise<Question | undefined>;
   getQuestionsByQuizId(quizId: number): Promise<Question[]>;
   createQuestion(question: InsertQuestion): Promise<Question>;
+  updateQuestion(id: number, question: Partial<Omit<InsertQuestion, "quizId">>): Promise<Question | undefined>;
+  deleteQuestion(id: number): Promise<boolean>;
+  reorderQuestions(quizId: number, questionIds: number[]): Promise<Question[]>;
+  
+  // Quiz image operations
+  createQuizImage(image: InsertQuizImage): Promise<QuizImage>;
+  // Images recorded as the quiz's, which are deleted along with it
+  getQuizImages(quizId: number): Promise<QuizImage[]>;
   
   // Quiz Attempt operations
+  getQuizAttempt(id: number): Promise<QuizAttempt | undefined>;
+  // Every attempt of a quiz, oldest first; prefer the paginated reads for anything shown in a list
   getQuizAttempts(quizId: number): Promise<QuizAttempt[]>;
+  // Up to `limit` attempts in the list's order, right after `after` or right before `before` (from the top otherwise)
+  getQuizAttemptsPage(
+    quizId: number,
+    options: AttemptListOptions & AttemptPageBoundary & { limit: number }
+  ): Promise<QuizAttempt[]>;
+  // Size of the list, or with `relativeTo` the number of attempts in that relation to a position
+  countQuizAttempts(quizId: number, options: AttemptListOptions & { relativeTo?: AttemptRelation }): Promise<number>;
+  // Attempt count, average and top percentage, and how many attempts gave each answer to each question
+  getQuizAttemptAggregates(quizId: number): Promise<QuizAttemptAggregates>;
+  // Attempts one taker made on a quiz, oldest first
+  getQuizAttemptsByTaker(quizId: number, userAnswerId: number): Promise<QuizAttempt[]>;
+  // Attempts of several takers at once, oldest first
+  getQuizAttemptsByTakers(quizId: number, userAnswerIds: number[]): Promise<QuizAttempt[]>;
+  // Marks exactly `attemptIds` as counted, among the quiz's attempts or only those of one taker
+  setCountedAttempts(quizId: number, attemptIds: number[], userAnswerId?: number): Promise<void>;
   createQuizAttempt(attempt: InsertQuizAttempt): Promise<QuizAttempt>;
+  updateQuizAttemptGrade(
+    id: number,
+    grade: Pick<InsertQuizAttempt, "score" | "totalQuestions" | "answers">
+  ): Promise<void>;
+  
+  // Attempt session operations
+  createAttemptSession(session: InsertAttemptSession): Promise<AttemptSession>;
+  getAttemptSessionByToken(token: string): Promise<AttemptSession | undefined>;
+  // Answers in the order they were locked in
+  getAttemptSessionAnswers(sessionId: number): Promise<AttemptSessionAnswer[]>;
+  // Returns undefined when the question was already answered in the session
+  lockAttemptSessionAnswer(answer: InsertAttemptSessionAnswer): Promise<AttemptSessionAnswer | undefined>;
+  // Stores the attempt and closes the session. Under the single retake policy the taker's earlier
+  // attempts are checked in the same step, so concurrent sessions of one taker store one attempt.
+  completeAttemptSession(sessionId: number, attempt: InsertQuizAttempt, retakePolicy: RetakePolicy): Promise<AttemptSessionCompletion>;
+  
+  // Rate limit operations
+  // Counts one hit against `key`; a window that has run out starts over at 1
+  hitRateLimit(key: string, windowMs: number, now: Date): Promise<RateLimit>;
+  deleteExpiredRateLimits(now: Date): Promise<void>;
+  
+  // Contact message operations
+  // `createdAt` is only given when importing older messages
+  createContactMessage(message: InsertContactMessage, createdAt?: Date): Promise<ContactMessage>;
+  getContactMessage(id: number): Promise<ContactMessage | undefined>;
+  // Newest first
+  getContactMessages(query: ContactMessageQuery): Promise<ContactMessage[]>;
+  // Messages matching `search` in each status
+  countContactMessagesByStatus(search?: string): Promise<Record<ContactMessageStatus, number>>;
+  updateContactMessage(id: number, update: UpdateContactMessage): Promise<ContactMessage | undefined>;
+  deleteContactMessage(id: number): Promise<boolean>;
+  
+  // Webhook operations
+  createWebhook(webhook: InsertWebhook): Promise<Webhook>;
+  // A quiz's webhooks, or the admins' when `quizId` is null; oldest first
+  getWebhooks(quizId: number | null): Promise<Webhook[]>;
+  // Every webhook that hears about the quiz's events: its own and the admins'
+  getWebhooksForQuiz(quizId: number): Promise<Webhook[]>;
+  // Only deletes the webhook if it belongs to `quizId` (the admins' when null)
+  deleteWebhook(id: number, quizId: number | null): Promise<boolean>;
+  
+  // Webhook delivery operations
+  createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]>;
+  // Pending deliveries whose next attempt is due by `now`, longest waiting first
+  getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]>;
+  // Pushes a due delivery's next attempt back to `leaseUntil`; false when another server instance claimed it first
+  claimWebhookDelivery(id: number, now: Date, leaseUntil: Date): Promise<boolean>;
+  updateWebhookDelivery(id: number, update: WebhookDeliveryUpdate): Promise<void>;
+  // A quiz's delivery log, or the admins' when `quizId` is null; newest first
+  getWebhookDeliveries(quizId: number | null, limit: number): Promise<WebhookDelivery[]>;
+  // Deletes the deliveries created before `before` that are no longer pending
+  deleteSettledWebhookDeliveries(before: Date): Promise<void>;
   
   // Quiz expiration check
   isQuizExpired(quiz: Quiz): boolean;
 }
 
-// Database storage implementation using Drizzle ORM
-export class DatabaseStorage implements IStorage {
+// In-memory storage implementation, for tests and running the API without a database
+// Mirrors the behaviour of DatabaseStorage, including the unique quiz identifiers.
+export class MemStorage implements IStorage {
+  private users = new Map<number, User>();
+  private quizzes = new Map<number, Quiz>();
+  private questions = new Map<number, Question>();
+  private quizAttempts = new Map<number, QuizAttempt>();
+  private rateLimits = new Map<string, RateLimit>();
+  private contactMessages = new Map<number, ContactMessage>();
+  private webhooks = new Map<number, Webhook>();
+  private webhookDeliveries = new Map<number, WebhookDelivery>();
+  private attemptSessions = new Map<number, AttemptSession>();
+  private attemptSessionAnswers = new Map<number, AttemptSessionAnswer>();
+  private quizImages = new Map<number, QuizImage>();
+  private nextIds = { user: 1, quiz: 1, question: 1, quizAttempt: 1, attemptSession: 1, attemptSessionAnswer: 1, contactMessage: 1, webhook: 1, webhookDelivery: 1, quizImage: 1 };
+  
   // User methods
   async getUser(id: number): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
-    return user;
+    return this.users.get(id);
+  }
+  
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.username === username);
   }
   
   async createUser(insertUser: InsertUser): Promise<User> {
-    // Validate the username is not empty
     if (!insertUser.username || !insertUser.username.trim()) {
       throw new Error("Username is required");
     }
     
-    const [user] = await db.insert(users).values(insertUser).returning();
+    const user: User = { id: this.nextIds.user++, username: insertUser.username };
+    this.users.set(user.id, user);
     return user;
   }
   
   // Quiz methods
   async getQuiz(id: number): Promise<Quiz | undefined> {
-    const [quiz] = await db.select().from(quizzes).where(eq(quizzes.id, id));
-    return quiz;
+    return this.quizzes.get(id);
+  }
+  
+  async getAllQuizzes(): Promise<Quiz[]> {
+    return Array.from(this.quizzes.values());
   }
   
   async getQuizByAccessCode(accessCode: string): Promise<Quiz | undefined> {
-    const [quiz] = await db
-      .select()
-      .from(quizzes)
-      .where(eq(quizzes.accessCode, accessCode));
-    return quiz;
+    return Array.from(this.quizzes.values()).find((quiz) => quiz.accessCode === accessCode);
   }
   
   async getQuizByUrlSlug(urlSlug: string): Promise<Quiz | undefined> {
-    const [quiz] = await db
-      .select()
-      .from(quizzes)
-      .where(eq(quizzes.urlSlug, urlSlug));
-    return quiz;
+    const allQuizzes = Array.from(this.quizzes.values());
+    const urlSlugKey = normalizeUrlSlug(urlSlug);
+    return allQuizzes.find((quiz) => quiz.urlSlug === urlSlug) ??
+      allQuizzes.find((quiz) => quiz.urlSlugKey === urlSlugKey);
   }
   
   async getQuizByDashboardToken(token: string): Promise<Quiz | undefined> {
-    const [quiz] = await db
-      .select()
-      .from(quizzes)
-      .where(eq(quizzes.dashboardToken, token));
-    return quiz;
+    return Array.from(this.quizzes.values()).find((quiz) => quiz.dashboardToken === token);
   }
   
   async createQuiz(insertQuiz: InsertQuiz): Promise<Quiz> {
-    // Validate required fields
     if (!insertQuiz.creatorName || !insertQuiz.creatorName.trim()) {
-      console.error("Empty creator name received");
       throw new Error("Creator name is required");
     }
     
-    if (!insertQuiz.accessCode || !insertQuiz.urlSlug || !insertQuiz.dashboardToken) {
-      console.error("Required quiz fields missing", { 
-        hasAccessCode: !!insertQuiz.accessCode, 
-        hasUrlSlug: !!insertQuiz.urlSlug,
-        hasDashboardToken: !!insertQuiz.dashboardToken
-      });
-      throw new Error("Required quiz fields are missing");
+    const urlSlugKey = normalizeUrlSlug(insertQuiz.urlSlug);
+    
+    // Same unique constraints as the quizzes table
+    for (const quiz of Array.from(this.quizzes.values())) {
+      if (
+        quiz.accessCode === insertQuiz.accessCode ||
+        quiz.urlSlug === insertQuiz.urlSlug ||
+        quiz.urlSlugKey === urlSlugKey ||
+        quiz.dashboardToken === insertQuiz.dashboardToken
+      ) {
+        throw new Error("Quiz identifiers must be unique");
+      }
     }
     
-    console.log(`Creating quiz with creator: "${insertQuiz.creatorName}", slug: "${insertQuiz.urlSlug}"`);
+    const quiz: Quiz = {
+      ...insertQuiz,
+      id: this.nextIds.quiz++,
+      urlSlugKey,
+      createdAt: new Date().toISOString(),
+      retakePolicy: insertQuiz.retakePolicy ?? DEFAULT_RETAKE_POLICY,
+      creatorEmail: insertQuiz.creatorEmail ?? null,
+      expiryReminderSentAt: null,
+    };
+    this.quizzes.set(quiz.id, quiz);
+    return quiz;
+  }
+  
+  async createQuizWithQuestions(
+    insertQuiz: InsertQuiz,
+    insertQuestions: Omit<InsertQuestion, "quizId">[]
+  ): Promise<QuizWithQuestions> {
+    const quiz = await this.createQuiz(insertQuiz);
+    const createdQuestions: Question[] = [];
+    for (const question of insertQuestions) {
+      createdQuestions.push(await this.createQuestion({ ...question, quizId: quiz.id }));
+    }
+    const imageUrls = new Set(createdQuestions.map((question) => question.imageUrl));
+    for (const image of Array.from(this.quizImages.values())) {
+      if (image.quizId === null && imageUrls.has(image.url)) {
+        this.quizImages.set(image.id, { ...image, quizId: quiz.id });
+      }
+    }
+    return { ...quiz, questions: createdQuestions };
+  }
+  
+  async updateQuizExpiry(id: number, expiresAt: string): Promise<Quiz | undefined> {
+    const quiz = this.quizzes.get(id);
+    if (!quiz) return undefined;
     
-    // Create the quiz
-    const [quiz] = await db
-      .insert(quizzes)
-      .values(insertQuiz)
-      .returning();
+    const updated = { ...quiz, expiresAt, expiryReminderSentAt: null };
+    this.quizzes.set(id, updated);
+    return updated;
+  }
+  
+  async updateQuizRetakePolicy(id: number, retakePolicy: RetakePolicy): Promise<Quiz | undefined> {
+    const quiz = this.quizzes.get(id);
+    if (!quiz) return undefined;
     
-    return quiz;
+    const updated = { ...quiz, retakePolicy };
+    this.quizzes.set(id, updated);
+    return updated;
+  }
+  
+  async getExpiredQuizzes(now: Date): Promise<Quiz[]> {
+    return Array.from(this.quizzes.values()).filter((quiz) => hasQuizExpired(quiz, now));
+  }
+  
+  async getQuizzesDueForExpiryReminder(now: Date, remindBefore: Date): Promise<Quiz[]> {
+    return Array.from(this.quizzes.values()).filter((quiz) =>
+      quiz.creatorEmail !== null &&
+      quiz.expiryReminderSentAt === null &&
+      !hasQuizExpired(quiz, now) &&
+      hasQuizExpired(quiz, remindBefore)
+    );
+  }
+  
+  async markExpiryReminderSent(id: number, sentAt: Date): Promise<boolean> {
+    const quiz = this.quizzes.get(id);
+    if (!quiz || quiz.expiryReminderSentAt !== null) return false;
+    
+    this.quizzes.set(id, { ...quiz, expiryReminderSentAt: sentAt.toISOString() });
+    return true;
+  }
+  
+  async deleteQuizzes(quizIds: number[]): Promise<void> {
+    const ids = new Set(quizIds);
+    for (const session of Array.from(this.attemptSessions.values())) {
+      if (!ids.has(session.quizId)) continue;
+      for (const answer of Array.from(this.attemptSessionAnswers.values())) {
+        if (answer.sessionId === session.id) this.attemptSessionAnswers.delete(answer.id);
+      }
+      this.attemptSessions.delete(session.id);
+    }
+    for (const attempt of Array.from(this.quizAttempts.values())) {
+      if (ids.has(attempt.quizId)) this.quizAttempts.delete(attempt.id);
+    }
+    for (const question of Array.from(this.questions.values())) {
+      if (ids.has(question.quizId)) this.questions.delete(question.id);
+    }
+    for (const image of Array.from(this.quizImages.values())) {
+      if (image.quizId !== null && ids.has(image.quizId)) this.quizImages.delete(image.id);
+    }
+    for (const webhook of Array.from(this.webhooks.values())) {
+      if (webhook.quizId !== null && ids.has(webhook.quizId)) this.webhooks.delete(webhook.id);
+    }
+    for (const delivery of Array.from(this.webhookDeliveries.values())) {
+      if (delivery.quizId !== null && ids.has(delivery.quizId) && delivery.status !== "pending") {
+        this.webhookDeliveries.delete(delivery.id);
+      }
+    }
+    for (const id of quizIds) {
+      this.quizzes.delete(id);
+    }
   }
   
   // Question methods
+  async getQuestion(id: number): Promise<Question | undefined> {
+    return this.questions.get(id);
+  }
+  
   async getQuestionsByQuizId(quizId: number): Promise<Question[]> {
-    const result = await db
-      .select()
-      .from(questions)
-      .where(eq(questions.quizId, quizId))
-      .orderBy(questions.order);
-    
-    return result;
+    return Array.from(this.questions.values())
+      .filter((question) => question.quizId === quizId)
+      .sort((a, b) => a.order - b.order);
   }
   
   async createQuestion(insertQuestion: InsertQuestion): Promise<Question> {
-    const [question] = await db
-      .insert(questions)
-      .values(insertQuestion)
-      .returning();
-    
+    const question: Question = {
+      ...insertQuestion,
+      id: this.nextIds.question++,
+      hint: insertQuestion.hint ?? null,
+      imageUrl: insertQuestion.imageUrl ?? null,
+      scoring: insertQuestion.scoring ?? DEFAULT_SELECT_ALL_SCORING,
+      strictness: insertQuestion.strictness ?? DEFAULT_ANSWER_STRICTNESS,
+    };
+    this.questions.set(question.id, question);
     return question;
   }
   
+  async updateQuestion(
+    id: number,
+    updates: Partial<Omit<InsertQuestion, "quizId">>
+  ): Promise<Question | undefined> {
+    const question = this.questions.get(id);
+    if (!question) return undefined;
+    
+    const updated = { ...question, ...updates };
+    this.questions.set(id, updated);
+    return updated;
+  }
+  
+  async deleteQuestion(id: number): Promise<boolean> {
+    return this.questions.delete(id);
+  }
+  
+  async reorderQuestions(quizId: number, questionIds: number[]): Promise<Question[]> {
+    questionIds.forEach((questionId, index) => {
+      const question = this.questions.get(questionId);
+      if (question && question.quizId === quizId) {
+        this.questions.set(questionId, { ...question, order: index });
+      }
+    });
+    return this.getQuestionsByQuizId(quizId);
+  }
+  
+  // Quiz image methods
+  async createQuizImage(insertImage: InsertQuizImage): Promise<QuizImage> {
+    if (Array.from(this.quizImages.values()).some((image) => image.url === insertImage.url)) {
+      throw new Error("Image URLs must be unique");
+    }
+    
+    const image: QuizImage = {
+      ...insertImage,
+      id: this.nextIds.quizImage++,
+      quizId: insertImage.quizId ?? null,
+      createdAt: new Date().toISOString(),
+    };
+    this.quizImages.set(image.id, image);
+    return image;
+  }
+  
+  async getQuizImages(quizId: number): Promise<QuizImage[]> {
+    return Array.from(this.quizImages.values()).filter((image) => image.quizId === quizId);
+  }
+  
   // Quiz Attempt methods
+  async getQuizAttempt(id: number): Promise<QuizAttempt | undefined> {
+    return this.quizAttempts.get(id);
+  }
+  
   async getQuizAttempts(quizId: number): Promise<QuizAttempt[]> {
-    const result = await db
-      .select()
-      .from(quizAttempts)
-      .where(eq(quizAttempts.quizId, quizId))
-      .orderBy(quizAttempts.score);
-    
-    return result.reverse(); // Reverse to get highest scores first
+    return Array.from(this.quizAttempts.values())
+      .filter((attempt) => attempt.quizId === quizId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getQuizAttemptAggregates(quizId: number): Promise<QuizAttemptAggregates> {
+    const attempts = await this.getQuizAttempts(quizId);
+    const percentages = attempts.map((attempt) => (attempt.score * 100) / (attempt.totalQuestions || 1));
+
+    const tallies = new Map<string, AnswerTally>();
+    for (const attempt of attempts) {
+      for (const answer of parseJsonField<QuestionAnswer[]>(attempt.answers) ?? []) {
+        const isCorrect = answer.isCorrect ?? false;
+        const key = JSON.stringify([answer.questionId, answer.userAnswer, isCorrect]);
+        const tally = tallies.get(key);
+        if (tally) {
+          tally.count++;
+        } else {
+          tallies.set(key, { questionId: answer.questionId, userAnswer: answer.userAnswer, isCorrect, count: 1, firstAttemptId: attempt.id });
+        }
+      }
+    }
+
+    return {
+      totalAttempts: attempts.length,
+      averagePercentage: percentages.length > 0
+        ? percentages.reduce((sum, percentage) => sum + percentage, 0) / percentages.length
+        : 0,
+      topPercentage: percentages.reduce((top, percentage) => Math.max(top, percentage), 0),
+      answers: Array.from(tallies.values()),
+    };
+  }
+  
+  // The attempts of a sorted list, in order
+  private getAttemptList(quizId: number, { sort, countedOnly }: AttemptListOptions): QuizAttempt[] {
+    return Array.from(this.quizAttempts.values())
+      .filter((attempt) =>
+        attempt.quizId === quizId &&
+        (!countedOnly || attempt.counted) &&
+        (sort !== "fastest" || attempt.durationMs !== null)
+      )
+      .sort((a, b) => compareAttempts(sort, a, b));
+  }
+  
+  async getQuizAttemptsPage(
+    quizId: number,
+    options: AttemptListOptions & AttemptPageBoundary & { limit: number }
+  ): Promise<QuizAttempt[]> {
+    const { sort, after, before, limit } = options;
+    const list = this.getAttemptList(quizId, options);
+    if (before) {
+      const ahead = list.filter((attempt) => compareAttempts(sort, attempt, before) < 0);
+      return ahead.slice(Math.max(0, ahead.length - limit));
+    }
+    return list
+      .filter((attempt) => !after || compareAttempts(sort, attempt, after) > 0)
+      .slice(0, limit);
+  }
+  
+  async countQuizAttempts(quizId: number, options: AttemptListOptions & { relativeTo?: AttemptRelation }): Promise<number> {
+    const { sort, relativeTo } = options;
+    return this.getAttemptList(quizId, options)
+      .filter((attempt) => {
+        if (!relativeTo) return true;
+        const { cursor, relation } = relativeTo;
+        if (relation === "ahead") return compareAttempts(sort, attempt, cursor) < 0;
+        const result = compareAttempts(sort, attempt, cursor, true);
+        return relation === "tied" ? result === 0 : result < 0;
+      })
+      .length;
+  }
+  
+  async getQuizAttemptsByTaker(quizId: number, userAnswerId: number): Promise<QuizAttempt[]> {
+    return Array.from(this.quizAttempts.values())
+      .filter((attempt) => attempt.quizId === quizId && attempt.userAnswerId === userAnswerId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getQuizAttemptsByTakers(quizId: number, userAnswerIds: number[]): Promise<QuizAttempt[]> {
+    const takers = new Set(userAnswerIds);
+    return Array.from(this.quizAttempts.values())
+      .filter((attempt) => attempt.quizId === quizId && takers.has(attempt.userAnswerId))
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async setCountedAttempts(quizId: number, attemptIds: number[], userAnswerId?: number): Promise<void> {
+    const counted = new Set(attemptIds);
+    for (const attempt of Array.from(this.quizAttempts.values())) {
+      if (attempt.quizId !== quizId) continue;
+      if (userAnswerId !== undefined && attempt.userAnswerId !== userAnswerId) continue;
+      this.quizAttempts.set(attempt.id, { ...attempt, counted: counted.has(attempt.id) });
+    }
   }
   
   async createQuizAttempt(insertAttempt: InsertQuizAttempt): Promise<QuizAttempt> {
-    const [attempt] = await db
-      .insert(quizAttempts)
-      .values(insertAttempt)
-      .returning();
-    
+    const attempt: QuizAttempt = {
+      ...insertAttempt,
+      id: this.nextIds.quizAttempt++,
+      completedAt: new Date().toISOString(),
+      durationMs: insertAttempt.durationMs ?? null,
+      counted: true,
+    };
+    this.quizAttempts.set(attempt.id, attempt);
     return attempt;
   }
   
-  // Check if a quiz is expired (older than 7 days)
-  isQuizExpired(quiz: Quiz): boolean {
-    if (!quiz || !quiz.createdAt) return true;
+  async updateQuizAttemptGrade(
+    id: number,
+    grade: Pick<InsertQuizAttempt, "score" | "totalQuestions" | "answers">
+  ): Promise<void> {
+    const attempt = this.quizAttempts.get(id);
+    if (attempt) {
+      this.quizAttempts.set(id, { ...attempt, ...grade });
+    }
+  }
+  
+  async createAttemptSession(insertSession: InsertAttemptSession): Promise<AttemptSession> {
+    if (Array.from(this.attemptSessions.values()).some((session) => session.token === insertSession.token)) {
+      throw new Error("Attempt session token already exists");
+    }
     
-    const now = new Date();
-    const createdAt = new Date(quiz.createdAt);
-    const diffInMs = now.getTime() - createdAt.getTime();
-    const diffInDays = diffInMs / (1000 * 60 * 60 * 24);
+    const session: AttemptSession = {
+      ...insertSession,
+      id: this.nextIds.attemptSession++,
+      startedAt: new Date().toISOString(),
+      completedAt: null,
+      attemptId: null,
+    };
+    this.attemptSessions.set(session.id, session);
+    return session;
+  }
+  
+  async getAttemptSessionByToken(token: string): Promise<AttemptSession | undefined> {
+    return Array.from(this.attemptSessions.values()).find((session) => session.token === token);
+  }
+  
+  async getAttemptSessionAnswers(sessionId: number): Promise<AttemptSessionAnswer[]> {
+    return Array.from(this.attemptSessionAnswers.values())
+      .filter((answer) => answer.sessionId === sessionId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async lockAttemptSessionAnswer(insertAnswer: InsertAttemptSessionAnswer): Promise<AttemptSessionAnswer | undefined> {
+    const alreadyAnswered = Array.from(this.attemptSessionAnswers.values()).some(
+      (answer) => answer.sessionId === insertAnswer.sessionId && answer.questionId === insertAnswer.questionId
+    );
+    if (alreadyAnswered) return undefined;
     
-    // Changed from 30 days to 7 days expiration policy
-    return diffInDays > 7;
+    const answer: AttemptSessionAnswer = { ...insertAnswer, id: this.nextIds.attemptSessionAnswer++ };
+    this.attemptSessionAnswers.set(answer.id, answer);
+    return answer;
+  }
+  
+  async completeAttemptSession(
+    sessionId: number,
+    insertAttempt: InsertQuizAttempt,
+    retakePolicy: RetakePolicy,
+  ): Promise<AttemptSessionCompletion> {
+    // Checked and written without awaiting in between, so no other submission can interleave
+    const session = this.attemptSessions.get(sessionId);
+    if (!session || session.completedAt) return { status: "already-completed" };
+    
+    if (retakePolicy === "single") {
+      const blockingAttempt = Array.from(this.quizAttempts.values())
+        .filter((attempt) => attempt.quizId === insertAttempt.quizId && attempt.userAnswerId === insertAttempt.userAnswerId)
+        .sort((a, b) => a.id - b.id)[0];
+      if (blockingAttempt) return { status: "blocked", blockingAttempt };
+    }
+    
+    const attempt = await this.createQuizAttempt(insertAttempt);
+    this.attemptSessions.set(sessionId, {
+      ...session,
+      completedAt: attempt.completedAt,
+      attemptId: attempt.id,
+    });
+    return { status: "completed", attempt };
+  }
+  
+  async hitRateLimit(key: string, windowMs: number, now: Date): Promise<RateLimit> {
+    const existing = this.rateLimits.get(key);
+    const rateLimit: RateLimit = existing && new Date(existing.resetAt).getTime() > now.getTime()
+      ? { ...existing, count: existing.count + 1 }
+      : { key, count: 1, resetAt: new Date(now.getTime() + windowMs).toISOString() };
+    this.rateLimits.set(key, rateLimit);
+    return rateLimit;
+  }
+  
+  async deleteExpiredRateLimits(now: Date): Promise<void> {
+    for (const rateLimit of Array.from(this.rateLimits.values())) {
+      if (new Date(rateLimit.resetAt).getTime() <= now.getTime()) {
+        this.rateLimits.delete(rateLimit.key);
+      }
+    }
+  }
+  
+  // Contact message methods
+  async createContactMessage(insertMessage: InsertContactMessage, createdAt?: Date): Promise<ContactMessage> {
+    const timestamp = (createdAt ?? new Date()).toISOString();
+    const message: ContactMessage = {
+      ...insertMessage,
+      id: this.nextIds.contactMessage++,
+      status: "new",
+      note: null,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    this.contactMessages.set(message.id, message);
+    return message;
+  }
+  
+  async getContactMessage(id: number): Promise<ContactMessage | undefined> {
+    return this.contactMessages.get(id);
+  }
+  
+  async getContactMessages({ status, search }: ContactMessageQuery): Promise<ContactMessage[]> {
+    return this.searchContactMessages(search)
+      .filter((message) => !status || message.status === status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id - a.id);
+  }
+  
+  async countContactMessagesByStatus(search?: string): Promise<Record<ContactMessageStatus, number>> {
+    return countByContactMessageStatus(
+      this.searchContactMessages(search).map((message) => ({ status: message.status, count: 1 }))
+    );
+  }
+  
+  async updateContactMessage(id: number, update: UpdateContactMessage): Promise<ContactMessage | undefined> {
+    const message = this.contactMessages.get(id);
+    if (!message) return undefined;
+    
+    const updated: ContactMessage = {
+      ...message,
+      status: update.status ?? message.status,
+      note: update.note !== undefined ? update.note : message.note,
+      updatedAt: new Date().toISOString(),
+    };
+    this.contactMessages.set(id, updated);
+    return updated;
+  }
+  
+  async deleteContactMessage(id: number): Promise<boolean> {
+    return this.contactMessages.delete(id);
+  }
+  
+  private searchContactMessages(search: string | undefined): ContactMessage[] {
+    const messages = Array.from(this.contactMessages.values());
+    if (!search) return messages;
+    const needle = search.toLowerCase();
+    return messages.filter((message) =>
+      [message.name, message.email, message.message].some((field) => field.toLowerCase().includes(needle))
+    );
+  }
+  
+  // Webhook methods
+  async createWebhook(insertWebhook: InsertWebhook): Promise<Webhook> {
+    const webhook: Webhook = {
+      ...insertWebhook,
+      id: this.nextIds.webhook++,
+      quizId: insertWebhook.quizId ?? null,
+      createdAt: new Date().toISOString(),
+    };
+    this.webhooks.set(webhook.id, webhook);
+    return webhook;
+  }
+  
+  async getWebhooks(quizId: number | null): Promise<Webhook[]> {
+    return Array.from(this.webhooks.values())
+      .filter((webhook) => webhook.quizId === quizId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getWebhooksForQuiz(quizId: number): Promise<Webhook[]> {
+    return Array.from(this.webhooks.values())
+      .filter((webhook) => webhook.quizId === quizId || webhook.quizId === null)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async deleteWebhook(id: number, quizId: number | null): Promise<boolean> {
+    const webhook = this.webhooks.get(id);
+    if (!webhook || webhook.quizId !== quizId) return false;
+    return this.webhooks.delete(id);
+  }
+  
+  // Webhook delivery methods
+  async createWebhookDeliveries(insertDeliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    const createdAt = new Date().toISOString();
+    return insertDeliveries.map((insertDelivery) => {
+      const delivery: WebhookDelivery = {
+        ...insertDelivery,
+        id: this.nextIds.webhookDelivery++,
+        quizId: insertDelivery.quizId ?? null,
+        nextAttemptAt: insertDelivery.nextAttemptAt ?? null,
+        status: "pending",
+        attempts: 0,
+        responseStatus: null,
+        error: null,
+        createdAt,
+        completedAt: null,
+      };
+      this.webhookDeliveries.set(delivery.id, delivery);
+      return delivery;
+    });
+  }
+  
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter((delivery) => this.isWebhookDeliveryDue(delivery, now))
+      .sort((a, b) => a.nextAttemptAt!.localeCompare(b.nextAttemptAt!) || a.id - b.id)
+      .slice(0, limit);
+  }
+  
+  async claimWebhookDelivery(id: number, now: Date, leaseUntil: Date): Promise<boolean> {
+    const delivery = this.webhookDeliveries.get(id);
+    if (!delivery || !this.isWebhookDeliveryDue(delivery, now)) return false;
+    
+    this.webhookDeliveries.set(id, { ...delivery, nextAttemptAt: leaseUntil.toISOString() });
+    return true;
+  }
+  
+  async updateWebhookDelivery(id: number, update: WebhookDeliveryUpdate): Promise<void> {
+    const delivery = this.webhookDeliveries.get(id);
+    if (delivery) this.webhookDeliveries.set(id, { ...delivery, ...update });
+  }
+  
+  async getWebhookDeliveries(quizId: number | null, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter((delivery) => delivery.quizId === quizId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  async deleteSettledWebhookDeliveries(before: Date): Promise<void> {
+    for (const delivery of Array.from(this.webhookDeliveries.values())) {
+      if (delivery.status !== "pending" && new Date(delivery.createdAt).getTime() < before.getTime()) {
+        this.webhookDeliveries.delete(delivery.id);
+      }
+    }
+  }
+  
+  private isWebhookDeliveryDue(delivery: WebhookDelivery, now: Date): boolean {
+    return delivery.status === "pending" &&
+      delivery.nextAttemptAt !== null &&
+      new Date(delivery.nextAttemptAt).getTime() <= now.getTime();
+  }
+  
+  isQuizExpired(quiz: Quiz): boolean {
+    if (!quiz || !quiz.expiresAt) return true;
+    return hasQuizExpired(quiz);
   }
 }
 
-// Create and export an instance of DatabaseStorage
-export const storage = new DatabaseStorage();
+/**
+ * Creates the storage the server runs on
+ * STORAGE=memory runs the whole API without a database (nothing survives a restart).
+ * The database is only connected to otherwise, so the in-memory store needs no database file or URL.
+ */
+export async function createStorage(): Promise<IStorage> {
+  if (process.env.STORAGE === "memory") return new MemStorage();
+
+  const { DatabaseStorage } = await import("./databaseStorage");
+  return new DatabaseStorage();
+}
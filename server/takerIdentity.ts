@@ -0,0 +1,80 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { IStorage } from "./storage";
+
+/**
+ * Who took a quiz, as far as retake limits and the leaderboard are concerned.
+ * The server creates a taker the first time a browser starts a quiz and hands back a signed
+ * token naming it. Later sessions are only counted for that taker when the token comes back,
+ * so nobody can claim another taker's attempts by sending their id.
+ */
+
+let signingSecret: string | undefined;
+
+function getSigningSecret(): string {
+  if (!signingSecret) {
+    signingSecret = process.env.SESSION_SECRET;
+    if (!signingSecret) {
+      if (process.env.NODE_ENV === "production") {
+        throw new Error("SESSION_SECRET environment variable is not set for production.");
+      }
+      // Dev takers do not outlive a restart
+      signingSecret = randomBytes(32).toString("hex");
+    }
+  }
+  return signingSecret;
+}
+
+/**
+ * Checks that taker tokens can be signed, so a misconfigured server fails at startup
+ * instead of on the first quiz anybody takes
+ */
+export function ensureTakerSigningSecret(): void {
+  getSigningSecret();
+}
+
+function sign(takerId: number): string {
+  return createHmac("sha256", getSigningSecret()).update(`taker:${takerId}`).digest("base64url");
+}
+
+/**
+ * Builds the token a browser proves it is a taker with, e.g. "42.<signature>"
+ */
+export function createTakerToken(takerId: number): string {
+  return `${takerId}.${sign(takerId)}`;
+}
+
+/**
+ * Reads the taker a token names
+ * @returns The taker's id, or null when the token is missing, malformed or not signed by this server
+ */
+export function verifyTakerToken(token: string | undefined): number | null {
+  if (!token) return null;
+
+  const [id, signature] = token.split(".");
+  const takerId = Number(id);
+  if (!Number.isSafeInteger(takerId) || takerId <= 0 || !signature) return null;
+
+  const expected = Buffer.from(sign(takerId));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? takerId : null;
+}
+
+/**
+ * Resolves the taker starting a quiz, creating a new one when the browser has no valid token
+ * @param storage Storage new takers are created in
+ * @param takerToken Token the browser was given by an earlier session, if any
+ * @param userName Name the taker entered, used for a new taker
+ */
+export async function resolveTaker(
+  storage: IStorage,
+  takerToken: string | undefined,
+  userName: string,
+): Promise<{ takerId: number; takerToken: string }> {
+  const knownTakerId = verifyTakerToken(takerToken);
+  if (knownTakerId !== null) {
+    return { takerId: knownTakerId, takerToken: takerToken! };
+  }
+
+  const taker = await storage.createUser({ username: userName });
+  return { takerId: taker.id, takerToken: createTakerToken(taker.id) };
+}
@@ -0,0 +1,28 @@
+import { createServer } from "http";
+import { verifyWebhookSignature, WEBHOOK_DELIVERY_HEADER, WEBHOOK_EVENT_HEADER, WEBHOOK_SIGNATURE_HEADER } from "./webhooks";
+
+// Local endpoint to point webhooks at during development: npm run webhooks:receive -- [port] [secret]
+// Prints each delivery and, given the webhook's secret, whether its signature checks out.
+// WEBHOOK_RECEIVER_STATUS=500 makes it fail every delivery, to watch the retries.
+// The server only delivers to localhost when started with WEBHOOKS_ALLOW_PRIVATE_ADDRESSES=true.
+const port = parseInt(process.argv[2] || "4000");
+const secret = process.argv[3];
+const responseStatus = parseInt(process.env.WEBHOOK_RECEIVER_STATUS || "200");
+
+createServer((req, res) => {
+  let body = "";
+  req.setEncoding("utf-8");
+  req.on("data", (chunk) => { body += chunk; });
+  req.on("end", () => {
+    const signature = req.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()];
+    const verdict = !secret
+      ? "not checked"
+      : typeof signature === "string" && verifyWebhookSignature(secret, signature, body) ? "valid" : "INVALID";
+
+    console.log(`${req.method} ${req.url} ${req.headers[WEBHOOK_EVENT_HEADER.toLowerCase()]} delivery ${req.headers[WEBHOOK_DELIVERY_HEADER.toLowerCase()]} (signature ${verdict})`);
+    console.log(body);
+    res.writeHead(responseStatus).end();
+  });
+}).listen(port, () => {
+  console.log(`Receiving webhooks on http://localhost:${port}/, answering HTTP ${responseStatus}`);
+});
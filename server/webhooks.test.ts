@@ -0,0 +1,306 @@
+import { after, afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingHttpHeaders } from 'http';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import type { Quiz, WebhookDelivery, WebhookDeliveryView, WebhookView } from '@shared/schema';
+import { MemStorage } from './storage';
+import { createDashboardTokenGuard } from './auth';
+import { registerWebhookRoutes } from './routes/webhooks';
+import { isPublicAddress } from './publicAddress';
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  dispatchWebhookEvent,
+  getWebhookRetryDelay,
+  processDueWebhookDeliveries,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from './webhooks';
+
+// Webhook signing, delivery, retries and the delivery log, against receivers on localhost
+// Runs on a MemStorage, so no database is opened. Run with `npm test`.
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+interface Receiver {
+  url: string;
+  requests: ReceivedRequest[];
+  close(): Promise<void>;
+}
+
+// Answers every request with the status `respond` picks for it (the first request is number 1)
+async function startReceiver(respond: (requestNumber: number) => { status: number; headers?: Record<string, string> }): Promise<Receiver> {
+  const requests: ReceivedRequest[] = [];
+  const server = createServer((req, res) => {
+    let body = '';
+    req.setEncoding('utf-8');
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      requests.push({ headers: req.headers, body });
+      const { status, headers } = respond(requests.length);
+      res.writeHead(status, headers).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`,
+    requests,
+    close: () => new Promise((resolve) => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function createQuiz(storage: MemStorage): Promise<Quiz> {
+  return storage.createQuiz({
+    creatorId: 1,
+    creatorName: 'Sam',
+    accessCode: 'abcd1234',
+    urlSlug: 'sam-abcd1234',
+    dashboardToken: 'dashboard-token',
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+    retakePolicy: 'single',
+    creatorEmail: null,
+  });
+}
+
+// Sends due deliveries until the quiz's latest delivery has been attempted `attempts` times
+async function waitForAttempts(storage: MemStorage, quizId: number, attempts: number): Promise<WebhookDelivery> {
+  for (let i = 0; i < 200; i++) {
+    const [delivery] = await storage.getWebhookDeliveries(quizId, 1);
+    if (delivery && delivery.attempts >= attempts) {
+      return delivery;
+    }
+    await processDueWebhookDeliveries(storage);
+    await sleep(10);
+  }
+  throw new Error(`Delivery was not attempted ${attempts} times`);
+}
+
+// Skips the backoff so the next attempt is due now
+async function makeDue(storage: MemStorage, delivery: WebhookDelivery): Promise<void> {
+  const { status, attempts, responseStatus, error, completedAt } = delivery;
+  await storage.updateWebhookDelivery(delivery.id, {
+    status,
+    attempts,
+    responseStatus,
+    error,
+    completedAt,
+    nextAttemptAt: new Date(0).toISOString(),
+  });
+}
+
+describe('webhook signatures', () => {
+  const secret = 'whsec_test';
+  const body = JSON.stringify({ id: 'event', event: 'attempt.completed' });
+
+  it('verifies a body signed with the same secret', () => {
+    const header = signWebhookPayload(secret, body);
+    assert.match(header, /^t=\d+,v1=[0-9a-f]{64}$/);
+    assert.equal(verifyWebhookSignature(secret, header, body), true);
+  });
+
+  it('rejects a changed body, another secret or a malformed header', () => {
+    const header = signWebhookPayload(secret, body);
+    assert.equal(verifyWebhookSignature(secret, header, `${body} `), false);
+    assert.equal(verifyWebhookSignature('whsec_other', header, body), false);
+    assert.equal(verifyWebhookSignature(secret, 'v1=abc', body), false);
+  });
+
+  it('rejects a signature older than the tolerance', () => {
+    const signedAt = Math.floor(Date.now() / 1000) - 10 * 60;
+    const header = signWebhookPayload(secret, body, signedAt);
+    assert.equal(verifyWebhookSignature(secret, header, body), false);
+    assert.equal(verifyWebhookSignature(secret, header, body, signedAt * 1000), true);
+  });
+});
+
+describe('public addresses', () => {
+  it('accepts public addresses', () => {
+    for (const address of ['8.8.8.8', '1.1.1.1', '2606:4700:4700::1111']) {
+      assert.equal(isPublicAddress(address), true, address);
+    }
+  });
+
+  it('rejects loopback, private, link-local and metadata addresses, also inside IPv6', () => {
+    for (const address of [
+      '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+      '::1', '::', 'fe80::1', 'fd00:ec2::254', '::ffff:127.0.0.1', '::ffff:7f00:1', '64:ff9b::a9fe:a9fe', 'not an ip',
+    ]) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+});
+
+describe('webhook delivery', () => {
+  let storage: MemStorage;
+  let quiz: Quiz;
+  let apiUrl: string;
+  let closeApi: () => Promise<void>;
+  const receivers: Receiver[] = [];
+
+  const receive = async (respond: Parameters<typeof startReceiver>[0]) => {
+    const receiver = await startReceiver(respond);
+    receivers.push(receiver);
+    return receiver;
+  };
+
+  const callApi = (method: string, path: string, body?: unknown) => fetch(`${apiUrl}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', 'X-Dashboard-Token': quiz.dashboardToken },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const registerWebhook = async (url: string): Promise<WebhookView> => {
+    const response = await callApi('POST', `/api/quizzes/${quiz.id}/webhooks`, { url, events: ['quiz.created'] });
+    assert.equal(response.status, 201);
+    return response.json();
+  };
+
+  beforeEach(async () => {
+    process.env.WEBHOOKS_ALLOW_PRIVATE_ADDRESSES = 'true';
+    storage = new MemStorage();
+    quiz = await createQuiz(storage);
+
+    const app = express();
+    app.use(express.json());
+    registerWebhookRoutes(app, storage, createDashboardTokenGuard(storage), (_req, res) => res.status(403).end());
+    const server = createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    closeApi = () => new Promise((resolve) => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    });
+  });
+
+  afterEach(async () => {
+    delete process.env.WEBHOOKS_ALLOW_PRIVATE_ADDRESSES;
+    await closeApi();
+    await Promise.all(receivers.splice(0).map((receiver) => receiver.close()));
+  });
+
+  after(() => {
+    delete process.env.WEBHOOKS_ALLOW_PRIVATE_ADDRESSES;
+  });
+
+  it('posts a signed payload the receiver can verify, and logs the delivery', async () => {
+    const receiver = await receive(() => ({ status: 204 }));
+    const webhook = await registerWebhook(receiver.url);
+
+    assert.equal(await dispatchWebhookEvent(storage, 'quiz.created', quiz), 1);
+    const delivery = await waitForAttempts(storage, quiz.id, 1);
+
+    assert.equal(receiver.requests.length, 1);
+    const [request] = receiver.requests;
+    assert.equal(request.headers[WEBHOOK_EVENT_HEADER.toLowerCase()], 'quiz.created');
+    assert.equal(request.headers[WEBHOOK_DELIVERY_HEADER.toLowerCase()], String(delivery.id));
+    const signature = request.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()];
+    assert.equal(typeof signature, 'string');
+    assert.equal(verifyWebhookSignature(webhook.secret, signature as string, request.body), true);
+    assert.equal(JSON.parse(request.body).data.quiz.id, quiz.id);
+    assert.equal(JSON.parse(request.body).data.quiz.dashboardToken, undefined);
+
+    const logResponse = await callApi('GET', `/api/quizzes/${quiz.id}/webhooks/deliveries`);
+    const log: WebhookDeliveryView[] = await logResponse.json();
+    assert.equal(log.length, 1);
+    assert.equal(log[0].status, 'succeeded');
+    assert.equal(log[0].attempts, 1);
+    assert.equal(log[0].responseStatus, 204);
+    assert.equal(log[0].error, null);
+    assert.equal('secret' in log[0], false);
+  });
+
+  it('retries a failing receiver with backoff, then gives up', async () => {
+    const receiver = await receive(() => ({ status: 500 }));
+    await registerWebhook(receiver.url);
+    await dispatchWebhookEvent(storage, 'quiz.created', quiz);
+
+    let delivery = await waitForAttempts(storage, quiz.id, 1);
+    assert.equal(delivery.status, 'pending');
+    assert.equal(delivery.error, 'Responded with HTTP 500');
+    const wait = new Date(delivery.nextAttemptAt!).getTime() - Date.now();
+    assert.ok(wait > getWebhookRetryDelay(1) - 5000 && wait <= getWebhookRetryDelay(1), `next attempt in ${wait}ms`);
+
+    // Not due yet: nothing is sent
+    await processDueWebhookDeliveries(storage);
+    assert.equal(receiver.requests.length, 1);
+
+    for (let attempts = 2; attempts <= MAX_WEBHOOK_ATTEMPTS; attempts++) {
+      await makeDue(storage, delivery);
+      delivery = await waitForAttempts(storage, quiz.id, attempts);
+    }
+
+    assert.equal(delivery.status, 'failed');
+    assert.equal(delivery.attempts, MAX_WEBHOOK_ATTEMPTS);
+    assert.equal(delivery.nextAttemptAt, null);
+    assert.notEqual(delivery.completedAt, null);
+    assert.equal(receiver.requests.length, MAX_WEBHOOK_ATTEMPTS);
+    // Every retry is the same delivery of the same event
+    assert.equal(new Set(receiver.requests.map((request) => request.body)).size, 1);
+    assert.equal(new Set(receiver.requests.map((request) => request.headers[WEBHOOK_DELIVERY_HEADER.toLowerCase()])).size, 1);
+
+    const log: WebhookDeliveryView[] = await (await callApi('GET', `/api/quizzes/${quiz.id}/webhooks/deliveries`)).json();
+    assert.equal(log[0].status, 'failed');
+    assert.equal(log[0].responseStatus, 500);
+  });
+
+  it('succeeds on a retry once the receiver recovers', async () => {
+    const receiver = await receive((requestNumber) => ({ status: requestNumber === 1 ? 503 : 200 }));
+    await registerWebhook(receiver.url);
+    await dispatchWebhookEvent(storage, 'quiz.created', quiz);
+
+    await makeDue(storage, await waitForAttempts(storage, quiz.id, 1));
+    const delivery = await waitForAttempts(storage, quiz.id, 2);
+
+    assert.equal(delivery.status, 'succeeded');
+    assert.equal(delivery.error, null);
+    assert.equal(receiver.requests.length, 2);
+  });
+
+  it('does not follow redirects', async () => {
+    const target = await receive(() => ({ status: 200 }));
+    const receiver = await receive(() => ({ status: 302, headers: { Location: target.url } }));
+    await registerWebhook(receiver.url);
+    await dispatchWebhookEvent(storage, 'quiz.created', quiz);
+
+    const delivery = await waitForAttempts(storage, quiz.id, 1);
+    assert.equal(delivery.status, 'pending');
+    assert.equal(delivery.error, 'Responded with HTTP 302');
+    assert.equal(target.requests.length, 0);
+  });
+
+  it('refuses to register webhooks on private addresses', async () => {
+    delete process.env.WEBHOOKS_ALLOW_PRIVATE_ADDRESSES;
+    const receiver = await receive(() => ({ status: 200 }));
+
+    for (const url of [receiver.url, 'http://localhost/hooks', 'http://169.254.169.254/latest', 'http://[::ffff:127.0.0.1]/', 'http://10.0.0.1/']) {
+      const response = await callApi('POST', `/api/quizzes/${quiz.id}/webhooks`, { url, events: ['quiz.created'] });
+      assert.equal(response.status, 400, url);
+    }
+    assert.equal((await storage.getWebhooks(quiz.id)).length, 0);
+  });
+
+  it('refuses to deliver to a webhook whose host now resolves to a private address', async () => {
+    delete process.env.WEBHOOKS_ALLOW_PRIVATE_ADDRESSES;
+    const receiver = await receive(() => ({ status: 200 }));
+    // As if the name was pointed at a private address after the webhook was registered
+    await storage.createWebhook({ quizId: quiz.id, url: receiver.url, secret: 'whsec_test', events: JSON.stringify(['quiz.created']) });
+    await dispatchWebhookEvent(storage, 'quiz.created', quiz);
+
+    const delivery = await waitForAttempts(storage, quiz.id, 1);
+    assert.equal(delivery.status, 'pending');
+    assert.equal(delivery.error, '127.0.0.1 is not a public address');
+    assert.equal(receiver.requests.length, 0);
+  });
+});
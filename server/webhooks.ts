@@ -0,0 +1,303 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import http from 'http';
+import https from 'https';
+import type { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import type { Quiz, QuizAttempt, WebhookDelivery, WebhookEvent } from '@shared/schema';
+import type { IStorage, WebhookDeliveryUpdate } from './storage';
+import { resolvePublicAddress } from './publicAddress';
+import { toLeaderboardEntry, toPublicQuiz, toWebhookView } from './serializers';
+import { log } from './log';
+
+// Headers sent with every delivery
+export const WEBHOOK_EVENT_HEADER = 'X-QzonMe-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-QzonMe-Delivery';
+export const WEBHOOK_SIGNATURE_HEADER = 'X-QzonMe-Signature';
+
+// A delivery is tried up to 6 times, waiting 30s, 1m, 2m, 4m and 8m between attempts
+export const MAX_WEBHOOK_ATTEMPTS = 6;
+const WEBHOOK_RETRY_BASE_MS = 30 * 1000;
+
+// Receivers get 10s to answer; a claimed delivery is left alone for a minute, well past that
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+const WEBHOOK_CLAIM_MS = 60 * 1000;
+
+// How often due deliveries are looked for, how many are sent at once, and how long settled ones are kept
+const WEBHOOK_WORKER_INTERVAL_MS = 15 * 1000;
+const WEBHOOK_BATCH_SIZE = 20;
+const WEBHOOK_DELIVERY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const WEBHOOK_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Receivers should reject signatures older than this, so a captured request cannot be replayed later
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// Body of every delivery; `id` is shared by the deliveries of one event, so receivers can drop duplicates
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  data: {
+    quiz: ReturnType<typeof toPublicQuiz>;
+    attempt?: ReturnType<typeof toLeaderboardEntry>;
+  };
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Local receivers (npm run webhooks:receive, tests) live on private addresses, which are refused otherwise
+function allowsPrivateAddresses(): boolean {
+  return process.env.WEBHOOKS_ALLOW_PRIVATE_ADDRESSES === 'true';
+}
+
+/**
+ * Resolves the host a webhook URL points at, refusing anything but public addresses
+ * Checked when the webhook is registered and again before every delivery, which connects to the
+ * address returned here so the name cannot be pointed elsewhere in between.
+ * @throws Error with a message that can be shown to whoever registers the webhook
+ */
+export async function resolveWebhookAddress(url: string): Promise<LookupAddress> {
+  const { hostname } = new URL(url);
+  if (!allowsPrivateAddresses()) return resolvePublicAddress(hostname);
+
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  const family = isIP(host);
+  return family !== 0 ? { address: host, family } : lookup(host);
+}
+
+/**
+ * Posts a body to a URL, connecting to an address resolved beforehand
+ * Redirects are never followed: the payload only goes where the webhook was registered.
+ * @returns The response status
+ */
+function postToAddress(url: string, address: LookupAddress, headers: Record<string, string>, body: string): Promise<number> {
+  const target = new URL(url);
+  const isHttps = target.protocol === 'https:';
+
+  return new Promise((resolve, reject) => {
+    const request = (isHttps ? https : http).request({
+      method: 'POST',
+      host: address.address,
+      family: address.family,
+      port: target.port || (isHttps ? 443 : 80),
+      path: `${target.pathname}${target.search}`,
+      // The certificate is checked against the name, not the address connected to
+      servername: isHttps && isIP(target.hostname) === 0 ? target.hostname : undefined,
+      headers: { ...headers, Host: target.host, 'Content-Length': String(Buffer.byteLength(body)) },
+    }, (response) => {
+      clearTimeout(timeout);
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+
+    const timeout = setTimeout(() => {
+      request.destroy(new Error(`No response within ${WEBHOOK_TIMEOUT_MS / 1000}s`));
+    }, WEBHOOK_TIMEOUT_MS);
+    request.on('error', (error) => {
+      clearTimeout(timeout);
+      reject(error);
+    });
+    request.end(body);
+  });
+}
+
+function computeSignature(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Builds the signature header of a delivery: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`
+ * The timestamp is signed too, so it cannot be swapped to replay an old request.
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${computeSignature(secret, timestamp, body)}`;
+}
+
+/**
+ * Checks a signature header against the raw request body, as a receiver would
+ * @returns Whether the body was signed with `secret` within the tolerance
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  now: number = Date.now(),
+  toleranceSeconds: number = WEBHOOK_SIGNATURE_TOLERANCE_SECONDS,
+): boolean {
+  const parts = new Map(header.split(',').map((part) => {
+    const [key, ...value] = part.trim().split('=');
+    return [key, value.join('=')] as [string, string];
+  }));
+
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature) return false;
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(computeSignature(secret, timestamp, body), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+/**
+ * Time to wait after a failed attempt before the next one
+ * @param attempts Number of attempts made so far
+ */
+export function getWebhookRetryDelay(attempts: number): number {
+  return WEBHOOK_RETRY_BASE_MS * 2 ** (attempts - 1);
+}
+
+/**
+ * Queues one delivery of the event for every webhook subscribed to it: the quiz's own and the admins'
+ * Must be awaited when the quiz is about to be deleted, since its webhooks go with it.
+ * The deliveries are sent in the background.
+ * @returns The number of deliveries queued
+ */
+export async function dispatchWebhookEvent(
+  storage: IStorage,
+  event: WebhookEvent,
+  quiz: Quiz,
+  attempt?: QuizAttempt,
+): Promise<number> {
+  const subscribers = (await storage.getWebhooksForQuiz(quiz.id))
+    .filter((webhook) => toWebhookView(webhook).events.includes(event));
+  if (subscribers.length === 0) return 0;
+
+  const now = new Date().toISOString();
+  const payload: WebhookPayload = {
+    id: randomUUID(),
+    event,
+    createdAt: now,
+    data: attempt ? { quiz: toPublicQuiz(quiz), attempt: toLeaderboardEntry(attempt) } : { quiz: toPublicQuiz(quiz) },
+  };
+  const body = JSON.stringify(payload);
+
+  await storage.createWebhookDeliveries(subscribers.map((webhook) => ({
+    webhookId: webhook.id,
+    quizId: webhook.quizId,
+    event,
+    url: webhook.url,
+    secret: webhook.secret,
+    payload: body,
+    nextAttemptAt: now,
+  })));
+
+  processWebhookDeliveriesInBackground(storage);
+  return subscribers.length;
+}
+
+/**
+ * Queues an event without waiting for it
+ * Failures are logged and never reach the caller, so webhooks can never hold up or break a request.
+ */
+export function dispatchWebhookEventInBackground(storage: IStorage, event: WebhookEvent, quiz: Quiz, attempt?: QuizAttempt): void {
+  dispatchWebhookEvent(storage, event, quiz, attempt).catch((error) => {
+    log(`Failed to queue ${event} webhooks for quiz ${quiz.id}: ${getErrorMessage(error)}`, 'webhooks');
+  });
+}
+
+/**
+ * Posts a delivery once and works out what happens to it next
+ * Any 2xx response settles it; anything else is retried with exponential backoff until the attempts run out.
+ */
+async function attemptWebhookDelivery(delivery: WebhookDelivery): Promise<WebhookDeliveryUpdate> {
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    // Resolved again for every attempt: the name may have been pointed at a private address since
+    const address = await resolveWebhookAddress(delivery.url);
+    responseStatus = await postToAddress(delivery.url, address, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'QzonMe-Webhooks/1.0',
+      [WEBHOOK_EVENT_HEADER]: delivery.event,
+      [WEBHOOK_DELIVERY_HEADER]: String(delivery.id),
+      [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(delivery.secret, delivery.payload),
+    }, delivery.payload);
+    // A redirect is reported as a failure like any other non-2xx response
+    if (responseStatus < 200 || responseStatus >= 300) error = `Responded with HTTP ${responseStatus}`;
+  } catch (requestError) {
+    error = getErrorMessage(requestError);
+  }
+
+  const attempts = delivery.attempts + 1;
+  const finishedAt = new Date();
+  if (!error) {
+    return { status: 'succeeded', attempts, nextAttemptAt: null, responseStatus, error: null, completedAt: finishedAt.toISOString() };
+  }
+  if (attempts >= MAX_WEBHOOK_ATTEMPTS) {
+    return { status: 'failed', attempts, nextAttemptAt: null, responseStatus, error, completedAt: finishedAt.toISOString() };
+  }
+  return {
+    status: 'pending',
+    attempts,
+    nextAttemptAt: new Date(finishedAt.getTime() + getWebhookRetryDelay(attempts)).toISOString(),
+    responseStatus,
+    error,
+    completedAt: null,
+  };
+}
+
+let processing = false;
+
+/**
+ * Sends every delivery that is due, a batch at a time
+ * Each delivery is claimed first, so it is only sent once even with several server instances.
+ * @returns The number of deliveries attempted
+ */
+export async function processDueWebhookDeliveries(storage: IStorage): Promise<number> {
+  if (processing) return 0;
+  processing = true;
+
+  try {
+    let attempted = 0;
+    for (;;) {
+      const now = new Date();
+      const due = await storage.getDueWebhookDeliveries(now, WEBHOOK_BATCH_SIZE);
+      if (due.length === 0) return attempted;
+
+      const claimUntil = new Date(now.getTime() + WEBHOOK_CLAIM_MS);
+      await Promise.all(due.map(async (delivery) => {
+        if (!(await storage.claimWebhookDelivery(delivery.id, now, claimUntil))) return;
+
+        const update = await attemptWebhookDelivery(delivery);
+        await storage.updateWebhookDelivery(delivery.id, update);
+        attempted++;
+
+        if (update.status === 'failed') {
+          log(`Gave up on ${delivery.event} delivery ${delivery.id} to ${delivery.url} after ${update.attempts} attempts: ${update.error}`, 'webhooks');
+        }
+      }));
+    }
+  } finally {
+    processing = false;
+  }
+}
+
+function processWebhookDeliveriesInBackground(storage: IStorage): void {
+  processDueWebhookDeliveries(storage).catch((error) => {
+    log(`Error sending webhook deliveries: ${getErrorMessage(error)}`, 'webhooks');
+  });
+}
+
+/**
+ * Retries due webhook deliveries every 15 seconds, and drops settled ones after 30 days
+ * @param storage Storage the deliveries are kept in
+ */
+export function scheduleWebhookDeliveries(storage: IStorage) {
+  const prune = async () => {
+    try {
+      await storage.deleteSettledWebhookDeliveries(new Date(Date.now() - WEBHOOK_DELIVERY_RETENTION_MS));
+    } catch (error) {
+      log(`Error pruning webhook deliveries: ${getErrorMessage(error)}`, 'webhooks');
+    }
+  };
+
+  prune();
+  setInterval(prune, WEBHOOK_PRUNE_INTERVAL_MS);
+
+  processWebhookDeliveriesInBackground(storage);
+  return setInterval(() => processWebhookDeliveriesInBackground(storage), WEBHOOK_WORKER_INTERVAL_MS);
+}
@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, blob } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, real, blob, uniqueIndex, index } from "drizzle-orm/sqlite-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -12,6 +12,12 @@ export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
 });
 
+// How repeat attempts by the same taker are handled, chosen by the creator
+// - single: one attempt per taker
+// - best / latest: unlimited retakes; the leaderboard shows the taker's best or latest score
+export const RETAKE_POLICIES = ["single", "best", "latest"] as const;
+export const DEFAULT_RETAKE_POLICY = "best";
+
 // Quiz schema
 export const quizzes = sqliteTable("quizzes", {
   id: integer("id").primaryKey({ autoIncrement: true }),
@@ -19,26 +25,61 @@ export const quizzes = sqliteTable("quizzes", {
   creatorName: text("creator_name").notNull(),
   accessCode: text("access_code").notNull().unique(),
   urlSlug: text("url_slug").notNull().unique(),
+  // Lowercased urlSlug, set on write, so links with any casing resolve through one indexed lookup
+  urlSlugKey: text("url_slug_key").notNull().unique(),
   dashboardToken: text("dashboard_token").notNull().unique(),
-  createdAt: text("created_at").default(sql => `CURRENT_TIMESTAMP`).notNull(),
+  createdAt: text("created_at").$defaultFn(() => new Date().toISOString()).notNull(),
+  expiresAt: text("expires_at").notNull(), // ISO timestamp after which the quiz is gone
+  retakePolicy: text("retake_policy", { enum: RETAKE_POLICIES }).notNull().default(DEFAULT_RETAKE_POLICY),
+  // Opt-in address for completed-attempt emails and the expiry reminder; never shown publicly
+  creatorEmail: text("creator_email"),
+  expiryReminderSentAt: text("expiry_reminder_sent_at"), // Cleared whenever the expiry moves
 });
 
 export const insertQuizSchema = createInsertSchema(quizzes).omit({
   id: true,
   createdAt: true,
+  urlSlugKey: true,
+  expiryReminderSentAt: true,
 });
 
+// Question types
+// - multiple-choice: the taker picks one option
+// - select-all: the taker picks every option that applies
+// - open-ended: the taker types an answer, matched against the creator's accepted answers
+export const QUESTION_TYPES = ["multiple-choice", "select-all", "open-ended"] as const;
+
+// How a select-all question is scored
+// - all-or-nothing: the point is only given for exactly the correct options
+// - partial: each correct option picked earns its share of the point, each wrong one takes a share away (never below 0)
+export const SELECT_ALL_SCORING = ["all-or-nothing", "partial"] as const;
+export const DEFAULT_SELECT_ALL_SCORING = "all-or-nothing";
+
+// How closely a typed answer must match an accepted one; case, punctuation, accents and
+// articles ("a", "an", "the") are always ignored
+// - exact: nothing else is forgiven
+// - normal: about one typo in every five letters
+// - lenient: about one typo in every three letters
+export const ANSWER_STRICTNESS = ["exact", "normal", "lenient"] as const;
+export const DEFAULT_ANSWER_STRICTNESS = "normal";
+
+// Limits of open-ended questions
+export const MAX_ACCEPTED_ANSWERS = 20;
+export const MAX_TYPED_ANSWER_LENGTH = 200;
+
 // Question schema
 export const questions = sqliteTable("questions", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   quizId: integer("quiz_id").notNull(),
   text: text("text").notNull(),
-  type: text("type").notNull(), // Now only "multiple-choice"
+  type: text("type", { enum: QUESTION_TYPES }).notNull(),
   options: text("options").notNull().$type<string>(), // JSON stored as text
   correctAnswers: text("correct_answers").notNull().$type<string>(), // JSON stored as text
   hint: text("hint"), // Keeping for backwards compatibility
   order: integer("order").notNull(), // Question order in the quiz
   imageUrl: text("image_url"), // Added for storing image URLs for questions
+  scoring: text("scoring", { enum: SELECT_ALL_SCORING }).notNull().default(DEFAULT_SELECT_ALL_SCORING), // Only used by select-all questions
+  strictness: text("strictness", { enum: ANSWER_STRICTNESS }).notNull().default(DEFAULT_ANSWER_STRICTNESS), // Only used by open-ended questions
 });
 
 export const insertQuestionSchema = createInsertSchema(questions).omit({
@@ -51,15 +92,166 @@ export const quizAttempts = sqliteTable("quiz_attempts", {
   quizId: integer("quiz_id").notNull(),
   userAnswerId: integer("user_answer_id").notNull(),
   userName: text("user_name").notNull(),
-  score: integer("score").notNull(),
+  score: real("score").notNull(), // Points earned; partial credit makes it fractional (rounded to 2 decimals)
   totalQuestions: integer("total_questions").notNull(),
   answers: text("answers").notNull().$type<string>(), // JSON stored as text
-  completedAt: text("completed_at").default(sql => `CURRENT_TIMESTAMP`).notNull(),
-});
+  completedAt: text("completed_at").$defaultFn(() => new Date().toISOString()).notNull(),
+  // Time from the start of the attempt session to the last answer; null for attempts made before sessions
+  durationMs: integer("duration_ms"),
+  // Whether this is the attempt the quiz's retake policy puts on the leaderboard for its taker
+  counted: integer("counted", { mode: "boolean" }).notNull().default(true),
+}, (table) => [
+  index("quiz_attempts_quiz_score_idx").on(table.quizId, table.score, table.completedAt),
+  index("quiz_attempts_quiz_completed_idx").on(table.quizId, table.completedAt),
+]);
 
 export const insertQuizAttemptSchema = createInsertSchema(quizAttempts).omit({
   id: true,
   completedAt: true,
+  counted: true,
+});
+
+// Attempt session schema: a quiz being taken, answered one locked-in question at a time
+export const attemptSessions = sqliteTable("attempt_sessions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  token: text("token").notNull().unique(), // Secret the taker resumes the session with
+  quizId: integer("quiz_id").notNull(),
+  userAnswerId: integer("user_answer_id").notNull(),
+  userName: text("user_name").notNull(),
+  startedAt: text("started_at").$defaultFn(() => new Date().toISOString()).notNull(),
+  completedAt: text("completed_at"), // Set once the attempt has been built from the session
+  attemptId: integer("attempt_id"),
+});
+
+export const insertAttemptSessionSchema = createInsertSchema(attemptSessions).omit({
+  id: true,
+  startedAt: true,
+  completedAt: true,
+  attemptId: true,
+});
+
+// Answers locked in during a session; the unique index is what makes them final
+export const attemptSessionAnswers = sqliteTable("attempt_session_answers", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  sessionId: integer("session_id").notNull(),
+  questionId: integer("question_id").notNull(),
+  userAnswer: text("user_answer").notNull().$type<string>(), // JSON stored as text
+  answeredAt: text("answered_at").notNull(),
+  timeMs: integer("time_ms").notNull(), // Time since the session started or the previous answer
+}, (table) => [
+  uniqueIndex("attempt_session_answers_session_question_unique").on(table.sessionId, table.questionId),
+]);
+
+export const insertAttemptSessionAnswerSchema = createInsertSchema(attemptSessionAnswers).omit({
+  id: true,
+});
+
+// Rate limit counters shared by every server instance (used when RATE_LIMIT_STORE=shared)
+export const rateLimits = sqliteTable("rate_limits", {
+  key: text("key").primaryKey(), // Limiter name plus the IP or quiz it counts
+  count: integer("count").notNull(),
+  resetAt: text("reset_at").notNull(), // ISO timestamp at which the window starts over
+});
+
+// Triage states of a contact message; every message starts out "new"
+export const CONTACT_MESSAGE_STATUSES = ["new", "read", "replied", "archived", "spam"] as const;
+
+// Messages sent through the contact form, triaged by the admins
+export const contactMessages = sqliteTable("contact_messages", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(),
+  email: text("email").notNull(),
+  message: text("message").notNull(),
+  status: text("status", { enum: CONTACT_MESSAGE_STATUSES }).notNull().default("new"),
+  note: text("note"), // Internal note, only ever shown to admins
+  createdAt: text("created_at").$defaultFn(() => new Date().toISOString()).notNull(),
+  updatedAt: text("updated_at").$defaultFn(() => new Date().toISOString()).notNull(),
+}, (table) => [
+  index("contact_messages_status_created_idx").on(table.status, table.createdAt),
+]);
+
+export const insertContactMessageSchema = createInsertSchema(contactMessages, {
+  name: (schema) => schema.trim().min(1, "Name is required").max(200),
+  email: (schema) => schema.trim().email("Please enter a valid email address").max(320),
+  message: (schema) => schema.trim().min(1, "Message is required").max(5000),
+}).pick({
+  name: true,
+  email: true,
+  message: true,
+});
+
+// Images stored through the image storage, and the quiz each one belongs to.
+// A quiz's images are deleted with it, so only what is recorded here (or tagged at upload) is ever
+// deleted, never whatever URL its questions happen to show.
+export const quizImages = sqliteTable("quiz_images", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  key: text("key").notNull(), // The image storage's own identifier for the image
+  url: text("url").notNull().unique(),
+  quizId: integer("quiz_id"), // Null until a quiz is created with it, for images uploaded while creating one
+  createdAt: text("created_at").$defaultFn(() => new Date().toISOString()).notNull(),
+}, (table) => [
+  index("quiz_images_quiz_idx").on(table.quizId),
+]);
+
+export const insertQuizImageSchema = createInsertSchema(quizImages).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Events a webhook can subscribe to
+export const WEBHOOK_EVENTS = ["quiz.created", "attempt.completed", "quiz.expired"] as const;
+
+// Webhook URLs events are posted to: a creator's webhook hears about its own quiz,
+// an admin's webhook (no quiz) about every quiz
+export const webhooks = sqliteTable("webhooks", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  quizId: integer("quiz_id"), // Null for webhooks registered by an admin
+  url: text("url").notNull(),
+  secret: text("secret").notNull(), // Key the payloads are signed with
+  events: text("events").notNull().$type<string>(), // JSON stored as text
+  createdAt: text("created_at").$defaultFn(() => new Date().toISOString()).notNull(),
+}, (table) => [
+  index("webhooks_quiz_idx").on(table.quizId),
+]);
+
+export const insertWebhookSchema = createInsertSchema(webhooks).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Delivery states: pending ones are (re)tried until they succeed or run out of attempts
+export const WEBHOOK_DELIVERY_STATUSES = ["pending", "succeeded", "failed"] as const;
+
+// One event posted to one webhook. The URL and secret are copied from the webhook,
+// so the delivery can still be retried after its webhook or quiz is deleted.
+export const webhookDeliveries = sqliteTable("webhook_deliveries", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  webhookId: integer("webhook_id").notNull(),
+  quizId: integer("quiz_id"), // The webhook's quiz, which decides whose delivery log it shows in
+  event: text("event", { enum: WEBHOOK_EVENTS }).notNull(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(),
+  payload: text("payload").notNull(), // Exact JSON body that is signed and posted
+  status: text("status", { enum: WEBHOOK_DELIVERY_STATUSES }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: text("next_attempt_at"), // When a pending delivery is due; null once it is settled
+  responseStatus: integer("response_status"), // HTTP status of the last attempt, null if it got no response
+  error: text("error"), // Why the last attempt failed
+  createdAt: text("created_at").$defaultFn(() => new Date().toISOString()).notNull(),
+  completedAt: text("completed_at"),
+}, (table) => [
+  index("webhook_deliveries_status_next_idx").on(table.status, table.nextAttemptAt),
+  index("webhook_deliveries_quiz_created_idx").on(table.quizId, table.createdAt),
+]);
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({
+  id: true,
+  status: true,
+  attempts: true,
+  responseStatus: true,
+  error: true,
+  createdAt: true,
+  completedAt: true,
 });
 
 // Question Answer schema for validation
@@ -67,6 +259,256 @@ export const questionAnswerSchema = z.object({
   questionId: z.number(),
   userAnswer: z.union([z.string(), z.array(z.string())]),
   isCorrect: z.boolean().optional(),
+  // Share of the question's point earned, from 0 to 1; below 1 for a partly correct select-all answer
+  points: z.number().min(0).max(1).optional(),
+});
+
+// Starts taking a quiz: the server hands out the session token the answers are sent with
+// The taker token from an earlier session proves who is taking it; without one a new taker is created
+export const startAttemptSessionSchema = z.object({
+  userName: z.string().trim().min(1, "Name cannot be empty"),
+  takerToken: z.string().min(1).optional(),
+});
+
+// Locks in the answer to one question of the session
+export const lockSessionAnswerSchema = questionAnswerSchema.pick({ questionId: true, userAnswer: true });
+
+// Attempt submission payload: the attempt is built from the session's locked-in answers
+export const submitQuizAttemptSchema = z.object({
+  sessionToken: z.string().min(1),
+});
+
+// Quiz creation payload: the quiz and all of its questions are validated as one unit
+export const MIN_QUIZ_QUESTIONS = 5;
+
+// How long a quiz stays available, chosen by the creator
+export const MIN_QUIZ_LIFETIME_DAYS = 1;
+export const MAX_QUIZ_LIFETIME_DAYS = 30;
+export const DEFAULT_QUIZ_LIFETIME_DAYS = 7;
+
+const quizLifetimeDaysSchema = z
+  .number()
+  .int()
+  .min(MIN_QUIZ_LIFETIME_DAYS, `A quiz must stay available for at least ${MIN_QUIZ_LIFETIME_DAYS} day`)
+  .max(MAX_QUIZ_LIFETIME_DAYS, `A quiz can stay available for at most ${MAX_QUIZ_LIFETIME_DAYS} days`);
+
+export const questionOptionSchema = z.object({
+  text: z.string().trim().min(1, "Option text cannot be empty"),
+  isCorrect: z.boolean(),
+});
+
+export const questionTypeSchema = z.enum(QUESTION_TYPES);
+export const selectAllScoringSchema = z.enum(SELECT_ALL_SCORING);
+export const answerStrictnessSchema = z.enum(ANSWER_STRICTNESS);
+
+const acceptedAnswerSchema = z
+  .string()
+  .trim()
+  .min(1, "Accepted answers cannot be empty")
+  .max(MAX_TYPED_ANSWER_LENGTH, `Accepted answers are limited to ${MAX_TYPED_ANSWER_LENGTH} characters`);
+
+// Open-ended questions are answered by their accepted answers, the other types by their options
+function checkQuestionAnswerKey(
+  question: { type: QuestionType; options: Array<z.infer<typeof questionOptionSchema>>; acceptedAnswers: string[] },
+  ctx: z.RefinementCtx,
+) {
+  if (question.type === "open-ended") {
+    if (question.acceptedAnswers.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "At least one accepted answer is required", path: ["acceptedAnswers"] });
+    }
+  } else if (question.options.length < 2) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "At least 2 options are required", path: ["options"] });
+  } else if (!question.options.some((option) => option.isCorrect)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "At least one option must be marked as correct", path: ["options"] });
+  }
+}
+
+export const quizQuestionInputSchema = z.object({
+  text: z.string().trim().min(1, "Question text cannot be empty"),
+  imageUrl: z.string().nullish(),
+  hint: z.string().nullish(),
+  type: questionTypeSchema.default("multiple-choice"),
+  scoring: selectAllScoringSchema.default(DEFAULT_SELECT_ALL_SCORING),
+  strictness: answerStrictnessSchema.default(DEFAULT_ANSWER_STRICTNESS),
+  options: z.array(questionOptionSchema).max(8).default([]),
+  acceptedAnswers: z.array(acceptedAnswerSchema).max(MAX_ACCEPTED_ANSWERS).default([]),
+}).superRefine(checkQuestionAnswerKey);
+
+// Adds a typed answer to the accepted answers of an open-ended question
+export const acceptAnswerSchema = z.object({
+  answer: acceptedAnswerSchema,
+});
+
+export const retakePolicySchema = z.enum(RETAKE_POLICIES);
+
+export const createQuizWithQuestionsSchema = z.object({
+  creatorName: z.string().trim().min(1, "Creator name cannot be empty"),
+  creatorId: z.number().int().positive().optional(),
+  lifetimeDays: quizLifetimeDaysSchema.default(DEFAULT_QUIZ_LIFETIME_DAYS),
+  retakePolicy: retakePolicySchema.default(DEFAULT_RETAKE_POLICY),
+  creatorEmail: z.string().trim().email("Please enter a valid email address").max(320).optional(),
+  questions: z
+    .array(quizQuestionInputSchema)
+    .min(MIN_QUIZ_QUESTIONS, `A quiz needs at least ${MIN_QUIZ_QUESTIONS} questions`),
+});
+
+// Extends a quiz's expiry by a number of days
+export const extendQuizExpirySchema = z.object({
+  days: quizLifetimeDaysSchema,
+});
+
+// Changes how repeat attempts are handled
+export const updateRetakePolicySchema = z.object({
+  retakePolicy: retakePolicySchema,
+});
+
+// Reordering payload: every question of the quiz, in its new order
+export const reorderQuestionsSchema = z.object({
+  questionIds: z.array(z.number().int().positive()).min(1),
+});
+
+// Admin login payload, checked against the credentials configured on the server
+export const adminLoginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+// Query string of the contact inbox: one status (all when missing) and a search of name, email and message
+export const contactMessageQuerySchema = z.object({
+  status: z.enum(CONTACT_MESSAGE_STATUSES).optional(),
+  search: z.string().trim().max(200).optional(),
+});
+
+// Triage of one contact message; a null note clears it
+export const updateContactMessageSchema = z.object({
+  status: z.enum(CONTACT_MESSAGE_STATUSES).optional(),
+  note: z.string().trim().max(2000).nullable().optional(),
+}).refine((update) => update.status !== undefined || update.note !== undefined, {
+  message: "Nothing to update",
+});
+
+// How many webhooks a quiz, or the admins, can register
+export const MAX_WEBHOOKS = 5;
+
+// Registration of a webhook; the secret is generated by the server
+export const createWebhookSchema = z.object({
+  url: z
+    .string()
+    .trim()
+    .url("Please enter a valid URL")
+    .max(2000)
+    .refine((url) => /^https?:\/\//i.test(url), "The URL must start with http:// or https://"),
+  events: z
+    .array(z.enum(WEBHOOK_EVENTS))
+    .min(1, "Choose at least one event")
+    .transform((events) => Array.from(new Set(events))),
+});
+
+// Orders of paginated attempt lists: best score, most recent, or quickest to finish
+export const ATTEMPT_SORTS = ["score", "newest", "fastest"] as const;
+export const DEFAULT_ATTEMPT_PAGE_SIZE = 20;
+export const MAX_ATTEMPT_PAGE_SIZE = 100;
+
+// Query string of the leaderboard and attempts lists; `cursor` is the `nextCursor` of the previous page
+export const attemptPageQuerySchema = z.object({
+  sort: z.enum(ATTEMPT_SORTS).default("score"),
+  limit: z.coerce.number().int().min(1).max(MAX_ATTEMPT_PAGE_SIZE).default(DEFAULT_ATTEMPT_PAGE_SIZE),
+  cursor: z.string().min(1).optional(),
+});
+
+export const MAX_RANK_NEIGHBOURS = 10;
+
+// Query string of an attempt's rank: the order it is ranked in and how many rows to show around it
+export const attemptRankQuerySchema = z.object({
+  sort: z.enum(ATTEMPT_SORTS).default("score"),
+  neighbours: z.coerce.number().int().min(0).max(MAX_RANK_NEIGHBOURS).default(3),
+});
+
+// Spreadsheet formats the attempts of a quiz can be downloaded in
+export const ATTEMPT_EXPORT_FORMATS = ["csv", "xlsx"] as const;
+
+// Query string of the attempts export
+export const attemptExportQuerySchema = z.object({
+  format: z.enum(ATTEMPT_EXPORT_FORMATS).default("csv"),
+});
+
+// Quiz export file, for backups and for keeping quiz content in version control
+// A file looks like this (keys are written in this order, so diffs between exports stay small):
+//   {
+//     "format": "qzonme-quiz",
+//     "version": 1,
+//     "exportedAt": "2026-01-31T12:00:00.000Z",
+//     "quiz": { "creatorName": "Sam", "retakePolicy": "best", "createdAt": "...", "expiresAt": "..." },
+//     "questions": [
+//       {
+//         "text": "What is my favourite colour?",
+//         "type": "multiple-choice",
+//         "scoring": "all-or-nothing",
+//         "strictness": "normal",
+//         "hint": null,
+//         "image": { "url": "https://example.com/uploads/blue.png" },
+//         "options": [{ "text": "Blue", "isCorrect": true }, { "text": "Red", "isCorrect": false }],
+//         "acceptedAnswers": []
+//       }
+//     ]
+//   }
+// - type is "multiple-choice" (one correct option) or "select-all" (any number, scored as `scoring` says)
+// - an "open-ended" question has no options; it is answered by its acceptedAnswers, matched as `strictness` says
+// - image is null, a referenced image ({ "url" }) or an embedded one ({ "dataUrl": "data:image/png;base64,..." })
+// - quiz.createdAt and quiz.expiresAt are informational; an imported quiz gets its own lifetime
+// - version only goes up for changes older readers cannot handle; they refuse newer files
+export const QUIZ_EXPORT_FORMAT = "qzonme-quiz";
+export const QUIZ_EXPORT_VERSION = 1;
+export const QUIZ_EXPORT_IMAGE_MODES = ["reference", "embed"] as const;
+
+export const quizExportImageSchema = z.union([
+  z.object({ url: z.string().trim().min(1).max(2000) }).strict(),
+  z.object({
+    dataUrl: z.string().regex(/^data:image\/[\w.+-]+;base64,[A-Za-z0-9+/]+=*$/, "Embedded images must be base64 image data URLs"),
+  }).strict(),
+]);
+
+export const quizExportQuestionSchema = z.object({
+  text: z.string().trim().min(1, "Question text cannot be empty"),
+  type: questionTypeSchema,
+  // Only read for select-all questions
+  scoring: selectAllScoringSchema.default(DEFAULT_SELECT_ALL_SCORING),
+  // Only read for open-ended questions, as are the accepted answers
+  strictness: answerStrictnessSchema.default(DEFAULT_ANSWER_STRICTNESS),
+  hint: z.string().nullable().default(null),
+  image: quizExportImageSchema.nullable().default(null),
+  options: z.array(questionOptionSchema).max(8).default([]),
+  acceptedAnswers: z.array(acceptedAnswerSchema).max(MAX_ACCEPTED_ANSWERS).default([]),
+}).superRefine(checkQuestionAnswerKey);
+
+export const quizExportSchema = z.object({
+  format: z.literal(QUIZ_EXPORT_FORMAT, {
+    errorMap: () => ({ message: "This is not a QzonMe quiz export" }),
+  }),
+  version: z.number().int().positive().refine((version) => version <= QUIZ_EXPORT_VERSION, {
+    message: "This quiz was exported by a newer version of QzonMe",
+  }),
+  exportedAt: z.string(),
+  quiz: z.object({
+    creatorName: z.string().trim().min(1),
+    retakePolicy: retakePolicySchema.default(DEFAULT_RETAKE_POLICY),
+    createdAt: z.string().optional(),
+    expiresAt: z.string().optional(),
+  }),
+  questions: z
+    .array(quizExportQuestionSchema)
+    .min(MIN_QUIZ_QUESTIONS, `A quiz needs at least ${MIN_QUIZ_QUESTIONS} questions`),
+});
+
+// Query string of the export: whether images are linked to or copied into the file
+// Copying is the default, so a quiz imported from the file does not depend on the original's images
+export const quizExportQuerySchema = z.object({
+  images: z.enum(QUIZ_EXPORT_IMAGE_MODES).default("embed"),
+});
+
+// Copies an image an imported quiz links to, so the new quiz owns its images
+export const copyImageSchema = z.object({
+  url: z.string().trim().url().max(2048),
 });
 
 // Helper function to parse JSON from text fields
@@ -85,6 +527,23 @@ export function stringifyJsonField<T>(value: T): string {
   return JSON.stringify(value);
 }
 
+// Helper function to turn a URL slug, as stored or as typed in a link, into its case-insensitive lookup key
+export function normalizeUrlSlug(urlSlug: string): string {
+  return urlSlug.trim().toLowerCase();
+}
+
+// Helper function to compute the expiry timestamp `days` days after `from`
+export function getQuizExpiryDate(days: number, from: Date = new Date()): string {
+  const expiresAt = new Date(from);
+  expiresAt.setDate(expiresAt.getDate() + days);
+  return expiresAt.toISOString();
+}
+
+// Single expiry rule shared by the server and the browser: a quiz is gone once `expiresAt` has passed
+export function isQuizExpired(quiz: { expiresAt: string }, now: Date = new Date()): boolean {
+  return new Date(quiz.expiresAt).getTime() <= now.getTime();
+}
+
 // Type definitions
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -94,4 +553,171 @@ export type Question = typeof questions.$inferSelect;
 export type InsertQuestion = z.infer<typeof insertQuestionSchema>;
 export type QuizAttempt = typeof quizAttempts.$inferSelect;
 export type InsertQuizAttempt = z.infer<typeof insertQuizAttemptSchema>;
+export type AttemptSession = typeof attemptSessions.$inferSelect;
+export type InsertAttemptSession = z.infer<typeof insertAttemptSessionSchema>;
+export type AttemptSessionAnswer = typeof attemptSessionAnswers.$inferSelect;
+export type InsertAttemptSessionAnswer = z.infer<typeof insertAttemptSessionAnswerSchema>;
+export type RateLimit = typeof rateLimits.$inferSelect;
 export type QuestionAnswer = z.infer<typeof questionAnswerSchema>;
+export type StartAttemptSession = z.infer<typeof startAttemptSessionSchema>;
+export type LockSessionAnswer = z.infer<typeof lockSessionAnswerSchema>;
+export type AcceptAnswer = z.infer<typeof acceptAnswerSchema>;
+export type SubmitQuizAttempt = z.infer<typeof submitQuizAttemptSchema>;
+export type QuizQuestionInput = z.infer<typeof quizQuestionInputSchema>;
+export type CreateQuizWithQuestions = z.infer<typeof createQuizWithQuestionsSchema>;
+export type ReorderQuestions = z.infer<typeof reorderQuestionsSchema>;
+export type ExtendQuizExpiry = z.infer<typeof extendQuizExpirySchema>;
+export type RetakePolicy = z.infer<typeof retakePolicySchema>;
+export type QuestionType = (typeof QUESTION_TYPES)[number];
+export type SelectAllScoring = (typeof SELECT_ALL_SCORING)[number];
+export type AnswerStrictness = (typeof ANSWER_STRICTNESS)[number];
+export type UpdateRetakePolicy = z.infer<typeof updateRetakePolicySchema>;
+export type AttemptSort = (typeof ATTEMPT_SORTS)[number];
+export type AdminLogin = z.infer<typeof adminLoginSchema>;
+export type ContactMessage = typeof contactMessages.$inferSelect;
+export type InsertContactMessage = z.infer<typeof insertContactMessageSchema>;
+export type ContactMessageStatus = (typeof CONTACT_MESSAGE_STATUSES)[number];
+export type ContactMessageQuery = z.infer<typeof contactMessageQuerySchema>;
+export type UpdateContactMessage = z.infer<typeof updateContactMessageSchema>;
+export type QuizImage = typeof quizImages.$inferSelect;
+export type InsertQuizImage = z.infer<typeof insertQuizImageSchema>;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
+export type CreateWebhook = z.infer<typeof createWebhookSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+export type AttemptPageQuery = z.infer<typeof attemptPageQuerySchema>;
+export type AttemptRankQuery = z.infer<typeof attemptRankQuerySchema>;
+export type AttemptExportFormat = (typeof ATTEMPT_EXPORT_FORMATS)[number];
+export type QuizExport = z.infer<typeof quizExportSchema>;
+export type QuizExportQuestion = z.infer<typeof quizExportQuestionSchema>;
+export type QuizExportImage = z.infer<typeof quizExportImageSchema>;
+export type QuizExportImageMode = (typeof QUIZ_EXPORT_IMAGE_MODES)[number];
+export type QuizWithQuestions = Quiz & { questions: Question[] };
+
+// API views of quizzes and attempts: public payloads never carry secrets or other takers' answers
+export type PublicQuiz = Omit<Quiz, "dashboardToken" | "urlSlugKey" | "creatorEmail" | "expiryReminderSentAt">;
+export type LeaderboardAttempt = Pick<QuizAttempt, "id" | "score" | "totalQuestions" | "completedAt" | "durationMs">;
+// One row per taker: the attempt the quiz's retake policy counts, plus every attempt they made (newest first)
+// Takers with the same result share a rank, and the next one is ranked after all of them (1, 2, 2, 4)
+export type LeaderboardEntry = Pick<QuizAttempt, "id" | "quizId" | "userName" | "score" | "totalQuestions" | "completedAt" | "durationMs"> & {
+  rank: number;
+  history: LeaderboardAttempt[];
+};
+// One page of a sorted attempt list; `nextCursor` is null on the last page
+export type AttemptPage<T> = {
+  data: T[];
+  nextCursor: string | null;
+  // Size of the whole list, not of this page
+  total: number;
+  sort: AttemptSort;
+  serverTime: number;
+};
+export type LeaderboardPage = AttemptPage<LeaderboardEntry> & {
+  retakePolicy: RetakePolicy;
+};
+// Where a taker stands on the leaderboard, with the rows around them
+export type AttemptRank = {
+  sort: AttemptSort;
+  // The taker's leaderboard row, built from the attempt the retake policy counts
+  entry: LeaderboardEntry;
+  // Number of ranked takers
+  total: number;
+  // Other takers with exactly the same result
+  tiedWith: number;
+  // Share of the other takers with a worse result, 0 to 100
+  percentile: number;
+  // Nearest rows ranked above and below, in leaderboard order
+  above: LeaderboardEntry[];
+  below: LeaderboardEntry[];
+};
+
+// Live update streams of a quiz send a heartbeat comment at least this often,
+// so a client that hears nothing for longer can tell the connection is dead
+export const LIVE_UPDATE_HEARTBEAT_MS = 25000;
+
+// Events of the live update streams
+// - attempt: an attempt was just saved; takers get its public leaderboard fields, the creator the whole attempt
+// - reranked: existing attempts were re-graded or re-counted, so lists and ranks should be fetched again
+// - closed: the quiz was deleted, and the stream ends
+export type LiveUpdateEvent =
+  | { type: "attempt"; attempt: Omit<LeaderboardEntry, "rank" | "history"> | ParsedQuizAttempt }
+  | { type: "reranked" }
+  | { type: "closed" };
+
+// The logged-in admin; the session ends at `expiresAt` whatever the activity
+export type AdminSession = {
+  username: string;
+  expiresAt: string;
+};
+
+// One listing of the contact inbox, with the number of messages in each status for the tabs
+export type ContactInbox = {
+  messages: ContactMessage[];
+  counts: Record<ContactMessageStatus, number>;
+};
+
+// API views of webhooks: the secret is shown to whoever registered the webhook, never copied into the log
+export type WebhookView = Omit<Webhook, "events"> & {
+  events: WebhookEvent[];
+};
+export type WebhookDeliveryView = Omit<WebhookDelivery, "secret">;
+
+// Figures of the creator dashboard, computed over every attempt of the quiz
+export type QuizAttemptStats = {
+  totalAttempts: number;
+  averagePercentage: number;
+  topPercentage: number;
+  questions: Array<{
+    questionId: number;
+    answerCount: number;
+    correctCount: number;
+    // Most frequent answer, null while nobody has answered
+    mostCommonAnswer: string | null;
+    isMostCommonAnswerCorrect: boolean;
+    // Typed answers of an open-ended question that were marked wrong but came close to an accepted one
+    nearMisses: NearMissAnswer[];
+  }>;
+};
+
+export type NearMissAnswer = {
+  // As the first taker typed it
+  answer: string;
+  // Accepted answer it came closest to
+  closestAnswer: string;
+  // Attempts that gave it
+  count: number;
+};
+
+// API views of questions: takers never receive the answer key
+// The hint is only shown to takers of open-ended questions, as a clue to what to type.
+export type TakerQuestion = Pick<Question, "id" | "quizId" | "text" | "type" | "scoring" | "imageUrl" | "order" | "hint"> & {
+  options: string[];
+};
+export type CreatorQuestion = TakerQuestion & {
+  // The accepted answers of an open-ended question
+  correctAnswers: string[];
+  strictness: AnswerStrictness;
+};
+// A question as reviewed by the taker of an attempt: what they saw, plus the answers it accepted
+export type ReviewQuestion = TakerQuestion & {
+  correctAnswers: string[];
+};
+export type ParsedQuizAttempt = Omit<QuizAttempt, "answers"> & { answers: QuestionAnswer[] };
+// API view of an attempt session: what has been answered and when, never whether it was correct
+export type AttemptSessionView = Pick<AttemptSession, "token" | "quizId" | "userAnswerId" | "userName" | "startedAt" | "completedAt" | "attemptId"> & {
+  answers: Array<Pick<AttemptSessionAnswer, "questionId" | "answeredAt" | "timeMs"> & {
+    userAnswer: QuestionAnswer["userAnswer"];
+  }>;
+};
+// A newly started session, with the token the browser sends to start its next ones
+export type StartedAttemptSession = AttemptSessionView & {
+  takerToken: string;
+};
+// Only the questions the attempt answered are included
+export type AttemptReview = {
+  attempt: ParsedQuizAttempt;
+  questions: ReviewQuestion[];
+};